@@ -0,0 +1,225 @@
+import { eventBus } from '@shared/eventBus';
+import { ExamSession, serializeExamReport, type ExamReport, type TelemetrySample } from '@shared/exam';
+import type { RuleViolation, ViolationType } from '@shared/rules';
+
+const VIOLATION_LABELS: Record<ViolationType, string> = {
+  speeding: 'Překročení rychlosti',
+  stop_sign: 'Nezastavení na STOP',
+  red_light: 'Vjezd na červenou',
+  failed_to_yield: 'Nedání přednosti v jízdě',
+  wrong_way: 'Jízda v protisměru',
+  restricted_lane: 'Jízda ve vyhrazeném pruhu',
+  turn_signal: 'Chybné znamení o změně směru',
+};
+
+const FAULT_LABELS: Record<string, string> = {
+  missing: 'nedáno',
+  late: 'pozdě',
+  wrong_side: 'na špatnou stranu',
+};
+
+/**
+ * Practice exam recorder, fed from eventBus while running
+ *
+ * Records 'trailPoint' (minimap trail samples), 'vehicleUpdate' and
+ * 'ruleViolation'. `clock` must be the simulation time the RuleEngine runs on.
+ *
+ * Events:
+ *   'examState'  - true when recording starts, false when it ends
+ *   'examReport' - ExamReport once finished
+ */
+export class ClientExam {
+  private session = new ExamSession();
+  private unsubscribe: (() => void)[] = [];
+
+  constructor(private clock: () => number) {}
+
+  get running(): boolean {
+    return this.session.running;
+  }
+
+  /**
+   * Start recording a new exam
+   */
+  start(): void {
+    this.stopListening();
+    this.session.start(this.clock());
+
+    this.unsubscribe = [
+      eventBus.on('trailPoint', (p: { x: number; y: number }) => this.session.recordTrack(p.x, p.y, this.clock())),
+      eventBus.on('vehicleUpdate', (data: Omit<TelemetrySample, 't'>) => this.session.recordTelemetry(this.clock(), data)),
+      eventBus.on('ruleViolation', (violation: RuleViolation) => this.session.recordViolation(violation)),
+    ];
+
+    eventBus.emit('examState', true);
+    console.log('📝 Exam started');
+  }
+
+  /**
+   * Stop recording and grade, null when no exam was running
+   */
+  finish(): ExamReport | null {
+    if (!this.session.running) return null;
+
+    this.stopListening();
+    const report = this.session.finish(this.clock());
+
+    eventBus.emit('examState', false);
+    eventBus.emit('examReport', report);
+    console.log(`📝 Exam finished: ${report.passed ? 'passed' : 'failed'}, score ${report.score}`);
+    return report;
+  }
+
+  /**
+   * Start or finish, for a single key binding
+   */
+  toggle(): ExamReport | null {
+    if (this.running) return this.finish();
+    this.start();
+    return null;
+  }
+
+  private stopListening(): void {
+    this.unsubscribe.forEach(off => off());
+    this.unsubscribe = [];
+  }
+}
+
+/**
+ * Save report as JSON file
+ */
+export function downloadExamReport(report: ExamReport): void {
+  const url = URL.createObjectURL(new Blob([serializeExamReport(report)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `zkouska-${report.startedAt.slice(0, 19).replace(/[:T]/g, '-')}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Open printable summary for the instructor in a new window
+ */
+export function printExamReport(report: ExamReport): void {
+  const win = window.open('', '_blank');
+  if (!win) {
+    console.warn('⚠️ Popup blocked, cannot open exam report');
+    return;
+  }
+
+  win.document.write(renderExamReportHTML(report));
+  win.document.close();
+  win.focus();
+  win.print();
+}
+
+/**
+ * Printable HTML summary: outcome, penalties by category, violations and track
+ */
+export function renderExamReportHTML(report: ExamReport): string {
+  const outcome = report.passed ? 'PROSPĚL' : 'NEPROSPĚL';
+  const reason = report.failReason === 'serious_violation' ? 'závažná chyba'
+    : report.failReason === 'penalty_points' ? 'příliš mnoho trestných bodů'
+    : '';
+
+  const categories = (Object.entries(report.categories) as [ViolationType, { count: number; points: number }][])
+    .map(([type, c]) => `<tr><td>${VIOLATION_LABELS[type]}</td><td>${c.count}</td><td>${c.points}</td></tr>`)
+    .join('');
+
+  const violations = report.violations
+    .map(v => `<tr${v.serious ? ' class="serious"' : ''}>
+      <td>${formatTime(v.t)}</td>
+      <td>${VIOLATION_LABELS[v.type]}${describeViolation(v)}</td>
+      <td>${v.points}${v.serious ? ' (závažná)' : ''}</td>
+    </tr>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="cs">
+<head>
+<meta charset="utf-8">
+<title>Zkouška z praktické jízdy - ${escapeHtml(new Date(report.startedAt).toLocaleString('cs-CZ'))}</title>
+<style>
+  body { font: 14px/1.4 system-ui, sans-serif; margin: 24px; color: #111; }
+  h1 { font-size: 20px; margin: 0 0 8px; }
+  .outcome { font-size: 18px; font-weight: 700; color: ${report.passed ? '#1b7f2a' : '#b3261e'}; }
+  table { border-collapse: collapse; margin: 12px 0; min-width: 360px; }
+  th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; }
+  tr.serious td { color: #b3261e; font-weight: 600; }
+  svg { border: 1px solid #ccc; margin-top: 12px; }
+  @media print { button { display: none; } }
+</style>
+</head>
+<body>
+<h1>Zkouška z praktické jízdy</h1>
+<p>${escapeHtml(new Date(report.startedAt).toLocaleString('cs-CZ'))} ·
+  ${formatTime(report.duration)} · ${(report.distance / 1000).toFixed(2)} km</p>
+<p class="outcome">${outcome}${reason ? ` - ${reason}` : ''} · ${report.score} / 100 bodů</p>
+<h2>Trestné body podle kategorie</h2>
+${categories ? `<table><tr><th>Kategorie</th><th>Počet</th><th>Body</th></tr>${categories}</table>` : '<p>Bez chyb.</p>'}
+${violations ? `<h2>Chyby</h2><table><tr><th>Čas</th><th>Chyba</th><th>Body</th></tr>${violations}</table>` : ''}
+<h2>Trasa</h2>
+${renderTrackSVG(report)}
+<p><button onclick="window.print()">Tisk</button></p>
+</body>
+</html>`;
+}
+
+/**
+ * Driven track with violations marked where the car was at that time
+ */
+function renderTrackSVG(report: ExamReport): string {
+  const track = report.track;
+  if (track.length < 2) return '<p>Trasa nebyla zaznamenána.</p>';
+
+  const size = 480;
+  const pad = 12;
+  const xs = track.map(p => p.x);
+  const ys = track.map(p => p.y);
+  const minX = Math.min(...xs), minY = Math.min(...ys);
+  const span = Math.max(Math.max(...xs) - minX, Math.max(...ys) - minY, 1);
+  const k = (size - 2 * pad) / span;
+  const sx = (x: number) => (pad + (x - minX) * k).toFixed(1);
+  const sy = (y: number) => (pad + (y - minY) * k).toFixed(1);
+
+  const line = track.map(p => `${sx(p.x)},${sy(p.y)}`).join(' ');
+  const marks = report.violations.map(v => {
+    const p = trackPointAt(track, v.t);
+    return `<circle cx="${sx(p.x)}" cy="${sy(p.y)}" r="5" fill="${v.serious ? '#b3261e' : '#e8a200'}"><title>${VIOLATION_LABELS[v.type]}</title></circle>`;
+  }).join('');
+
+  return `<svg width="${size}" height="${size}" viewBox="0 0 ${size} ${size}">
+  <polyline points="${line}" fill="none" stroke="#1565c0" stroke-width="2"/>
+  ${marks}
+</svg>`;
+}
+
+/**
+ * Track position at time, interpolated between samples
+ */
+function trackPointAt(track: ExamReport['track'], t: number): { x: number; y: number } {
+  const next = track.findIndex(p => p.t >= t);
+  if (next <= 0) return track[next === 0 ? 0 : track.length - 1];
+
+  const a = track[next - 1];
+  const b = track[next];
+  const f = b.t > a.t ? (t - a.t) / (b.t - a.t) : 0;
+  return { x: a.x + (b.x - a.x) * f, y: a.y + (b.y - a.y) * f };
+}
+
+function describeViolation(v: ExamReport['violations'][number]): string {
+  switch (v.type) {
+    case 'speeding': return ` (${Math.round(v.speed * 3.6)} km/h, limit ${Math.round(v.limit * 3.6)} km/h)`;
+    case 'turn_signal': return ` (${FAULT_LABELS[v.fault]})`;
+    default: return '';
+  }
+}
+
+function formatTime(seconds: number): string {
+  const s = Math.max(0, Math.round(seconds));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"]/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' }[c]!));
+}
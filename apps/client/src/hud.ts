@@ -2,6 +2,7 @@
 import { eventBus } from '@shared/eventBus';
 import { MinimapTrail } from './ui/minimapTrail';
 import { prof } from './utils/prof';
+import type { NavigationInstruction, NavigationSignal } from './navigation';
 
 type HUDOptions = {
   attachTo?: HTMLElement;
@@ -60,6 +61,14 @@ export class HUD {
   private lastTrailY = 0; 
   private trailInited = false;
 
+  // navigace – panel s pokynem + trasa na minimapě (world px)
+  private navEl: HTMLDivElement;
+  private navIconEl: HTMLDivElement;
+  private navTextEl: HTMLDivElement;
+  private navRemainEl: HTMLDivElement;
+  private routePath: Path2D | null = null;
+  private nextSignal: NavigationSignal | null = null; // nejbližší semafor na trase
+
   constructor(opts: HUDOptions = {}) {
     const parent = opts.attachTo ?? document.body;
 
@@ -111,6 +120,22 @@ export class HUD {
     this.ccEl.innerHTML = this.makeCruiseControlIcon();
     speedBox.appendChild(this.ccEl);
 
+    // Navigační panel (skrytý, dokud není trasa)
+    this.navEl = document.createElement('div');
+    this.navEl.className = 'hud-nav';
+    this.navIconEl = document.createElement('div');
+    this.navIconEl.className = 'hud-nav-icon';
+    const navBody = document.createElement('div');
+    this.navTextEl = document.createElement('div');
+    this.navTextEl.className = 'hud-nav-text';
+    this.navRemainEl = document.createElement('div');
+    this.navRemainEl.className = 'hud-nav-remain';
+    navBody.appendChild(this.navTextEl);
+    navBody.appendChild(this.navRemainEl);
+    this.navEl.appendChild(this.navIconEl);
+    this.navEl.appendChild(navBody);
+    this.root.appendChild(this.navEl);
+
     // Mini-mapa (volitelně)
     if (opts.enableMiniMap && opts.mapLayer && opts.getPlayer) {
       this.miniWrap = document.createElement('div');
@@ -244,6 +269,20 @@ export class HUD {
         try { (ctx as any).filter = 'none'; } catch {}
         ctx.restore();
 
+        // NAVIGAČNÍ TRASA – pod trailem, ať je vidět i projetá část
+        if (this.routePath) {
+          ctx.save();
+          ctx.lineCap = 'round';
+          ctx.lineJoin = 'round';
+          ctx.strokeStyle = 'rgba(0,0,0,.55)';
+          ctx.lineWidth = Math.max(1, 7 / scale);
+          ctx.stroke(this.routePath);
+          ctx.strokeStyle = '#3da9ff';
+          ctx.lineWidth = Math.max(1, 4 / scale);
+          ctx.stroke(this.routePath);
+          ctx.restore();
+        }
+
         // VYKRESLENÍ TRAILU - ultra-rychlý Path2D s FPS auto-disable
         if (trailEnabled) {
           const fps = prof.getFpsEma();
@@ -258,6 +297,9 @@ export class HUD {
         // scale bar (metricky rozumný)
         this.drawScaleBar(ctx, W, H, this.miniState.metersAcross, DPR);
 
+        // semafor před námi (vlevo nahoře, vpravo je kompas)
+        if (this.nextSignal) this.drawSignal(ctx, this.nextSignal, DPR);
+
         // --- MARKER AUTA: promítnutí world -> UI, aby se při panu neposouval střed ---
         {
           const DPR = devicePixelRatio || 1;
@@ -353,6 +395,34 @@ export class HUD {
       this.ccEl.classList.toggle('on', this.cruiseOn);
     });
 
+    // Navigace: trasa (world px) a aktuální pokyn, null = zrušeno
+    eventBus.on('navigationRoute', (data: { points: { x: number; y: number }[] } | null) => {
+      if (!data || data.points.length < 2) {
+        this.routePath = null;
+        return;
+      }
+      const path = new Path2D();
+      path.moveTo(data.points[0].x, data.points[0].y);
+      for (let i = 1; i < data.points.length; i++) path.lineTo(data.points[i].x, data.points[i].y);
+      this.routePath = path;
+    });
+
+    eventBus.on('navigationUpdate', (data: NavigationInstruction | null) => {
+      this.navEl.classList.toggle('on', !!data);
+      if (!data) return;
+
+      this.navEl.classList.toggle('off-route', data.offRoute);
+      this.navIconEl.textContent = this.maneuverIcon(data);
+      this.navTextEl.textContent = data.text;
+      this.navRemainEl.textContent = data.arrived
+        ? ''
+        : `do cíle ${data.remaining >= 1000 ? (data.remaining / 1000).toFixed(1).replace('.', ',') + ' km' : Math.round(data.remaining) + ' m'}`;
+    });
+
+    eventBus.on('navigationSignal', (data: NavigationSignal | null) => {
+      this.nextSignal = data;
+    });
+
     // Blikání (jednotná fáze z game loopu)
     eventBus.on('blinkPhase', (on: boolean) => {
       if (!this.blinking) {
@@ -372,6 +442,7 @@ export class HUD {
       this.lastTrailY = y; 
       this.trailInited = true;
       this.trail.add(x, y);
+      eventBus.emit('trailPoint', { x, y });
       return;
     }
     const dx = x - this.lastTrailX, dy = y - this.lastTrailY;
@@ -380,6 +451,21 @@ export class HUD {
       this.lastTrailX = x; 
       this.lastTrailY = y;
       this.trail.add(x, y);
+      // Stejné body jako minimapa, nahrává je zkouška
+      eventBus.emit('trailPoint', { x, y });
+    }
+  }
+
+  private maneuverIcon(data: NavigationInstruction): string {
+    if (data.offRoute) return '⟲';
+    switch (data.type) {
+      case 'turn_left': return '↰';
+      case 'turn_right': return '↱';
+      case 'slight_left': return '↖';
+      case 'slight_right': return '↗';
+      case 'roundabout': return `⟳${data.exitNumber ?? ''}`;
+      case 'arrive': return '⚑';
+      default: return '↑';
     }
   }
 
@@ -420,6 +506,36 @@ export class HUD {
     ctx.restore();
   }
 
+  // Semafor: tři světla + vzdálenost a odpočet do změny
+  private drawSignal(ctx: CanvasRenderingContext2D, signal: NavigationSignal, DPR:number){
+    const lamp = 5*DPR, gap = 3*DPR;
+    const w = 2*lamp + 2*gap, h = 6*lamp + 4*gap;
+    const x = 10*DPR, y = 10*DPR;
+    const lit = {
+      red: signal.state === 'red' || signal.state === 'red_amber',
+      amber: signal.state === 'amber' || signal.state === 'red_amber',
+      green: signal.state === 'green',
+    };
+
+    ctx.save();
+    ctx.fillStyle = 'rgba(0,0,0,.75)';
+    this.roundRect(ctx, x, y, w, h, 4*DPR); ctx.fill();
+    ([['red', '#ff3b30'], ['amber', '#ffcc00'], ['green', '#34c759']] as const).forEach(([key, color], i) => {
+      ctx.fillStyle = lit[key] ? color : '#3a3a3a';
+      ctx.beginPath();
+      ctx.arc(x + w/2, y + gap + lamp + i*(2*lamp + gap), lamp, 0, Math.PI*2);
+      ctx.fill();
+    });
+
+    ctx.fillStyle = '#fff';
+    ctx.font = `${10*DPR}px system-ui`;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+    ctx.fillText(`${Math.round(signal.distance)} m`, x + w + 4*DPR, y);
+    ctx.fillText(`${Math.ceil(signal.remaining)} s`, x + w + 4*DPR, y + 13*DPR);
+    ctx.restore();
+  }
+
   // Helper function to draw rounded rectangles
   private roundRect(ctx: CanvasRenderingContext2D, x:number,y:number,w:number,h:number,r:number){
     ctx.beginPath();
@@ -503,6 +619,20 @@ export class HUD {
   width: 24px; height: 24px;
 }
 
+/* Navigační panel nahoře uprostřed */
+.hud-nav {
+  position: fixed; left: 50%; top: 24px; transform: translateX(-50%);
+  display: none; align-items: center; gap: 12px;
+  padding: 10px 16px; border-radius: 12px; max-width: 480px;
+  background: rgba(0,0,0,.55); backdrop-filter: blur(4px);
+  border-left: 4px solid #3da9ff;
+}
+.hud-nav.on { display: flex; }
+.hud-nav.off-route { border-left-color: #ff9f1a; }
+.hud-nav-icon { font-size: 34px; font-weight: 700; min-width: 40px; text-align: center; }
+.hud-nav-text { font-size: 18px; font-weight: 600; }
+.hud-nav-remain { font-size: 12px; opacity: .7; margin-top: 2px; }
+
 /* Zvětšená minimapa s decentním pozadím */
 .hud-minimap {
   position: fixed; right: 24px; top: 24px;
@@ -1,13 +1,20 @@
 import { DebugOverlay } from './debug';
 import { eventBus } from '@shared/eventBus';
 import { InputManager } from './input';
-import { Vehicle } from './vehicle';
+import { Vehicle, WORLD_SCALE } from './vehicle';
 import { Camera } from './camera';
 import { MapLayer } from './mapLayer';
 import { HUD } from './hud';
-// TODO: Uncomment when build is fixed
-// import { ClientRoadNetwork } from './roadNetwork';
-// import { RoadNetworkRenderer } from './roadNetworkRenderer';
+import { ClientRoadNetwork } from './roadNetwork';
+import { RoadNetworkRenderer } from './roadNetworkRenderer';
+import { ClientNavigation } from './navigation';
+import { ClientExam, downloadExamReport, printExamReport } from './exam';
+import { ClientReplay } from './replay';
+import { ClientNetwork } from './network';
+import { ClientTraffic, TrafficCar } from './traffic';
+import { ClientPedestrians, PedestrianFigure } from './pedestrians';
+import { FixedTimestep } from '@shared/replay';
+import { SIM_RATE } from '@shared/index';
 
 // --------- Zoom nastavení (omezené a plynulé) ----------
 const ZOOM_MIN = 0.8;
@@ -18,6 +25,9 @@ const ZOOM_SMOOTH = 10;     // jak rychle se skutečný zoom blíží k cíli
 let zoom = 1;               // aktuální vizuální zoom
 let targetZoom = 1;         // cílový zoom po kolečku
 
+// Simulace běží s pevným krokem, aby šla jízda přehrát přesně (replay)
+const SIM_STEP = 1 / SIM_RATE;  // s, stejný krok jako server
+
 // Pevný tile zoom (pro konzistentní šířky ulic)
 const BASE_MAP_ZOOM = 19;   // vyšší = víc detailů, ale větší dlaždice
 
@@ -79,9 +89,6 @@ document.body.style.margin = '0';
 document.body.style.padding = '0';
 document.body.style.overflow = 'hidden';
 
-// World scale: 10 px = 1 m (souhlas s vehicle.ts a mapLayer.ts)
-const WORLD_SCALE = 10;
-
 // Start GPS
 const START_LAT = 50.07125563788479;
 const START_LON = 14.39957382125998;
@@ -97,11 +104,30 @@ const mapLayer = new MapLayer({
 const startWorld = mapLayer.lonLatToWorld(START_LON, START_LAT);
 const player = new Vehicle(startWorld.x, startWorld.y);
 const camera = new Camera(player);
-
-// TODO: Re-enable when road network build is fixed
-// const roadNetwork = new ClientRoadNetwork();
-// const roadNetworkRenderer = new RoadNetworkRenderer(roadNetwork);
-// roadNetwork.loadPragueNetwork().catch(err => console.error('Failed to load road network:', err));
+const timestep = new FixedTimestep(SIM_STEP);
+const replay = new ClientReplay(player, SIM_STEP);
+
+// Silniční síť (pruhy, křižovatky) a navigace po naplánované trase
+const roadNetwork = new ClientRoadNetwork();
+const roadNetworkRenderer = new RoadNetworkRenderer(roadNetwork);
+roadNetwork.loadPack('/networks/prague-andel.pack.json').catch(err => console.error('Failed to load road network:', err));
+const navigation = new ClientNavigation(roadNetwork, mapLayer);
+const exam = new ClientExam(() => roadNetwork.time);
+const traffic = new ClientTraffic(roadNetwork, mapLayer);
+const pedestrians = new ClientPedestrians(roadNetwork, mapLayer);
+
+// Multiplayer: ?server=ws://localhost:3000 jízda přes server, &watch pro instruktora (jen sleduje)
+const network = new ClientNetwork(player, SIM_STEP);
+{
+  const params = new URLSearchParams(window.location.search);
+  const serverUrl = params.get('server');
+  if (serverUrl) {
+    const { position, angle } = player.model;
+    const spawn = { x: position.x, y: position.y, angle, lat: START_LAT, lon: START_LON };
+    network.connect(serverUrl, { spectate: params.has('watch'), ...spawn })
+      .catch(err => console.error('❌ Failed to join drive room:', err));
+  }
+}
 
 // HUD with mini-map
 const hud = new HUD({
@@ -117,7 +143,8 @@ const hud = new HUD({
   trailEnabled: true
 });
 
-const entities = [player];
+// Hráč + AI auta a chodci (ClientTraffic / ClientPedestrians je sem přidávají a odebírají)
+const entities: (Vehicle | TrafficCar | PedestrianFigure)[] = [player];
 let lastTime = 0;
 
 // Wheel zoom handler (omezený, kolem středu obrazovky)
@@ -129,12 +156,33 @@ canvas.addEventListener('wheel', (e) => {
   targetZoom = Math.min(ZOOM_MAX, Math.max(ZOOM_MIN, targetZoom * factor));
 }, { passive: false });
 
-// TODO: Re-enable when road network is fixed
-// window.addEventListener('keydown', (e) => {
-//   if (e.code === 'KeyL') { roadNetworkRenderer.toggleLanes(); console.log('🛣️ Lanes visibility toggled'); }
-//   if (e.code === 'KeyI') { roadNetworkRenderer.toggleIntersections(); console.log('🚦 Intersections visibility toggled'); }
-//   if (e.code === 'KeyC') { roadNetworkRenderer.toggleCurrentLane(); console.log('💛 Current lane highlight toggled'); }
-// });
+// Záznam a přehrávání jízdy (K uložit, O otevřít, v replayi P / šipky / -= / Esc)
+window.addEventListener('keydown', (e) => {
+  if (replay.handleKey(e.code)) e.preventDefault();
+});
+
+// Silniční síť: L pruhy, I křižovatky, C aktuální pruh, N zrušit navigaci, X zkouška
+window.addEventListener('keydown', (e) => {
+  if (e.code === 'KeyL') { roadNetworkRenderer.toggleLanes(); console.log('🛣️ Lanes visibility toggled'); }
+  if (e.code === 'KeyI') { roadNetworkRenderer.toggleIntersections(); console.log('🚦 Intersections visibility toggled'); }
+  if (e.code === 'KeyC') { roadNetworkRenderer.toggleCurrentLane(); console.log('💛 Current lane highlight toggled'); }
+  if (e.code === 'KeyN') { navigation.clear(); console.log('🧭 Navigation cleared'); }
+  // Zkouška: start / konec, po konci tisknutelný protokol a JSON
+  if (e.code === 'KeyX') {
+    const report = exam.toggle();
+    if (report) { printExamReport(report); downloadExamReport(report); }
+  }
+});
+
+// Pravé tlačítko = cíl navigace (obrazovka → world px přes kameru a zoom)
+canvas.addEventListener('contextmenu', (e) => {
+  e.preventDefault();
+  const target = {
+    x: camera.position.x + (e.clientX - canvas.width / 2) / zoom,
+    y: camera.position.y + (e.clientY - canvas.height / 2) / zoom,
+  };
+  navigation.start(player.position, target);
+});
 
 // ---- GAME LOOP ----
 function gameLoop(timestamp: number) {
@@ -149,32 +197,46 @@ function gameLoop(timestamp: number) {
   // Plynulý zoom
   zoom += (targetZoom - zoom) * ZOOM_SMOOTH * dt;
 
-  // Input
-  const forward = inputManager.isPressed('KeyW') ? 1 : 0;
-  const backward = inputManager.isPressed('KeyS') ? 1 : 0;
-  const throttle = forward - backward;          // W=+1, S=-1 (reverse)
-  const brake = 0;                               // Space je hardBrake, S už ne
-  const steer = inputManager.getAxis('KeyD', 'KeyA');
-  const hardBrake = inputManager.isPressed('Space');
-
-  // Update
-  player.update(dt, {
-    throttle,
-    brake,
-    steer,
-    leftBlinker: inputManager.leftBlinker,
-    rightBlinker: inputManager.rightBlinker,
-    cruiseControlToggle: inputManager.cruiseControlToggle,
-    hardBrake,
-  });
-
-  if (inputManager.cruiseControlToggle) inputManager.cruiseControlToggle = false;
+  // Simulace: pevné kroky, vstup buď z klávesnice (nahrává se), nebo ze záznamu;
+  // instruktor nesimuluje, auto zrcadlí studenta ze serveru
+  if (replay.active) {
+    replay.update(dt);
+  } else if (!network.spectating) {
+    const steps = timestep.advance(dt);
+    for (let i = 0; i < steps; i++) {
+      const forward = inputManager.isPressed('KeyW') ? 1 : 0;
+      const backward = inputManager.isPressed('KeyS') ? 1 : 0;
+      const input = {
+        throttle: forward - backward,               // W=+1, S=-1 (reverse)
+        brake: 0,                                   // Space je hardBrake, S už ne
+        steer: inputManager.getAxis('KeyD', 'KeyA'),
+        leftBlinker: inputManager.leftBlinker,
+        rightBlinker: inputManager.rightBlinker,
+        cruiseControlToggle: inputManager.cruiseControlToggle,
+        hardBrake: inputManager.isPressed('Space'),
+      };
+
+      // Toggle tempomatu platí jen pro jeden krok
+      inputManager.cruiseControlToggle = false;
+
+      replay.record(input);
+      if (!network.applyInput(input)) player.update(SIM_STEP, input);
+      roadNetwork.tickSignals(SIM_STEP);
+      roadNetwork.updateTraffic(SIM_STEP, player, mapLayer);
+      roadNetwork.updatePedestrians(SIM_STEP, player, mapLayer);
+      roadNetwork.checkRules(player, mapLayer);
+    }
+  }
+  traffic.sync(entities);
+  pedestrians.sync(entities);
+
+  player.emitTelemetry();
 
   // Kamera sleduje hráče (žádné offsety – zoom je kolem středu)
   camera.update();
 
-  // Auto-cancel logika blinkrů
-  {
+  // Auto-cancel logika blinkrů (v replayi jsou blinkry už ve záznamu)
+  if (!replay.active && !network.spectating) {
     // Urči aktivní stranu (neřešíme "výstražná" obě najednou)
     const left = inputManager.leftBlinker;
     const right = inputManager.rightBlinker;
@@ -241,17 +303,26 @@ function gameLoop(timestamp: number) {
   // 1) OSM podklad v "world" souřadnicích
   mapLayer.draw(ctx, canvas.width / zoom, canvas.height / zoom, camera.position.x, camera.position.y);
 
-  // TODO: Re-enable when road network is fixed
-  // roadNetworkRenderer.draw(ctx, mapLayer, zoom);
-  // const currentLane = roadNetwork.findNearestLane(player.position.x, player.position.y, mapLayer);
-  // roadNetworkRenderer.drawCurrentLane(ctx, currentLane, mapLayer, zoom);
+  // Silniční síť nad podkladem a navigace podle polohy hráče
+  roadNetworkRenderer.draw(ctx, mapLayer, zoom);
+  const currentLane = roadNetwork.findNearestLane(player.position.x, player.position.y, mapLayer);
+  roadNetworkRenderer.drawCurrentLane(ctx, currentLane, mapLayer, zoom);
+  navigation.update(player.position);
 
   // 2) Mřížka pouze v debug módu
   if (debugOverlay.showDirectionVectors) {
     drawGrid(ctx);
   }
 
-  // 3) Auto
+  // 3) Chodci, AI provoz a auta ostatních v místnosti, pak hráč
+  for (const entity of entities) {
+    if (entity instanceof PedestrianFigure) entity.draw(ctx);
+  }
+  for (const entity of entities) {
+    if (entity instanceof TrafficCar) entity.draw(ctx);
+  }
+  network.drawRemoteCars(ctx);
+
   ctx.save();
   ctx.translate(player.position.x, player.position.y);
   ctx.rotate(player.angle);
@@ -262,8 +333,8 @@ function gameLoop(timestamp: number) {
   
   // Blinkry na vozidle: outline + fill + glow, vždy čitelné
   {
-    const showLeft  = !!inputManager.leftBlinker;
-    const showRight = !!inputManager.rightBlinker;
+    const showLeft  = player.leftBlinker;
+    const showRight = player.rightBlinker;
 
     if ((showLeft || showRight) && blinkOn) {
       const halfL = 25; // půlka délky
@@ -319,16 +390,16 @@ function gameLoop(timestamp: number) {
 
   // Debug overlay (po restore, takže není zoomovaný)
   eventBus.emit('update', dt);
-  eventBus.emit('entityCount', entities.length);
+  eventBus.emit('entityCount', entities.length + network.remoteCount);
   
-  // TODO: Re-enable when road network is fixed
-  // if (currentLane) {
-  //   eventBus.emit('currentLane', `${currentLane.type} | ${(currentLane.maxSpeed * 3.6).toFixed(0)}km/h | ${currentLane.width.toFixed(1)}m`);
-  // } else {
-    eventBus.emit('currentLane', 'Road network disabled');
-  // }
+  if (currentLane) {
+    eventBus.emit('currentLane', `${currentLane.type} | ${(currentLane.maxSpeed * 3.6).toFixed(0)}km/h | ${currentLane.width.toFixed(1)}m`);
+  } else {
+    eventBus.emit('currentLane', 'Off road');
+  }
   
   debugOverlay.update();
+  replay.drawStatus(ctx, canvas.width);
 
   requestAnimationFrame(gameLoop);
 }
@@ -0,0 +1,183 @@
+import { eventBus } from '@shared/eventBus';
+import {
+  nextManeuver,
+  nextSignal,
+  routeProgress,
+  type Maneuver,
+  type NavigationRoute,
+  type RouteOptions,
+  type SignalState,
+} from '@shared/road-network';
+import type { ClientRoadNetwork } from './roadNetwork';
+
+const ARRIVAL_DISTANCE = 10;   // m before route end counted as arrived
+const OFF_ROUTE_DISTANCE = 30; // m from route polyline
+const SIGNAL_LOOKAHEAD = 300;  // m, next signal shown in the minimap
+
+/**
+ * Instruction shown in the HUD navigation panel
+ */
+export type NavigationInstruction = {
+  type: Maneuver['type'];
+  text: string;              // full sentence incl. distance
+  distance: number;          // m to the manoeuvre
+  remaining: number;         // m to destination
+  exitNumber?: number;
+  offRoute: boolean;
+  arrived: boolean;
+};
+
+/**
+ * Next traffic light on the route, shown in the HUD minimap
+ */
+export type NavigationSignal = {
+  state: SignalState;
+  remaining: number;         // s until the light changes
+  distance: number;          // m to the stop position
+};
+
+/**
+ * Turn-by-turn guidance along a lane route, publishes to HUD via eventBus
+ *
+ * Events:
+ *   'navigationRoute'  - { points: {x,y}[] } in world px, or null when cleared
+ *   'navigationUpdate' - NavigationInstruction, or null when cleared
+ *   'navigationSignal' - NavigationSignal, or null when no light is ahead
+ */
+export class ClientNavigation {
+  private route: NavigationRoute | null = null;
+
+  constructor(private roadNetwork: ClientRoadNetwork, private mapLayer: any) {}
+
+  /**
+   * Plan route to destination and start guidance
+   */
+  start(fromWorld: { x: number; y: number }, toWorld: { x: number; y: number }, options: RouteOptions = {}): boolean {
+    const route = this.roadNetwork.planNavigationRoute(fromWorld, toWorld, this.mapLayer, options);
+    if (!route) {
+      console.warn('⚠️ No route found to destination');
+      return false;
+    }
+
+    this.setRoute(route);
+    return true;
+  }
+
+  /**
+   * Start guidance along already planned route (e.g. exam route from instructor)
+   */
+  setRoute(route: NavigationRoute): void {
+    this.route = route;
+
+    const points = route.polyline.map(p => this.roadNetwork.networkToWorld(p, this.mapLayer));
+    eventBus.emit('navigationRoute', { points });
+
+    console.log(`🧭 Route planned: ${(route.length / 1000).toFixed(2)} km, ${route.maneuvers.length - 2} manoeuvres`);
+  }
+
+  clear(): void {
+    this.route = null;
+    eventBus.emit('navigationRoute', null);
+    eventBus.emit('navigationUpdate', null);
+    eventBus.emit('navigationSignal', null);
+  }
+
+  isActive(): boolean {
+    return this.route !== null;
+  }
+
+  /**
+   * Recompute progress from player position, call once per frame
+   */
+  update(playerWorld: { x: number; y: number }): void {
+    if (!this.route) return;
+
+    const position = this.roadNetwork.worldToNetwork(playerWorld.x, playerWorld.y, this.mapLayer);
+    const progress = routeProgress(this.route, position);
+    const remaining = Math.max(0, this.route.length - progress.along);
+    const offRoute = progress.offRoute > OFF_ROUTE_DISTANCE;
+
+    this.updateSignal(progress.along, offRoute);
+
+    if (remaining < ARRIVAL_DISTANCE && !offRoute) {
+      const arrived: NavigationInstruction = {
+        type: 'arrive',
+        text: 'Jste v cíli',
+        distance: 0,
+        remaining: 0,
+        offRoute: false,
+        arrived: true,
+      };
+      eventBus.emit('navigationUpdate', arrived);
+      return;
+    }
+
+    const next = nextManeuver(this.route, progress.along);
+    if (!next) return;
+
+    const instruction: NavigationInstruction = {
+      type: next.maneuver.type,
+      text: offRoute ? 'Vraťte se na trasu' : `${formatDistance(next.distance)} ${describeManeuver(next.maneuver)}`,
+      distance: next.distance,
+      remaining,
+      exitNumber: next.maneuver.exitNumber,
+      offRoute,
+      arrived: false,
+    };
+
+    eventBus.emit('navigationUpdate', instruction);
+  }
+
+  /**
+   * Publish state of the next light ahead on the route
+   */
+  private updateSignal(along: number, offRoute: boolean): void {
+    const next = offRoute ? null : nextSignal(this.route!, along);
+    const state = next && next.distance <= SIGNAL_LOOKAHEAD
+      ? this.roadNetwork.getConnectorSignalState(next.signal.connectorId)
+      : null;
+
+    const signal: NavigationSignal | null = next && state
+      ? { state: state.state, remaining: state.remaining, distance: next.distance }
+      : null;
+    eventBus.emit('navigationSignal', signal);
+  }
+}
+
+/**
+ * "Za 120 m" - rounded the way a spoken instruction would be
+ */
+function formatDistance(metres: number): string {
+  if (metres < 15) return 'Nyní';
+  if (metres < 100) return `Za ${Math.round(metres / 10) * 10} m`;
+  if (metres < 1000) return `Za ${Math.round(metres / 50) * 50} m`;
+  return `Za ${(metres / 1000).toFixed(1).replace('.', ',')} km`;
+}
+
+/**
+ * Exam-style wording of a manoeuvre, including how the junction is controlled
+ */
+function describeManeuver(maneuver: Maneuver): string {
+  const onto = maneuver.ontoName ? ` do ulice ${maneuver.ontoName}` : '';
+
+  if (maneuver.type === 'arrive') return 'dorazíte do cíle';
+  if (maneuver.type === 'roundabout') {
+    return `na kruhovém objezdu vyjeďte ${maneuver.exitNumber ?? 1}. výjezdem${onto}`;
+  }
+
+  const action =
+    maneuver.type === 'turn_left' ? 'odbočte vlevo'
+    : maneuver.type === 'turn_right' ? 'odbočte vpravo'
+    : maneuver.type === 'slight_left' ? 'držte se vlevo'
+    : maneuver.type === 'slight_right' ? 'držte se vpravo'
+    : 'pokračujte rovně';
+
+  switch (maneuver.control) {
+    case 'signals': return `na semaforech ${action}${onto}`;
+    case 'stop': return `zastavte na STOP a ${action}${onto}`;
+    case 'give_way': return `dejte přednost v jízdě a ${action}${onto}`;
+    case 'priority': return `po hlavní silnici ${action}${onto}`;
+    case undefined: return `${action}${onto}`;
+    default: return `na křižovatce ${action}${onto}`;
+  }
+}
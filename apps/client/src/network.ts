@@ -0,0 +1,117 @@
+import type { Room } from 'colyseus.js';
+import { eventBus } from '@shared/eventBus';
+import type { DriveInput } from '@shared/replay';
+import {
+  DRIVE_ROOM,
+  INPUT_MESSAGE,
+  PredictedVehicle,
+  readNetVehicleState,
+  type DriveJoinOptions,
+  type DriveRoomState,
+  type NetVehicleState,
+} from '@shared/net';
+import { WORLD_SCALE, type Vehicle } from './vehicle';
+
+/**
+ * Connection to the server-authoritative DriveRoom
+ *
+ * Students drive with local prediction, reconciled on every server patch.
+ * A spectator (instructor) has no car of its own: the local vehicle mirrors
+ * the first student in the room, everyone else is drawn as a remote car.
+ *
+ * Events:
+ *   'networkState' - { connected, spectating, players } on connect / leave
+ */
+export class ClientNetwork {
+  private room: Room<DriveRoomState> | null = null;   // colyseus.js loaded on demand
+  private prediction: PredictedVehicle | null = null;
+  private watching = false;
+  private remotes = new Map<string, NetVehicleState>();
+
+  constructor(private vehicle: Vehicle, private step: number) {}
+
+  get connected(): boolean {
+    return this.room !== null;
+  }
+
+  get spectating(): boolean {
+    return this.connected && this.watching;
+  }
+
+  get remoteCount(): number {
+    return this.remotes.size;
+  }
+
+  /**
+   * Join the drive room, colyseus.js is only loaded when multiplayer is used
+   */
+  async connect(url: string, options: DriveJoinOptions = {}): Promise<void> {
+    const { Client } = await import('colyseus.js');
+    const room = await new Client(url).joinOrCreate<DriveRoomState>(DRIVE_ROOM, options);
+
+    this.room = room;
+    this.watching = !!options.spectate;
+    this.prediction = this.watching ? null : new PredictedVehicle(this.vehicle.model, this.step);
+
+    room.onStateChange(state => this.onState(state));
+    room.onLeave(() => {
+      this.room = null;
+      this.prediction = null;
+      this.remotes.clear();
+      this.emitState();
+      console.warn('⚠️ Disconnected from drive room');
+    });
+
+    this.emitState();
+    console.log(`🌐 Joined ${DRIVE_ROOM} as ${room.sessionId}${this.watching ? ' (spectator)' : ''}`);
+  }
+
+  /**
+   * Simulate a step with prediction and send it, false when offline (caller simulates)
+   */
+  applyInput(input: DriveInput): boolean {
+    if (!this.room || !this.prediction) return false;
+
+    this.room.send(INPUT_MESSAGE, this.prediction.apply(input));
+    return true;
+  }
+
+  /**
+   * Other cars of the room in world coordinates (state is in metres)
+   */
+  drawRemoteCars(ctx: CanvasRenderingContext2D): void {
+    for (const car of this.remotes.values()) {
+      ctx.save();
+      ctx.translate(car.position.x * WORLD_SCALE, car.position.y * WORLD_SCALE);
+      ctx.rotate(car.angle);
+      ctx.fillStyle = '#1565c0';
+      ctx.fillRect(-25, -15, 50, 30);   // 5m × 3m jako hráč
+      ctx.restore();
+    }
+  }
+
+  private onState(state: DriveRoomState): void {
+    const ownId = this.room?.sessionId;
+    let mirrored = false;
+    this.remotes.clear();
+
+    state.players.forEach((player, id) => {
+      if (id === ownId && this.prediction) {
+        this.prediction.reconcile(readNetVehicleState(player), player.lastInput);
+      } else if (this.watching && !mirrored) {
+        this.vehicle.model.setState(readNetVehicleState(player));
+        mirrored = true;
+      } else {
+        this.remotes.set(id, player);
+      }
+    });
+  }
+
+  private emitState(): void {
+    eventBus.emit('networkState', {
+      connected: this.connected,
+      spectating: this.spectating,
+      players: this.remotes.size,
+    });
+  }
+}
@@ -0,0 +1,105 @@
+import type { Pedestrian } from '@shared/traffic';
+import type { ClientRoadNetwork } from './roadNetwork';
+import { WORLD_SCALE } from './vehicle';
+
+const BODY_RADIUS = 0.3;   // m, seen from above
+const COLORS = ['#ef6c00', '#6a1b9a', '#00838f', '#c62828', '#2e7d32', '#4e342e'];
+
+/**
+ * Pedestrian as a world entity, pose in world px
+ */
+export class PedestrianFigure {
+  x = 0;
+  y = 0;
+  angle = 0;                // rad, world frame (y down)
+  waiting = false;
+  readonly color: string;
+
+  constructor(readonly id: string) {
+    this.color = COLORS[hashId(id) % COLORS.length];
+  }
+
+  draw(ctx: CanvasRenderingContext2D): void {
+    const r = BODY_RADIUS * WORLD_SCALE;
+
+    ctx.save();
+    ctx.translate(this.x, this.y);
+    ctx.rotate(this.angle);
+    ctx.fillStyle = this.color;
+    ctx.beginPath();
+    ctx.ellipse(0, 0, r * 0.8, r * 1.4, 0, 0, Math.PI * 2);  // shoulders across the walking direction
+    ctx.fill();
+    ctx.fillStyle = '#ffcc80';                                 // head
+    ctx.beginPath();
+    ctx.arc(0, 0, r * 0.6, 0, Math.PI * 2);
+    ctx.fill();
+    if (this.waiting) {
+      ctx.strokeStyle = 'rgba(255,255,255,0.8)';               // ring while waiting at the curb
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.arc(0, 0, r * 2, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+    ctx.restore();
+  }
+}
+
+/**
+ * Mirrors shared pedestrians (network metres) into the main loop's entity list
+ */
+export class ClientPedestrians {
+  private figures = new Map<string, PedestrianFigure>();
+
+  constructor(private roadNetwork: ClientRoadNetwork, private mapLayer: any) {}
+
+  get count(): number {
+    return this.figures.size;
+  }
+
+  /**
+   * Update figure poses and keep `entities` in step with spawned / removed pedestrians
+   */
+  sync(entities: object[]): void {
+    const alive = new Set<string>();
+
+    for (const pedestrian of this.roadNetwork.getPedestrians()) {
+      alive.add(pedestrian.id);
+
+      let figure = this.figures.get(pedestrian.id);
+      if (!figure) {
+        figure = new PedestrianFigure(pedestrian.id);
+        this.figures.set(pedestrian.id, figure);
+        entities.push(figure);
+      }
+      this.place(figure, pedestrian);
+    }
+
+    for (const [id, figure] of this.figures) {
+      if (alive.has(id)) continue;
+
+      this.figures.delete(id);
+      const index = entities.indexOf(figure);
+      if (index >= 0) entities.splice(index, 1);
+    }
+  }
+
+  private place(figure: PedestrianFigure, pedestrian: Pedestrian): void {
+    const [x, y] = pedestrian.position;
+    const here = this.roadNetwork.networkToWorld(pedestrian.position, this.mapLayer);
+    const ahead = this.roadNetwork.networkToWorld(
+      [x + Math.cos(pedestrian.heading), y + Math.sin(pedestrian.heading)],
+      this.mapLayer
+    );
+
+    figure.x = here.x;
+    figure.y = here.y;
+    figure.angle = Math.atan2(ahead.y - here.y, ahead.x - here.x);
+    figure.waiting = pedestrian.waiting;
+  }
+}
+
+function hashId(id: string): number {
+  let hash = 0;
+  for (let i = 0; i < id.length; i++) hash = (hash * 31 + id.charCodeAt(i)) >>> 0;
+  return hash;
+}
@@ -0,0 +1,195 @@
+import { eventBus } from '@shared/eventBus';
+import {
+  DriveRecorder,
+  ReplayPlayer,
+  parseDriveRecording,
+  serializeDriveRecording,
+  type DriveInput,
+  type DriveRecording,
+} from '@shared/replay';
+import type { Vehicle } from './vehicle';
+
+const SEEK_STEP = 5;      // s per arrow key
+
+/**
+ * Drive recording and replay of the player vehicle
+ *
+ * Live driving is always recorded, one input per fixed step. A loaded
+ * recording takes over the vehicle until the replay is left; driving then
+ * goes on from where the replay stopped, as a new recording.
+ *
+ * Events:
+ *   'replayState' - { active, playing, time, duration, speed } on every change
+ */
+export class ClientReplay {
+  private recorder: DriveRecorder;
+  private player: ReplayPlayer | null = null;
+
+  constructor(private vehicle: Vehicle, step: number) {
+    this.recorder = new DriveRecorder(step);
+    this.restartRecording();
+  }
+
+  /** Replay is loaded and drives the vehicle */
+  get active(): boolean {
+    return this.player !== null;
+  }
+
+  /**
+   * Record input of a live step, call right before vehicle.update
+   */
+  record(input: DriveInput): void {
+    this.recorder.record(input);
+  }
+
+  /**
+   * Advance replay by frame time
+   */
+  update(dt: number): void {
+    if (!this.player) return;
+
+    const wasPlaying = this.player.isPlaying;
+    if (this.player.update(dt) > 0 || wasPlaying !== this.player.isPlaying) this.emitState();
+  }
+
+  /**
+   * Start replaying a recording from its start
+   */
+  load(recording: DriveRecording): void {
+    this.player = new ReplayPlayer(recording, {
+      reset: start => this.vehicle.model.reset(start.x, start.y, start.angle),
+      step: (input, dt) => this.vehicle.model.update(dt, input),
+    });
+    this.player.play();
+    this.emitState();
+    console.log(`⏯️ Replay loaded: ${this.player.duration.toFixed(1)} s`);
+  }
+
+  /**
+   * Leave replay, live driving continues from the current pose
+   */
+  exit(): void {
+    if (!this.player) return;
+
+    this.player = null;
+    this.restartRecording();
+    this.emitState();
+    console.log('⏯️ Replay closed');
+  }
+
+  togglePlay(): void {
+    this.player?.toggle();
+    this.emitState();
+  }
+
+  seekBy(seconds: number): void {
+    if (!this.player) return;
+    this.player.seek(this.player.time + seconds);
+    this.emitState();
+  }
+
+  changeSpeed(factor: number): void {
+    if (!this.player) return;
+    this.player.setSpeed(this.player.speed * factor);
+    this.emitState();
+  }
+
+  /**
+   * Save live recording so far as JSON file
+   */
+  download(): void {
+    const recording = this.recorder.snapshot();
+    const url = URL.createObjectURL(new Blob([serializeDriveRecording(recording)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `jizda-${recording.recordedAt.slice(0, 19).replace(/[:T]/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Ask for a recording file and replay it
+   */
+  open(): void {
+    const picker = document.createElement('input');
+    picker.type = 'file';
+    picker.accept = 'application/json,.json';
+    picker.onchange = async () => {
+      const file = picker.files?.[0];
+      if (!file) return;
+      try {
+        this.load(parseDriveRecording(await file.text()));
+      } catch (error) {
+        console.error('❌ Failed to load drive recording:', error instanceof Error ? error.message : error);
+      }
+    };
+    picker.click();
+  }
+
+  /**
+   * Keyboard controls, returns true when the key was used
+   *
+   * K save recording, O open recording, and while replaying: P play / pause,
+   * ←/→ seek, -/= speed, Esc back to driving.
+   */
+  handleKey(code: string): boolean {
+    if (code === 'KeyK' && !this.player) { this.download(); return true; }
+    if (code === 'KeyO') { this.open(); return true; }
+    if (!this.player) return false;
+
+    switch (code) {
+      case 'KeyP': this.togglePlay(); return true;
+      case 'ArrowLeft': this.seekBy(-SEEK_STEP); return true;
+      case 'ArrowRight': this.seekBy(SEEK_STEP); return true;
+      case 'Minus': this.changeSpeed(0.5); return true;
+      case 'Equal': this.changeSpeed(2); return true;
+      case 'Escape': this.exit(); return true;
+      default: return false;
+    }
+  }
+
+  /**
+   * Replay status bar at the top of the screen (screen space)
+   */
+  drawStatus(ctx: CanvasRenderingContext2D, width: number): void {
+    if (!this.player) return;
+
+    const { time, duration, speed, isPlaying } = this.player;
+    const text = `${isPlaying ? '▶' : '⏸'} ${formatTime(time)} / ${formatTime(duration)}  ×${speed}   P pauza · ←/→ posun · -/= rychlost · Esc konec`;
+    const barWidth = 520;
+    const x = (width - barWidth) / 2;
+
+    ctx.save();
+    ctx.fillStyle = 'rgba(0,0,0,0.7)';
+    ctx.fillRect(x, 12, barWidth, 36);
+    ctx.fillStyle = '#FFC400';
+    ctx.fillRect(x, 44, barWidth * (duration > 0 ? time / duration : 0), 4);
+    ctx.fillStyle = '#fff';
+    ctx.font = '14px system-ui, sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(text, width / 2, 29);
+    ctx.restore();
+  }
+
+  private restartRecording(): void {
+    const { position, angle } = this.vehicle.model;
+    this.vehicle.model.reset(position.x, position.y, angle);
+    this.recorder.begin({ x: position.x, y: position.y, angle });
+  }
+
+  private emitState(): void {
+    eventBus.emit('replayState', {
+      active: !!this.player,
+      playing: this.player?.isPlaying ?? false,
+      time: this.player?.time ?? 0,
+      duration: this.player?.duration ?? 0,
+      speed: this.player?.speed ?? 1,
+    });
+  }
+}
+
+function formatTime(seconds: number): string {
+  const s = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+}
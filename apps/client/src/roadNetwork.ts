@@ -1,36 +1,79 @@
-import { RoadNetworkManager, NetworkBuilder, type RoadNetwork, type Lane } from '@shared/road-network';
+import {
+  RoadNetworkManager,
+  NetworkBuilder,
+  SignalController,
+  buildNavigationRoute,
+  loadNetworkPack,
+  type RoadNetwork,
+  type Lane,
+  type Intersection,
+  type Crosswalk,
+  type LaneConnector,
+  type Vec2,
+  type NavigationRoute,
+  type RouteOptions,
+  type SignalGroupState,
+} from '@shared/road-network';
+import { RuleEngine } from '@shared/rules';
+import { TrafficManager, PedestrianManager, type TrafficVehicle, type TrafficObstacle, type Pedestrian } from '@shared/traffic';
+import { WORLD_SCALE, type Vehicle } from './vehicle';
+
+const PEDESTRIAN_LENGTH = 0.5;  // m, pedestrian on a crosswalk as an obstacle for AI cars
 
 /**
  * Road network integration for client app
  */
 export class ClientRoadNetwork {
   private manager: RoadNetworkManager | null = null;
+  private signals: SignalController | null = null;
+  private rules: RuleEngine | null = null;
+  private traffic: TrafficManager | null = null;
+  private trafficPopulated = false;
+  private pedestrians: PedestrianManager | null = null;
+  private pedestriansPopulated = false;
+  private signalTime = 0;   // s, drives fixed-time signal plans
   private loading = false;
   private loadError: string | null = null;
   
   /**
-   * Load road network for Prague area
+   * Load prebuilt network pack from static URL (built by `npm run build:pack`)
+   */
+  async loadPack(url = '/networks/prague-andel.pack.json'): Promise<void> {
+    await this.load(`pack ${url}`, () => loadNetworkPack(url));
+  }
+  
+  /**
+   * Build road network for Prague area live from Overpass (dev only, rate limited)
    */
   async loadPragueNetwork(): Promise<void> {
-    if (this.loading || this.manager) return;
-    
-    this.loading = true;
-    this.loadError = null;
-    
-    try {
-      console.log('🚀 Loading Prague road network...');
-      
+    await this.load('Prague road network from Overpass', () => {
       const builder = new NetworkBuilder();
       
       // Small area around starting position (Anděl area)
-      const network = await builder.buildPragueNetwork({
+      return builder.buildPragueNetwork({
         south: 50.065,   // Area around Anděl metro station
         west: 14.395, 
         north: 50.075,
         east: 14.405
       });
+    });
+  }
+  
+  private async load(label: string, source: () => Promise<RoadNetwork>): Promise<void> {
+    if (this.loading || this.manager) return;
+    
+    this.loading = true;
+    this.loadError = null;
+    
+    try {
+      console.log(`🚀 Loading ${label}...`);
       
+      const network = await source();
       this.manager = new RoadNetworkManager(network);
+      this.signals = new SignalController(network);
+      this.rules = new RuleEngine(this.manager, { signals: this.signals });
+      this.traffic = new TrafficManager(this.manager, { signals: this.signals, clock: () => this.signalTime });
+      this.pedestrians = new PedestrianManager(this.manager, { signals: this.signals, clock: () => this.signalTime });
       
       const stats = this.manager.getMetadata().stats;
       console.log('✅ Road network loaded:', stats);
@@ -49,13 +92,62 @@ export class ClientRoadNetwork {
   findNearestLane(worldX: number, worldY: number, mapLayer: any): Lane | null {
     if (!this.manager) return null;
     
-    // Convert world coordinates to GPS
-    const gps = mapLayer.worldToLonLat(worldX, worldY);
-    const nearestLane = this.manager.findNearestLane([gps.lon, gps.lat], 50);
+    const nearestLane = this.manager.findNearestLane(this.worldToNetwork(worldX, worldY, mapLayer), 50);
     
     return nearestLane;
   }
   
+  /**
+   * Find intersection area containing world position
+   */
+  findIntersectionAt(worldX: number, worldY: number, mapLayer: any): Intersection | null {
+    if (!this.manager) return null;
+    
+    return this.manager.findIntersectionAt(this.worldToNetwork(worldX, worldY, mapLayer));
+  }
+  
+  /**
+   * Plan route between two world positions with manoeuvres for navigation
+   */
+  planNavigationRoute(
+    fromWorld: { x: number; y: number },
+    toWorld: { x: number; y: number },
+    mapLayer: any,
+    options: RouteOptions = {}
+  ): NavigationRoute | null {
+    if (!this.manager) return null;
+    
+    const route = this.manager.planRoute(
+      this.worldToNetwork(fromWorld.x, fromWorld.y, mapLayer),
+      this.worldToNetwork(toWorld.x, toWorld.y, mapLayer),
+      options
+    );
+    if (!route) return null;
+    
+    const network = (this.manager as any).network as RoadNetwork;
+    return buildNavigationRoute(route, network);
+  }
+  
+  /**
+   * Convert network metres to world pixels (via GPS, same Mercator as MapLayer)
+   */
+  networkToWorld(p: Vec2, mapLayer: any): { x: number; y: number } {
+    if (!this.manager) return { x: 0, y: 0 };
+    
+    const gps = this.manager.networkToLonLat(p);
+    return mapLayer.lonLatToWorld(gps.lon, gps.lat);
+  }
+  
+  /**
+   * Convert world pixels to network metres
+   */
+  worldToNetwork(worldX: number, worldY: number, mapLayer: any): Vec2 {
+    if (!this.manager) return [0, 0];
+    
+    const gps = mapLayer.worldToLonLat(worldX, worldY);
+    return this.manager.lonLatToNetwork(gps.lon, gps.lat);
+  }
+  
   /**
    * Get all lanes for rendering
    */
@@ -76,6 +168,135 @@ export class ClientRoadNetwork {
     return Object.values(network.intersections);
   }
   
+  /**
+   * Get all crosswalks for rendering
+   */
+  getAllCrosswalks(): Crosswalk[] {
+    if (!this.manager) return [];
+    
+    const network = (this.manager as any).network as RoadNetwork;
+    return Object.values(network.crosswalks);
+  }
+  
+  /**
+   * Advance signal clock, call once per frame
+   */
+  tickSignals(dt: number): void {
+    this.signalTime += dt;
+  }
+  
+  /**
+   * Simulation time in s, the clock rule violations are stamped with
+   */
+  get time(): number {
+    return this.signalTime;
+  }
+  
+  /**
+   * Check driving rules for player vehicle on the signal clock, violations go out as 'ruleViolation'
+   */
+  checkRules(vehicle: Vehicle, mapLayer: any): void {
+    if (!this.rules) return;
+    
+    const { position, velocity, angle } = vehicle;
+    const here = this.worldToNetwork(position.x, position.y, mapLayer);
+    const ahead = this.worldToNetwork(position.x + Math.cos(angle), position.y + Math.sin(angle), mapLayer);
+    // One second of motion, world px/s -> network m/s
+    const moved = this.worldToNetwork(position.x + velocity.x, position.y + velocity.y, mapLayer);
+    const forward = velocity.x * Math.cos(angle) + velocity.y * Math.sin(angle);
+    
+    this.rules.update({
+      time: this.signalTime,
+      position: here,
+      heading: Math.atan2(ahead[1] - here[1], ahead[0] - here[0]),
+      speed: Math.hypot(moved[0] - here[0], moved[1] - here[1]) * (forward < 0 ? -1 : 1),
+      leftBlinker: vehicle.leftBlinker,
+      rightBlinker: vehicle.rightBlinker,
+    }, this.traffic?.vehicles);
+  }
+  
+  /**
+   * Advance AI traffic around the player, who is an obstacle and gets right of way like any car; call once per sim step
+   */
+  updateTraffic(dt: number, vehicle: Vehicle, mapLayer: any): void {
+    if (!this.traffic) return;
+    
+    const { position, velocity } = vehicle;
+    const here = this.worldToNetwork(position.x, position.y, mapLayer);
+    const player = { id: 'player', position: here, speed: Math.hypot(velocity.x, velocity.y) / WORLD_SCALE, length: 5 };
+    
+    // Pedestrians out on a crosswalk block it like a standing obstacle
+    const crossing: TrafficObstacle[] = this.getPedestrians()
+      .filter(p => p.crosswalkId && !p.waiting)
+      .map(p => ({ id: p.id, position: p.position, speed: 0, length: PEDESTRIAN_LENGTH }));  // walks across, not along
+    
+    if (!this.trafficPopulated) {
+      this.traffic.populate(here, [player]);
+      this.trafficPopulated = true;
+    }
+    this.traffic.update(dt, here, [player, ...crossing]);
+  }
+  
+  /**
+   * Advance pedestrians around the player, who with the AI cars decides when they cross; call once per sim step
+   */
+  updatePedestrians(dt: number, vehicle: Vehicle, mapLayer: any): void {
+    if (!this.pedestrians) return;
+    
+    const { position, velocity } = vehicle;
+    const here = this.worldToNetwork(position.x, position.y, mapLayer);
+    const player = { id: 'player', position: here, speed: Math.hypot(velocity.x, velocity.y) / WORLD_SCALE };
+    
+    if (!this.pedestriansPopulated) {
+      this.pedestrians.populate(here);
+      this.pedestriansPopulated = true;
+    }
+    this.pedestrians.update(dt, here, [player, ...this.getTrafficVehicles()]);
+  }
+  
+  /**
+   * Pedestrians in network metres
+   */
+  getPedestrians(): Pedestrian[] {
+    return this.pedestrians?.pedestrians ?? [];
+  }
+  
+  /**
+   * AI cars in network metres
+   */
+  getTrafficVehicles(): TrafficVehicle[] {
+    return this.traffic?.vehicles ?? [];
+  }
+  
+  /**
+   * Current state of a signal group
+   */
+  getSignalGroupState(groupId: string): SignalGroupState | null {
+    if (!this.signals) return null;
+    return this.signals.getGroupState(groupId, this.signalTime);
+  }
+  
+  /**
+   * Current signal state for a movement, null when unsignalised
+   */
+  getConnectorSignalState(connectorId: string): SignalGroupState | null {
+    return this.signals?.getConnectorState(connectorId, this.signalTime) ?? null;
+  }
+  
+  /**
+   * Get connectors of one intersection for rendering
+   */
+  getIntersectionConnectors(intersectionId: string): LaneConnector[] {
+    if (!this.manager) return [];
+    
+    const network = (this.manager as any).network as RoadNetwork;
+    const intersection = network.intersections[intersectionId];
+    if (!intersection) return [];
+    return intersection.connectors
+      .map(id => network.laneConnectors[id])
+      .filter(Boolean);
+  }
+  
   /**
    * Get loading state
    */
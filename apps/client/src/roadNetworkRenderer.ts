@@ -1,5 +1,15 @@
 import { ClientRoadNetwork } from './roadNetwork';
-import type { Lane, Intersection } from '@shared/road-network';
+import type { Lane, Intersection, Crosswalk, SignalState } from '@shared/road-network';
+
+const CROSSWALK_WIDTH = 4;    // m along the road
+const STRIPE_PITCH = 1;       // m across the road, stripe and gap
+
+// Lamp colours top to bottom, lit per signal state
+const SIGNAL_LAMPS: { color: string; litIn: SignalState[] }[] = [
+  { color: '#F44336', litIn: ['red', 'red_amber'] },
+  { color: '#FFC107', litIn: ['amber', 'red_amber'] },
+  { color: '#4CAF50', litIn: ['green'] },
+];
 
 /**
  * Renders road network overlay on game canvas
@@ -34,6 +44,7 @@ export class RoadNetworkRenderer {
     
     if (this.showLanes) {
       this.drawLanes(ctx, mapLayer, zoom);
+      this.drawCrosswalks(ctx, mapLayer);
     }
     
     if (this.showIntersections) {
@@ -58,10 +69,8 @@ export class RoadNetworkRenderer {
   private drawLane(ctx: CanvasRenderingContext2D, lane: Lane, mapLayer: any, zoom: number) {
     if (lane.poly.length < 2) return;
     
-    // Convert GPS coordinates to world coordinates
-    const worldPoints = lane.poly.map(([lon, lat]) => {
-      return mapLayer.lonLatToWorld(lon, lat);
-    });
+    // Convert network metres to world coordinates
+    const worldPoints = lane.poly.map(p => this.roadNetwork.networkToWorld(p, mapLayer));
     
     // Lane color based on type
     let color = '#4CAF50'; // Green for general
@@ -98,15 +107,15 @@ export class RoadNetworkRenderer {
       this.drawArrow(ctx, p2.x, p2.y, angle, 8 / zoom, color);
     }
     
-    // Draw stop line if exists
+    // Draw stop line if exists - solid (V5) for STOP and signals, dashed (V6) for give way
     if (lane.stopLine) {
       const [start, end] = lane.stopLine;
-      const startWorld = mapLayer.lonLatToWorld(start[0], start[1]);
-      const endWorld = mapLayer.lonLatToWorld(end[0], end[1]);
+      const startWorld = this.roadNetwork.networkToWorld(start, mapLayer);
+      const endWorld = this.roadNetwork.networkToWorld(end, mapLayer);
       
-      ctx.strokeStyle = '#F44336'; // Red
-      ctx.lineWidth = 3 / zoom;
-      ctx.setLineDash([5 / zoom, 5 / zoom]);
+      ctx.strokeStyle = '#FFFFFF';
+      ctx.lineWidth = 4 / zoom;
+      ctx.setLineDash(lane.stopLineKind === 'dashed' ? [4 / zoom, 3 / zoom] : []);
       
       ctx.beginPath();
       ctx.moveTo(startWorld.x, startWorld.y);
@@ -117,6 +126,51 @@ export class RoadNetworkRenderer {
     ctx.restore();
   }
   
+  /**
+   * Draw zebra crosswalks, stripes parallel to the road from curb to curb
+   */
+  private drawCrosswalks(ctx: CanvasRenderingContext2D, mapLayer: any) {
+    for (const crosswalk of this.roadNetwork.getAllCrosswalks()) {
+      this.drawCrosswalk(ctx, crosswalk, mapLayer);
+    }
+  }
+  
+  /**
+   * Draw single crosswalk, dimmer where signals control it
+   */
+  private drawCrosswalk(ctx: CanvasRenderingContext2D, crosswalk: Crosswalk, mapLayer: any) {
+    const [a, b] = crosswalk.segment;
+    const length = Math.hypot(b[0] - a[0], b[1] - a[1]);
+    if (length < STRIPE_PITCH) return;    // point crosswalk off the road
+    
+    // Unit vectors across (a -> b) and along the road, network metres
+    const across = [(b[0] - a[0]) / length, (b[1] - a[1]) / length];
+    const along = [-across[1], across[0]];
+    const half = CROSSWALK_WIDTH / 2;
+    
+    ctx.save();
+    ctx.fillStyle = crosswalk.hasSignals ? 'rgba(255, 255, 255, 0.6)' : 'rgba(255, 255, 255, 0.85)';
+    
+    for (let s = STRIPE_PITCH / 4; s + STRIPE_PITCH / 2 <= length; s += STRIPE_PITCH) {
+      const corners = [
+        [s, -half], [s + STRIPE_PITCH / 2, -half], [s + STRIPE_PITCH / 2, half], [s, half],
+      ].map(([u, v]) => this.roadNetwork.networkToWorld(
+        [a[0] + across[0] * u + along[0] * v, a[1] + across[1] * u + along[1] * v],
+        mapLayer
+      ));
+      
+      ctx.beginPath();
+      corners.forEach((point, i) => {
+        if (i === 0) ctx.moveTo(point.x, point.y);
+        else ctx.lineTo(point.x, point.y);
+      });
+      ctx.closePath();
+      ctx.fill();
+    }
+    
+    ctx.restore();
+  }
+  
   /**
    * Draw intersections
    */
@@ -135,10 +189,63 @@ export class RoadNetworkRenderer {
       // Use end point of first incoming lane as intersection center
       const firstLane = incomingLanes[0];
       const lastPoint = firstLane.poly[firstLane.poly.length - 1];
-      const center = mapLayer.lonLatToWorld(lastPoint[0], lastPoint[1]);
+      const center = this.roadNetwork.networkToWorld(intersection.center ?? lastPoint, mapLayer);
       
+      this.drawPolygon(ctx, intersection, mapLayer);
+      this.drawConnectors(ctx, intersection, mapLayer, zoom);
       this.drawIntersection(ctx, intersection, center, zoom);
+      
+      if (intersection.control === 'signals') {
+        for (const lane of incomingLanes) {
+          this.drawSignalHead(ctx, lane, mapLayer, zoom);
+        }
+      }
+    }
+  }
+  
+  /**
+   * Fill intersection area between road edges
+   */
+  private drawPolygon(ctx: CanvasRenderingContext2D, intersection: Intersection, mapLayer: any) {
+    if (!intersection.polygon || intersection.polygon.length < 3) return;
+    
+    ctx.save();
+    ctx.fillStyle = 'rgba(97, 97, 97, 0.35)';
+    
+    ctx.beginPath();
+    intersection.polygon.forEach((point, i) => {
+      const world = this.roadNetwork.networkToWorld(point, mapLayer);
+      if (i === 0) ctx.moveTo(world.x, world.y);
+      else ctx.lineTo(world.x, world.y);
+    });
+    ctx.closePath();
+    ctx.fill();
+    
+    ctx.restore();
+  }
+  
+  /**
+   * Draw connector paths through intersection
+   */
+  private drawConnectors(ctx: CanvasRenderingContext2D, intersection: Intersection, mapLayer: any, zoom: number) {
+    ctx.save();
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
+    ctx.lineWidth = 1 / zoom;
+    ctx.setLineDash([3 / zoom, 3 / zoom]);
+    
+    for (const connector of this.roadNetwork.getIntersectionConnectors(intersection.id)) {
+      if (!connector.allowed || connector.path.length < 2) continue;
+      
+      ctx.beginPath();
+      connector.path.forEach((point, i) => {
+        const world = this.roadNetwork.networkToWorld(point, mapLayer);
+        if (i === 0) ctx.moveTo(world.x, world.y);
+        else ctx.lineTo(world.x, world.y);
+      });
+      ctx.stroke();
     }
+    
+    ctx.restore();
   }
   
   /**
@@ -187,6 +294,37 @@ export class RoadNetworkRenderer {
     ctx.restore();
   }
   
+  /**
+   * Draw signal head at the right end of the lane's stop line (lane end without one)
+   */
+  private drawSignalHead(ctx: CanvasRenderingContext2D, lane: Lane, mapLayer: any, zoom: number) {
+    if (!lane.signalGroupId) return;
+    const signal = this.roadNetwork.getSignalGroupState(lane.signalGroupId);
+    if (!signal) return;
+    
+    const anchor = lane.stopLine ? lane.stopLine[1] : lane.poly[lane.poly.length - 1];
+    const pos = this.roadNetwork.networkToWorld(anchor, mapLayer);
+    const lamp = 4 / zoom;
+    const width = lamp * 2.6;
+    const height = lamp * 7.4;
+    
+    ctx.save();
+    ctx.fillStyle = '#212121';
+    ctx.strokeStyle = '#FFFFFF';
+    ctx.lineWidth = 1 / zoom;
+    ctx.fillRect(pos.x - width / 2, pos.y - height / 2, width, height);
+    ctx.strokeRect(pos.x - width / 2, pos.y - height / 2, width, height);
+    
+    SIGNAL_LAMPS.forEach(({ color, litIn }, i) => {
+      ctx.fillStyle = litIn.includes(signal.state) ? color : '#424242';
+      ctx.beginPath();
+      ctx.arc(pos.x, pos.y + (i - 1) * lamp * 2.3, lamp, 0, Math.PI * 2);
+      ctx.fill();
+    });
+    
+    ctx.restore();
+  }
+  
   /**
    * Draw arrow
    */
@@ -244,9 +382,7 @@ export class RoadNetworkRenderer {
     // Draw highlighted version of current lane
     if (lane.poly.length < 2) return;
     
-    const worldPoints = lane.poly.map(([lon, lat]) => {
-      return mapLayer.lonLatToWorld(lon, lat);
-    });
+    const worldPoints = lane.poly.map(p => this.roadNetwork.networkToWorld(p, mapLayer));
     
     ctx.save();
     ctx.strokeStyle = '#FFEB3B'; // Bright yellow
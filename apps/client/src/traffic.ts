@@ -0,0 +1,96 @@
+import type { TrafficVehicle } from '@shared/traffic';
+import type { ClientRoadNetwork } from './roadNetwork';
+import { WORLD_SCALE } from './vehicle';
+
+const CAR_WIDTH = 1.8;     // m
+const COLORS = ['#546e7a', '#8d6e63', '#f5f5f5', '#263238', '#1e88e5', '#fdd835', '#43a047'];
+
+/**
+ * AI car as a world entity, pose in world px
+ */
+export class TrafficCar {
+  x = 0;
+  y = 0;
+  angle = 0;                // rad, world frame (y down) like Vehicle.angle
+  readonly color: string;
+
+  constructor(readonly id: string, readonly length: number) {
+    this.color = COLORS[hashId(id) % COLORS.length];
+  }
+
+  draw(ctx: CanvasRenderingContext2D): void {
+    const halfL = this.length * WORLD_SCALE / 2;
+    const halfW = CAR_WIDTH * WORLD_SCALE / 2;
+
+    ctx.save();
+    ctx.translate(this.x, this.y);
+    ctx.rotate(this.angle);
+    ctx.fillStyle = this.color;
+    ctx.fillRect(-halfL, -halfW, halfL * 2, halfW * 2);
+    ctx.strokeStyle = 'rgba(0,0,0,0.6)';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(-halfL, -halfW, halfL * 2, halfW * 2);
+    ctx.fillStyle = 'rgba(0,0,0,0.35)';                  // windscreen marks the front
+    ctx.fillRect(halfL * 0.2, -halfW * 0.8, halfL * 0.35, halfW * 1.6);
+    ctx.restore();
+  }
+}
+
+/**
+ * Mirrors shared AI traffic (network metres) into the main loop's entity list
+ */
+export class ClientTraffic {
+  private cars = new Map<string, TrafficCar>();
+
+  constructor(private roadNetwork: ClientRoadNetwork, private mapLayer: any) {}
+
+  get count(): number {
+    return this.cars.size;
+  }
+
+  /**
+   * Update car poses and keep `entities` in step with spawned / removed cars
+   */
+  sync(entities: object[]): void {
+    const alive = new Set<string>();
+
+    for (const vehicle of this.roadNetwork.getTrafficVehicles()) {
+      alive.add(vehicle.id);
+
+      let car = this.cars.get(vehicle.id);
+      if (!car) {
+        car = new TrafficCar(vehicle.id, vehicle.length);
+        this.cars.set(vehicle.id, car);
+        entities.push(car);
+      }
+      this.place(car, vehicle);
+    }
+
+    for (const [id, car] of this.cars) {
+      if (alive.has(id)) continue;
+
+      this.cars.delete(id);
+      const index = entities.indexOf(car);
+      if (index >= 0) entities.splice(index, 1);
+    }
+  }
+
+  private place(car: TrafficCar, vehicle: TrafficVehicle): void {
+    const [x, y] = vehicle.position;
+    const here = this.roadNetwork.networkToWorld(vehicle.position, this.mapLayer);
+    const ahead = this.roadNetwork.networkToWorld(
+      [x + Math.cos(vehicle.heading), y + Math.sin(vehicle.heading)],
+      this.mapLayer
+    );
+
+    car.x = here.x;
+    car.y = here.y;
+    car.angle = Math.atan2(ahead.y - here.y, ahead.x - here.x);
+  }
+}
+
+function hashId(id: string): number {
+  let hash = 0;
+  for (let i = 0; i < id.length; i++) hash = (hash * 31 + id.charCodeAt(i)) >>> 0;
+  return hash;
+}
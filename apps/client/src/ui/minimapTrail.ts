@@ -1,4 +1,6 @@
 // src/ui/minimapTrail.ts
+import { WORLD_SCALE } from '../vehicle';
+
 export type TrailPoint = { x: number; y: number; t: number };
 
 const STEP_MIN_M = 1.5;            // přidej bod po ≥1.5 m
@@ -30,8 +32,7 @@ export class MinimapTrail {
     const prev = this.pts[n-1];
     const d = hypot(p.x - prev.x, p.y - prev.y);
     
-    // přepočet na pixely dle tvého world scale:
-    const WORLD_SCALE = 10;  // jestli máš jinde, exportuj si to jako import
+    // přepočet na pixely dle world scale
     const stepMinPx = STEP_MIN_M * WORLD_SCALE;
 
     if (d < stepMinPx) return; // neukládej šum
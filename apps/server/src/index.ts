@@ -2,6 +2,7 @@ import { Server } from "colyseus";
 import { createServer } from "http";
 import express from "express";
 import { DriveRoom } from "./rooms/drive";
+import { loadRoadNetwork } from "./roadNetwork";
 
 const port = Number(process.env.PORT) || 3000;
 
@@ -15,5 +16,10 @@ const gameServer = new Server({
 // Register our game room
 gameServer.define("drive", DriveRoom);
 
-gameServer.listen(port);
-console.log(`Server listening on ws://localhost:${port}`);
+// Road network is optional - rooms still work without it
+loadRoadNetwork()
+  .catch((err) => console.warn(`Road network not loaded: ${err.message}`))
+  .finally(() => {
+    gameServer.listen(port);
+    console.log(`Server listening on ws://localhost:${port}`);
+  });
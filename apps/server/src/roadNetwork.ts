@@ -0,0 +1,28 @@
+import { readFile } from "fs/promises";
+import { resolve } from "path";
+import { parseNetworkPack, RoadNetworkManager } from "@shared/road-network";
+
+// Default pack location, same file the client serves statically
+const DEFAULT_PACK = "../client/public/networks/prague-andel.pack.json";
+
+let manager: RoadNetworkManager | null = null;
+
+/**
+ * Load prebuilt road network pack from disk (see packages/shared/scripts/build-network-pack.ts)
+ */
+export async function loadRoadNetwork(path = process.env.NETWORK_PACK ?? DEFAULT_PACK): Promise<RoadNetworkManager> {
+  const file = resolve(path);
+  const network = await parseNetworkPack(await readFile(file, "utf8"));
+
+  manager = new RoadNetworkManager(network);
+  console.log(`Road network loaded from ${file}:`, manager.getMetadata().stats);
+
+  return manager;
+}
+
+/**
+ * Loaded network, null until loadRoadNetwork() succeeds
+ */
+export function getRoadNetwork(): RoadNetworkManager | null {
+  return manager;
+}
@@ -1,26 +1,89 @@
 import { Room, Client } from "colyseus";
-import { TICK_RATE } from "@shared";
+import { TICK_RATE, SIM_RATE } from "@shared";
+import { VehicleModel } from "@shared/vehicle";
+import {
+  AuthoritativeVehicle,
+  INPUT_MESSAGE,
+  sanitizeInputMessage,
+  writeNetVehicleState,
+  type DriveJoinOptions,
+} from "@shared/net";
+import { DriveState, PlayerState } from "./schema/DriveState";
+import { getRoadNetwork } from "../roadNetwork";
+
+// Steps a client may bank to catch up after jitter, on top of real time it never gains
+const MAX_BURST_STEPS = Math.ceil(SIM_RATE / TICK_RATE) * 2;
+const MAX_SPAWN_DISTANCE = 30;  // m from the nearest lane
+
+/**
+ * Shared driving room - the server owns every car
+ *
+ * Students send one input per fixed step, the server simulates them at
+ * TICK_RATE and patches the state back. Instructors join with
+ * `{ spectate: true }` and only watch.
+ */
+export class DriveRoom extends Room<DriveState> {
+  private vehicles = new Map<string, AuthoritativeVehicle>();
 
-export class DriveRoom extends Room {
   onCreate(options: any) {
     console.log("DriveRoom created!", options);
 
+    this.setState(new DriveState());
     this.setPatchRate(1000 / TICK_RATE);
+    this.setSimulationInterval((deltaTime) => this.tick(deltaTime / 1000), 1000 / TICK_RATE);
 
-    this.onMessage("*", (client, type, message) => {
-      console.log(`Received message "${type}" from ${client.sessionId}:`, message);
+    this.onMessage(INPUT_MESSAGE, (client, message) => {
+      const input = sanitizeInputMessage(message);
+      if (input) this.vehicles.get(client.sessionId)?.enqueue(input);
     });
   }
 
-  onJoin(client: Client, options: any) {
-    console.log(client.sessionId, "joined!");
+  onJoin(client: Client, options: DriveJoinOptions = {}) {
+    console.log(client.sessionId, "joined!", options.spectate ? "(spectator)" : "");
+    if (options.spectate) return;
+    this.checkSpawn(options);
+
+    const finite = (value: unknown) => (typeof value === "number" && Number.isFinite(value) ? value : 0);
+    const model = new VehicleModel(finite(options.x), finite(options.y), finite(options.angle));
+
+    const player = new PlayerState();
+    player.id = client.sessionId;
+    writeNetVehicleState(player, model.getState(), 0);
+
+    this.vehicles.set(client.sessionId, new AuthoritativeVehicle(model, 1 / SIM_RATE, MAX_BURST_STEPS));
+    this.state.players.set(client.sessionId, player);
   }
 
   onLeave(client: Client, consented: boolean) {
     console.log(client.sessionId, "left!");
+
+    this.vehicles.delete(client.sessionId);
+    this.state.players.delete(client.sessionId);
   }
 
   onDispose() {
     console.log("room", this.roomId, "disposing...");
   }
+
+  /**
+   * Reject a car spawned off the road, skipped while no network is loaded
+   */
+  private checkSpawn(options: DriveJoinOptions) {
+    const network = getRoadNetwork();
+    if (!network || typeof options.lon !== "number" || typeof options.lat !== "number") return;
+
+    const spawn = network.lonLatToNetwork(options.lon, options.lat);
+    if (!network.findNearestLane(spawn, MAX_SPAWN_DISTANCE)) {
+      throw new Error(`Spawn ${options.lat}, ${options.lon} is not on the road network`);
+    }
+  }
+
+  private tick(elapsed: number) {
+    for (const [sessionId, vehicle] of this.vehicles) {
+      if (vehicle.tick(elapsed) === 0) continue;
+
+      const player = this.state.players.get(sessionId);
+      if (player) writeNetVehicleState(player, vehicle.model.getState(), vehicle.lastInput);
+    }
+  }
 }
@@ -0,0 +1,30 @@
+import { Schema, MapSchema, type } from "@colyseus/schema";
+import type { DriveRoomState, NetVehicleState } from "@shared/net";
+
+export class Vec2State extends Schema {
+  @type("number") x = 0;
+  @type("number") y = 0;
+}
+
+/**
+ * One student's car, full dynamics so the owner can reconcile its prediction
+ */
+export class PlayerState extends Schema implements NetVehicleState {
+  @type("string") id = "";
+  @type(Vec2State) position = new Vec2State();   // m
+  @type(Vec2State) velocity = new Vec2State();   // m/s
+  @type("number") angle = 0;
+  @type("number") steering = 0;
+  @type("number") steerInput = 0;
+  @type("boolean") cruiseControl = false;
+  @type("number") cruiseControlSpeed = 0;
+  @type("number") hardBrakeTime = 0;
+  @type("number") totalDistance = 0;
+  @type("boolean") leftBlinker = false;
+  @type("boolean") rightBlinker = false;
+  @type("number") lastInput = 0;
+}
+
+export class DriveState extends Schema implements DriveRoomState {
+  @type({ map: PlayerState }) players = new MapSchema<PlayerState>();
+}
@@ -0,0 +1,92 @@
+/**
+ * Build-time CLI: fetch OSM data for a bbox, build the road network and
+ * write a versioned network pack for offline loading.
+ *
+ * Usage (from packages/shared):
+ *   npm run build:pack -- --bbox 50.065,14.395,50.075,14.405 --name prague-andel
+ *
+ * Options:
+ *   --bbox south,west,north,east   area to fetch, or to clip --osm input to (required unless --osm is given)
+ *   --name <name>                  pack name, default "network"
+ *   --out <file>                   output, default ../../apps/client/public/networks/<name>.pack.json
+ *   --osm <file>                   read Overpass JSON (.json) or OSM XML (.osm) instead of fetching
+ *   --save-osm <file>              store loaded data as Overpass JSON for later offline rebuilds
+ *   --overpass-url <url>           alternative Overpass instance
+ *   --stop-line-setback <m>        gap between stop lines and junction edge or crosswalk, default 1
+ */
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import { NetworkBuilder } from '../src/road-network/osm/network-builder';
+import { OverpassClient } from '../src/road-network/osm/overpass';
+import { OverpassDataSource, osmFileSource } from '../src/road-network/osm/data-source';
+import { createNetworkPack } from '../src/road-network/pack';
+
+type Args = Record<string, string>;
+
+function parseArgs(argv: string[]): Args {
+  const args: Args = {};
+  for (let i = 0; i < argv.length; i++) {
+    const key = argv[i];
+    if (!key.startsWith('--')) throw new Error(`Unexpected argument "${key}"`);
+    const value = argv[i + 1];
+    if (value === undefined || value.startsWith('--')) throw new Error(`Missing value for ${key}`);
+    args[key.slice(2)] = value;
+    i++;
+  }
+  return args;
+}
+
+function parseBBox(text: string) {
+  const parts = text.split(',').map(Number);
+  if (parts.length !== 4 || parts.some(n => !Number.isFinite(n))) {
+    throw new Error(`Invalid --bbox "${text}", expected south,west,north,east`);
+  }
+  const [south, west, north, east] = parts;
+  if (south >= north || west >= east) {
+    throw new Error(`Invalid --bbox "${text}", south/west must be below north/east`);
+  }
+  return { south, west, north, east };
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const name = args.name ?? 'network';
+  const query = args.bbox ? parseBBox(args.bbox) : undefined;
+  const out = resolve(args.out ?? `../../apps/client/public/networks/${name}.pack.json`);
+
+  if (!query && !args.osm) {
+    throw new Error('Either --bbox or --osm is required');
+  }
+
+  const source = args.osm
+    ? osmFileSource(args.osm, path => readFile(path, 'utf8'))
+    : new OverpassDataSource(new OverpassClient(args['overpass-url']));
+
+  console.log(`Loading OSM data from ${source.description}${args.bbox ? ` for ${args.bbox}` : ''}`);
+  const osmData = await source.load(query);
+
+  if (args['save-osm']) {
+    await mkdir(dirname(resolve(args['save-osm'])), { recursive: true });
+    await writeFile(args['save-osm'], JSON.stringify(osmData));
+    console.log(`Saved OSM data to ${args['save-osm']}`);
+  }
+
+  const setback = args['stop-line-setback'] !== undefined ? Number(args['stop-line-setback']) : undefined;
+  if (setback !== undefined && !(setback >= 0)) {
+    throw new Error(`Invalid --stop-line-setback "${args['stop-line-setback']}"`);
+  }
+
+  const network = new NetworkBuilder(source, { stopLines: { setback } }).buildFromOSMData(osmData);
+  const pack = await createNetworkPack(network, { name, query });
+
+  await mkdir(dirname(out), { recursive: true });
+  await writeFile(out, JSON.stringify(pack));
+
+  console.log(`Wrote ${out}`);
+  console.log(`  network ${pack.networkVersion}, sha256 ${pack.checksum.value}`);
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,141 @@
+import type { RuleViolation } from '../rules/types';
+import { EXAM_REPORT_FORMAT, EXAM_REPORT_VERSION } from './report';
+import type {
+  ExamReport,
+  ExamRules,
+  ExamViolation,
+  PenaltyCategory,
+  TelemetrySample,
+  TrackPoint,
+} from './types';
+
+/**
+ * Grading after the Czech practical driving test
+ *
+ * The examiner ends the test at the first serious fault ("závažná chyba" -
+ * not giving way, entering on red, not stopping at STOP, driving against
+ * traffic). Minor faults are left to the examiner's judgement, here they add
+ * up penalty points against a budget.
+ */
+export const DEFAULT_EXAM_RULES: ExamRules = {
+  penalties: {
+    failed_to_yield: { points: 10, serious: true },
+    red_light: { points: 10, serious: true },
+    stop_sign: { points: 10, serious: true },
+    wrong_way: { points: 10, serious: true },
+    speeding: { points: 3, serious: false },
+    restricted_lane: { points: 3, serious: false },
+    turn_signal: { points: 2, serious: false },
+  },
+  maxPoints: 10,
+};
+
+const MAX_SCORE = 100;
+
+/**
+ * Recording of one practice exam: track, telemetry and violations
+ *
+ * All times are simulation seconds (the RuleEngine clock), stored relative
+ * to the session start. The session does not listen to anything itself -
+ * the client feeds it from eventBus.
+ */
+export class ExamSession {
+  private rules: ExamRules;
+  private startTime: number | null = null;
+  private startedAt = '';
+  private track: TrackPoint[] = [];
+  private telemetry: TelemetrySample[] = [];
+  private violations: ExamViolation[] = [];
+
+  constructor(rules: Partial<ExamRules> = {}) {
+    this.rules = {
+      maxPoints: rules.maxPoints ?? DEFAULT_EXAM_RULES.maxPoints,
+      penalties: { ...DEFAULT_EXAM_RULES.penalties, ...rules.penalties },
+    };
+  }
+
+  get running(): boolean {
+    return this.startTime !== null;
+  }
+
+  /**
+   * Start recording, dropping any previous session
+   */
+  start(time: number, startedAt: Date = new Date()): void {
+    this.startTime = time;
+    this.startedAt = startedAt.toISOString();
+    this.track = [];
+    this.telemetry = [];
+    this.violations = [];
+  }
+
+  /**
+   * Add a point of the driven track (world px)
+   */
+  recordTrack(x: number, y: number, time: number): void {
+    if (this.startTime === null) return;
+    this.track.push({ x, y, t: time - this.startTime });
+  }
+
+  /**
+   * Add one 'vehicleUpdate' payload
+   */
+  recordTelemetry(time: number, sample: Omit<TelemetrySample, 't'>): void {
+    if (this.startTime === null) return;
+    this.telemetry.push({ ...sample, t: time - this.startTime });
+  }
+
+  /**
+   * Add a violation reported by RuleEngine
+   */
+  recordViolation(violation: RuleViolation): void {
+    if (this.startTime === null) return;
+
+    const penalty = this.rules.penalties[violation.type];
+    this.violations.push({
+      ...violation,
+      t: violation.time - this.startTime,
+      points: penalty.points,
+      serious: penalty.serious,
+    });
+  }
+
+  /**
+   * Stop recording and grade the exam
+   */
+  finish(time: number): ExamReport {
+    if (this.startTime === null) throw new Error('Exam session was not started');
+
+    const categories: ExamReport['categories'] = {};
+    for (const violation of this.violations) {
+      const category: PenaltyCategory = categories[violation.type] ?? { count: 0, points: 0 };
+      category.count++;
+      category.points += violation.points;
+      categories[violation.type] = category;
+    }
+
+    const penaltyPoints = this.violations.reduce((sum, v) => sum + v.points, 0);
+    const serious = this.violations.some(v => v.serious);
+    const overBudget = penaltyPoints > this.rules.maxPoints;
+    const odometer = this.telemetry.map(sample => sample.totalDistance);
+
+    const report: ExamReport = {
+      format: EXAM_REPORT_FORMAT,
+      reportVersion: EXAM_REPORT_VERSION,
+      startedAt: this.startedAt,
+      duration: time - this.startTime,
+      distance: odometer.length > 0 ? odometer[odometer.length - 1] - odometer[0] : 0,
+      score: Math.max(0, MAX_SCORE - penaltyPoints),
+      penaltyPoints,
+      categories,
+      passed: !serious && !overBudget,
+      ...(serious ? { failReason: 'serious_violation' as const } : overBudget ? { failReason: 'penalty_points' as const } : {}),
+      violations: this.violations,
+      track: this.track,
+      telemetry: this.telemetry,
+    };
+
+    this.startTime = null;
+    return report;
+  }
+}
@@ -0,0 +1,18 @@
+// Practice exam recording and grading
+export { ExamSession, DEFAULT_EXAM_RULES } from './exam-session';
+export {
+  serializeExamReport,
+  parseExamReport,
+  ExamReportError,
+  EXAM_REPORT_FORMAT,
+  EXAM_REPORT_VERSION,
+} from './report';
+export type {
+  TrackPoint,
+  TelemetrySample,
+  Penalty,
+  ExamRules,
+  ExamViolation,
+  PenaltyCategory,
+  ExamReport,
+} from './types';
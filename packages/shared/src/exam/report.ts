@@ -0,0 +1,42 @@
+import type { ExamReport } from './types';
+
+export const EXAM_REPORT_FORMAT = 'autoskola-exam-report';
+export const EXAM_REPORT_VERSION = 1;
+
+/**
+ * Error thrown when an exported report is malformed or incompatible
+ */
+export class ExamReportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExamReportError';
+  }
+}
+
+/**
+ * Serialize report for download or upload
+ */
+export function serializeExamReport(report: ExamReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+/**
+ * Parse exported report (file contents or HTTP body)
+ */
+export function parseExamReport(json: string): ExamReport {
+  let report: ExamReport;
+  try {
+    report = JSON.parse(json);
+  } catch (error) {
+    throw new ExamReportError(`Invalid report JSON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (report?.format !== EXAM_REPORT_FORMAT) {
+    throw new ExamReportError(`Not an exam report (format "${report?.format}")`);
+  }
+  if (report.reportVersion !== EXAM_REPORT_VERSION) {
+    throw new ExamReportError(`Unsupported report version ${report.reportVersion}, expected ${EXAM_REPORT_VERSION}`);
+  }
+
+  return report;
+}
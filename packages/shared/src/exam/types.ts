@@ -0,0 +1,77 @@
+import type { RuleViolation, ViolationType } from '../rules/types';
+
+/**
+ * Point of the driven track in world px (MinimapTrail sampling)
+ */
+export interface TrackPoint {
+  x: number;
+  y: number;
+  t: number;                // s from session start
+}
+
+/**
+ * One 'vehicleUpdate' payload with its time
+ */
+export interface TelemetrySample {
+  t: number;                // s from session start
+  speed: number;            // km/h
+  throttle: number;
+  brake: number;
+  steerRaw: number;
+  steerInput: number;
+  steerAngleDeg: number;
+  leftBlinker: boolean;
+  rightBlinker: boolean;
+  cruiseControl: boolean;
+  cruiseTargetKmh: number | null;
+  totalDistance: number;    // m, vehicle odometer
+}
+
+/**
+ * Penalty for one kind of violation
+ */
+export interface Penalty {
+  points: number;
+  serious: boolean;         // "závažná chyba" - ends the exam as failed
+}
+
+/**
+ * Grading of an exam
+ */
+export interface ExamRules {
+  penalties: Record<ViolationType, Penalty>;
+  maxPoints: number;        // penalty points still passing when nothing serious happened
+}
+
+/**
+ * Violation as recorded in the report
+ */
+export type ExamViolation = RuleViolation & {
+  t: number;                // s from session start
+  points: number;
+  serious: boolean;
+};
+
+export interface PenaltyCategory {
+  count: number;
+  points: number;
+}
+
+/**
+ * Outcome of a finished exam session
+ */
+export interface ExamReport {
+  format: 'autoskola-exam-report';
+  reportVersion: number;    // bumped on breaking report changes
+  startedAt: string;        // ISO timestamp
+  duration: number;         // s
+  distance: number;         // m driven during the session
+  score: number;            // 0..100
+  penaltyPoints: number;
+  categories: Partial<Record<ViolationType, PenaltyCategory>>;
+  passed: boolean;
+  failReason?: 'serious_violation' | 'penalty_points';
+  violations: ExamViolation[];
+  track: TrackPoint[];
+  telemetry: TelemetrySample[];
+}
@@ -1,7 +1,14 @@
 export const TICK_RATE = 30; // Hz
+export const SIM_RATE = 60;  // Hz, fixed vehicle simulation step (client, server, replay)
 
 export * from './types';
 export * from './logger';
 export * from './eventBus';
 export * from './performance';
 export * from './road-network';
+export * from './rules';
+export * from './exam';
+export * from './replay';
+export * from './vehicle';
+export * from './net';
+export * from './traffic';
@@ -0,0 +1,53 @@
+import type { VehicleModel } from '../vehicle/vehicle-model';
+import type { InputMessage } from './protocol';
+
+const MAX_QUEUE = 120;          // inputs buffered per client, older ones are dropped
+const STEP_EPSILON = 1e-6;      // float slack so whole ticks give whole steps
+
+/**
+ * Server side of a player's car: queued client inputs stepped on the server clock
+ *
+ * Each input is exactly one fixed step. Steps are paid from a budget refilled
+ * by elapsed server time and capped at `maxBurst`, so a client sending faster
+ * than real time cannot speed its car up and one that stalls can only catch
+ * up a few steps; meanwhile it simply stands still.
+ */
+export class AuthoritativeVehicle {
+  private queue: InputMessage[] = [];
+  private acknowledged = 0;
+  private budget = 0;           // steps
+
+  constructor(readonly model: VehicleModel, private step: number, private maxBurst: number) {}
+
+  /** Seq of the last simulated input */
+  get lastInput(): number {
+    return this.acknowledged;
+  }
+
+  /**
+   * Queue input, duplicates and late arrivals are ignored
+   */
+  enqueue(message: InputMessage): void {
+    const newest = this.queue.length > 0 ? this.queue[this.queue.length - 1].seq : this.acknowledged;
+    if (message.seq <= newest) return;
+
+    this.queue.push(message);
+    if (this.queue.length > MAX_QUEUE) this.queue.shift();
+  }
+
+  /**
+   * Simulate queued inputs for `elapsed` seconds of server time, returns steps run
+   */
+  tick(elapsed: number): number {
+    this.budget = Math.min(this.maxBurst, this.budget + elapsed / this.step);
+
+    const batch = this.queue.splice(0, Math.floor(this.budget + STEP_EPSILON));
+    for (const message of batch) {
+      this.model.update(this.step, message.input);
+      this.acknowledged = message.seq;
+    }
+
+    this.budget = Math.max(0, this.budget - batch.length);
+    return batch.length;
+  }
+}
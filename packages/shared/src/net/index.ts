@@ -0,0 +1,11 @@
+// Server-authoritative multiplayer driving
+export {
+  DRIVE_ROOM,
+  INPUT_MESSAGE,
+  writeNetVehicleState,
+  readNetVehicleState,
+  sanitizeInputMessage,
+} from './protocol';
+export type { InputMessage, DriveJoinOptions, NetVehicleState, DriveRoomState } from './protocol';
+export { AuthoritativeVehicle } from './authoritative-vehicle';
+export { PredictedVehicle } from './predicted-vehicle';
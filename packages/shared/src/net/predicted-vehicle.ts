@@ -0,0 +1,43 @@
+import type { DriveInput } from '../replay/types';
+import type { VehicleDynamics, VehicleModel } from '../vehicle/vehicle-model';
+import type { InputMessage } from './protocol';
+
+/**
+ * Client side prediction of the player's car
+ *
+ * Inputs are simulated locally at once and kept until the server
+ * acknowledges them. On every snapshot the car is put back to the server
+ * state and the unacknowledged inputs are simulated again - with the same
+ * model and step the result only differs when the server saw something else.
+ */
+export class PredictedVehicle {
+  private pending: InputMessage[] = [];
+  private seq = 0;
+
+  constructor(readonly model: VehicleModel, private step: number) {}
+
+  /** Inputs sent but not yet simulated by the server */
+  get pendingInputs(): number {
+    return this.pending.length;
+  }
+
+  /**
+   * Simulate one step locally, returns the message to send to the server
+   */
+  apply(input: DriveInput): InputMessage {
+    const message: InputMessage = { seq: ++this.seq, input: { ...input } };
+    this.pending.push(message);
+    this.model.update(this.step, message.input);
+    return message;
+  }
+
+  /**
+   * Rewind to authoritative state and replay inputs the server has not seen yet
+   */
+  reconcile(server: VehicleDynamics, lastInput: number): void {
+    this.pending = this.pending.filter(message => message.seq > lastInput);
+
+    this.model.setState(server);
+    for (const message of this.pending) this.model.update(this.step, message.input);
+  }
+}
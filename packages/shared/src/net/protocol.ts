@@ -0,0 +1,114 @@
+import type { EntityState } from '../types';
+import type { DriveInput } from '../replay/types';
+import type { VehicleDynamics } from '../vehicle/vehicle-model';
+
+export const DRIVE_ROOM = 'drive';
+export const INPUT_MESSAGE = 'input';
+
+/**
+ * One fixed simulation step of driver input, client -> server
+ */
+export interface InputMessage {
+  seq: number;                  // increasing per client, acknowledged in NetVehicleState.lastInput
+  input: DriveInput;
+}
+
+/**
+ * Options of joining the drive room
+ */
+export interface DriveJoinOptions {
+  spectate?: boolean;           // instructor watching, no own car
+  x?: number;                   // spawn pose, m (world frame)
+  y?: number;
+  angle?: number;
+  lat?: number;                 // same spawn in GPS, checked against the server's road network
+  lon?: number;
+}
+
+/**
+ * Player entry of the room state, flat so it maps onto a Colyseus schema
+ *
+ * Carries the full VehicleDynamics so a client can resimulate from it.
+ */
+export interface NetVehicleState extends EntityState {
+  steering: number;
+  steerInput: number;
+  cruiseControl: boolean;
+  cruiseControlSpeed: number;   // m/s, meaningful only with cruiseControl
+  hardBrakeTime: number;
+  totalDistance: number;
+  leftBlinker: boolean;
+  rightBlinker: boolean;
+  lastInput: number;            // seq of the last input the server simulated
+}
+
+/**
+ * State of the drive room as the schema syncs it, players by sessionId
+ */
+export interface DriveRoomState {
+  players: Map<string, NetVehicleState>;
+}
+
+/**
+ * Copy dynamics into a (schema) state object in place
+ */
+export function writeNetVehicleState(target: NetVehicleState, state: VehicleDynamics, lastInput: number): void {
+  target.position.x = state.x;
+  target.position.y = state.y;
+  target.velocity.x = state.vx;
+  target.velocity.y = state.vy;
+  target.angle = state.angle;
+  target.steering = state.steering;
+  target.steerInput = state.steerInput;
+  target.cruiseControl = state.cruiseControlSpeed !== null;
+  target.cruiseControlSpeed = state.cruiseControlSpeed ?? 0;
+  target.hardBrakeTime = state.hardBrakeTime;
+  target.totalDistance = state.totalDistance;
+  target.leftBlinker = state.leftBlinker;
+  target.rightBlinker = state.rightBlinker;
+  target.lastInput = lastInput;
+}
+
+export function readNetVehicleState(state: NetVehicleState): VehicleDynamics {
+  return {
+    x: state.position.x,
+    y: state.position.y,
+    vx: state.velocity.x,
+    vy: state.velocity.y,
+    angle: state.angle,
+    steering: state.steering,
+    steerInput: state.steerInput,
+    cruiseControlSpeed: state.cruiseControl ? state.cruiseControlSpeed : null,
+    hardBrakeTime: state.hardBrakeTime,
+    totalDistance: state.totalDistance,
+    leftBlinker: state.leftBlinker,
+    rightBlinker: state.rightBlinker,
+  };
+}
+
+/**
+ * Validate input from the wire, null when it is not an InputMessage
+ *
+ * Axes are clamped so a modified client cannot drive faster than the model allows.
+ */
+export function sanitizeInputMessage(message: unknown): InputMessage | null {
+  const m = message as Partial<InputMessage> | null;
+  const input = m?.input as Partial<DriveInput> | undefined;
+  if (!m || !Number.isInteger(m.seq) || typeof input !== 'object' || input === null) return null;
+
+  const axis = (value: unknown, min: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.min(1, Math.max(min, value)) : 0;
+
+  return {
+    seq: m.seq as number,
+    input: {
+      throttle: axis(input.throttle, -1),
+      brake: axis(input.brake, 0),
+      steer: axis(input.steer, -1),
+      leftBlinker: input.leftBlinker === true,
+      rightBlinker: input.rightBlinker === true,
+      cruiseControlToggle: input.cruiseControlToggle === true,
+      hardBrake: input.hardBrake === true,
+    },
+  };
+}
@@ -0,0 +1,40 @@
+/**
+ * Turns variable frame times into a whole number of fixed simulation steps
+ *
+ * The simulation only ever advances by `step`, so the same inputs give the
+ * same result however the frames fall. Leftover time carries to the next
+ * frame; after a long stall (tab in background) at most `maxSteps` are run
+ * and the rest is dropped.
+ */
+export class FixedTimestep {
+  private accumulator = 0;
+
+  constructor(readonly step: number, private maxSteps = 10) {}
+
+  /**
+   * Add frame time, returns how many steps to simulate
+   */
+  advance(dt: number): number {
+    this.accumulator += Math.max(0, dt);
+
+    const steps = Math.floor(this.accumulator / this.step);
+    if (steps > this.maxSteps) {
+      this.accumulator = 0;
+      return this.maxSteps;
+    }
+
+    this.accumulator -= steps * this.step;
+    return steps;
+  }
+
+  /**
+   * Fraction of a step carried over, for interpolating rendering
+   */
+  get alpha(): number {
+    return this.accumulator / this.step;
+  }
+
+  reset(): void {
+    this.accumulator = 0;
+  }
+}
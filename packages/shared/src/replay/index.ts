@@ -0,0 +1,18 @@
+// Fixed-timestep drive recording and deterministic replay
+export { FixedTimestep } from './fixed-timestep';
+export {
+  DriveRecorder,
+  serializeDriveRecording,
+  parseDriveRecording,
+  DriveRecordingError,
+  DRIVE_RECORDING_FORMAT,
+  DRIVE_RECORDING_VERSION,
+} from './recording';
+export { ReplayPlayer } from './replay-player';
+export type { ReplayTarget } from './replay-player';
+export type {
+  DriveInput,
+  DriveStart,
+  InputChange,
+  DriveRecording,
+} from './types';
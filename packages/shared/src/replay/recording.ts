@@ -0,0 +1,123 @@
+import type { DriveInput, DriveRecording, DriveStart, InputChange } from './types';
+
+export const DRIVE_RECORDING_FORMAT = 'autoskola-drive-recording';
+export const DRIVE_RECORDING_VERSION = 2;   // 2: start pose in metres
+
+/**
+ * Error thrown when a recording file is malformed or incompatible
+ */
+export class DriveRecordingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DriveRecordingError';
+  }
+}
+
+/**
+ * Records the input of every fixed simulation step
+ *
+ * Only changes are stored - held keys and long straight stretches cost
+ * nothing, the cruise control pulse costs two entries.
+ */
+export class DriveRecorder {
+  private start: DriveStart | null = null;
+  private recordedAt = '';
+  private changes: InputChange[] = [];
+  private ticks = 0;
+
+  constructor(readonly step: number) {}
+
+  get recording(): boolean {
+    return this.start !== null;
+  }
+
+  /**
+   * Start recording from the vehicle pose before the first step
+   */
+  begin(start: DriveStart, recordedAt: Date = new Date()): void {
+    this.start = { ...start };
+    this.recordedAt = recordedAt.toISOString();
+    this.changes = [];
+    this.ticks = 0;
+  }
+
+  /**
+   * Record the input of the step about to be simulated
+   */
+  record(input: DriveInput): void {
+    if (!this.start) return;
+
+    const last = this.changes[this.changes.length - 1];
+    if (!last || !sameInput(last.input, input)) {
+      this.changes.push({ tick: this.ticks, input: { ...input } });
+    }
+    this.ticks++;
+  }
+
+  /**
+   * Recording so far, recording goes on
+   */
+  snapshot(): DriveRecording {
+    if (!this.start) throw new DriveRecordingError('Recording was not started');
+
+    return {
+      format: DRIVE_RECORDING_FORMAT,
+      recordingVersion: DRIVE_RECORDING_VERSION,
+      recordedAt: this.recordedAt,
+      step: this.step,
+      ticks: this.ticks,
+      start: { ...this.start },
+      changes: [...this.changes],
+    };
+  }
+
+  /**
+   * Stop recording
+   */
+  finish(): DriveRecording {
+    const recording = this.snapshot();
+    this.start = null;
+    return recording;
+  }
+}
+
+/**
+ * Serialize recording for download or a bug report
+ */
+export function serializeDriveRecording(recording: DriveRecording): string {
+  return JSON.stringify(recording);
+}
+
+/**
+ * Parse recording file contents
+ */
+export function parseDriveRecording(json: string): DriveRecording {
+  let recording: DriveRecording;
+  try {
+    recording = JSON.parse(json);
+  } catch (error) {
+    throw new DriveRecordingError(`Invalid recording JSON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  if (recording?.format !== DRIVE_RECORDING_FORMAT) {
+    throw new DriveRecordingError(`Not a drive recording (format "${recording?.format}")`);
+  }
+  if (recording.recordingVersion !== DRIVE_RECORDING_VERSION) {
+    throw new DriveRecordingError(`Unsupported recording version ${recording.recordingVersion}, expected ${DRIVE_RECORDING_VERSION}`);
+  }
+  if (!(recording.step > 0) || recording.ticks > 0 && recording.changes[0]?.tick !== 0) {
+    throw new DriveRecordingError('Recording has no step or input for the first tick');
+  }
+
+  return recording;
+}
+
+function sameInput(a: DriveInput, b: DriveInput): boolean {
+  return a.throttle === b.throttle
+    && a.brake === b.brake
+    && a.steer === b.steer
+    && a.leftBlinker === b.leftBlinker
+    && a.rightBlinker === b.rightBlinker
+    && a.cruiseControlToggle === b.cruiseControlToggle
+    && a.hardBrake === b.hardBrake;
+}
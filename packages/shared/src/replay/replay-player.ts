@@ -0,0 +1,117 @@
+import { FixedTimestep } from './fixed-timestep';
+import type { DriveInput, DriveRecording, DriveStart } from './types';
+
+const MIN_SPEED = 0.125;
+const MAX_SPEED = 8;
+
+/**
+ * Simulation a recording is played into
+ */
+export interface ReplayTarget {
+  /** Put the vehicle back to the start pose and clear its state */
+  reset(start: DriveStart): void;
+  /** Simulate one fixed step */
+  step(input: DriveInput, dt: number): void;
+}
+
+/**
+ * Plays a DriveRecording into a simulation with play / pause / seek / speed
+ *
+ * Speed only changes how many steps run per frame, never the step itself,
+ * so the result is the same at any speed. Seeking back resets the target
+ * and simulates forward from the start.
+ */
+export class ReplayPlayer {
+  private timestep: FixedTimestep;
+  private tick = 0;
+  private changeIndex = 0;
+  private playing = false;
+  private playbackSpeed = 1;
+
+  constructor(private recording: DriveRecording, private target: ReplayTarget) {
+    this.timestep = new FixedTimestep(recording.step, Math.ceil(10 * MAX_SPEED));
+    target.reset(recording.start);
+  }
+
+  get isPlaying(): boolean {
+    return this.playing;
+  }
+
+  get finished(): boolean {
+    return this.tick >= this.recording.ticks;
+  }
+
+  /** Current playback position in s */
+  get time(): number {
+    return this.tick * this.recording.step;
+  }
+
+  /** Recording length in s */
+  get duration(): number {
+    return this.recording.ticks * this.recording.step;
+  }
+
+  get speed(): number {
+    return this.playbackSpeed;
+  }
+
+  play(): void {
+    if (this.finished) this.seek(0);
+    this.playing = true;
+  }
+
+  pause(): void {
+    this.playing = false;
+    this.timestep.reset();
+  }
+
+  toggle(): void {
+    if (this.playing) this.pause();
+    else this.play();
+  }
+
+  /**
+   * Set playback speed multiplier, clamped to 1/8..8
+   */
+  setSpeed(speed: number): void {
+    this.playbackSpeed = Math.min(MAX_SPEED, Math.max(MIN_SPEED, speed));
+  }
+
+  /**
+   * Jump to time in s, the target ends up in the exact recorded state
+   */
+  seek(time: number): void {
+    const tick = Math.min(this.recording.ticks, Math.max(0, Math.round(time / this.recording.step)));
+    if (tick < this.tick) {
+      this.target.reset(this.recording.start);
+      this.tick = 0;
+      this.changeIndex = 0;
+    }
+
+    while (this.tick < tick) this.stepOnce();
+    this.timestep.reset();
+  }
+
+  /**
+   * Advance by frame time, returns the number of steps simulated
+   */
+  update(dt: number): number {
+    if (!this.playing) return 0;
+
+    const steps = Math.min(this.timestep.advance(dt * this.playbackSpeed), this.recording.ticks - this.tick);
+    for (let i = 0; i < steps; i++) this.stepOnce();
+
+    if (this.finished) this.pause();
+    return steps;
+  }
+
+  private stepOnce(): void {
+    const changes = this.recording.changes;
+    while (this.changeIndex + 1 < changes.length && changes[this.changeIndex + 1].tick <= this.tick) {
+      this.changeIndex++;
+    }
+
+    this.target.step(changes[this.changeIndex].input, this.recording.step);
+    this.tick++;
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Driver input for one simulation step, as taken by Vehicle.update
+ */
+export interface DriveInput {
+  throttle: number;             // -1..1, negative reverses
+  brake: number;                // 0..1
+  steer: number;                // -1..1
+  leftBlinker: boolean;
+  rightBlinker: boolean;
+  cruiseControlToggle: boolean; // pulse, true for a single step
+  hardBrake: boolean;
+}
+
+/**
+ * Vehicle pose the drive starts from
+ */
+export interface DriveStart {
+  x: number;                    // m, world frame (world px / WORLD_SCALE)
+  y: number;                    // m
+  angle: number;                // rad
+}
+
+/**
+ * Input in effect from a step on, until the next change
+ */
+export interface InputChange {
+  tick: number;
+  input: DriveInput;
+}
+
+/**
+ * Recorded drive: start pose and input stream on a fixed timestep
+ *
+ * Replaying the inputs from the start pose with the same step reproduces
+ * the drive exactly.
+ */
+export interface DriveRecording {
+  format: 'autoskola-drive-recording';
+  recordingVersion: number;
+  recordedAt: string;           // ISO timestamp
+  step: number;                 // s per tick
+  ticks: number;                // steps recorded
+  start: DriveStart;
+  changes: InputChange[];       // ascending by tick, the first at tick 0
+}
@@ -1,31 +1,226 @@
-import type { RoadNetwork, Lane, LaneConnector, Intersection, Vec2 } from './types';
+import type { RoadNetwork, Lane, LaneConnector, Intersection, Crosswalk, PedNode, Vec2 } from './types';
+import { SpatialGrid } from './spatial-index';
+import { LocalProjection } from './projection';
+import { RoutePlanner, type Route, type RouteOptions } from './route-planner';
+import { WalkPlanner, type Walk } from './walk-planner';
+import {
+  type BBox,
+  bboxAround,
+  bboxIntersects,
+  bboxOfPoints,
+  distance,
+  distanceToSegment,
+  pointInPolygon,
+  projectOntoPolyline,
+  turnAngleBetween,
+} from './geometry';
+
+/**
+ * Single polyline segment of a lane stored in the spatial index
+ */
+interface LaneSegmentEntry {
+  lane: Lane;
+  index: number;            // segment poly[index] -> poly[index + 1]
+  bbox: BBox;
+}
+
+export interface RoadNetworkManagerOptions {
+  cellSize?: number;        // spatial grid cell size, derived from network extent if omitted
+}
+
+/**
+ * Lane a vehicle can drive into at the end of another, with the junction path if any
+ */
+export interface LaneSuccessor {
+  lane: Lane;
+  connector?: LaneConnector;  // undefined for plain continuation without junction
+}
+
+const MAX_CONTINUATION_ANGLE = Math.PI * 0.75; // same U-turn limit as RoutePlanner
 
 /**
  * Road network query and spatial operations
  */
 export class RoadNetworkManager {
   private network: RoadNetwork;
+  private projection: LocalProjection;
+  private laneIndex: SpatialGrid<LaneSegmentEntry>;
+  private intersectionIndex: SpatialGrid<Intersection>;
+  private crosswalkIndex: SpatialGrid<Crosswalk>;
+  private pedNodeIndex: SpatialGrid<PedNode>;
+  private intersectionByIncoming = new Map<string, Intersection>();
+  private lanesByFromNode = new Map<string, Lane[]>();
+  private routePlanner: RoutePlanner | null = null;
+  private walkPlanner: WalkPlanner | null = null;
   
-  constructor(network: RoadNetwork) {
+  constructor(network: RoadNetwork, options: RoadNetworkManagerOptions = {}) {
     this.network = network;
+    this.projection = new LocalProjection(network.projection);
+    
+    const cellSize = options.cellSize ?? this.estimateCellSize();
+    this.laneIndex = new SpatialGrid(cellSize);
+    this.intersectionIndex = new SpatialGrid(cellSize);
+    this.crosswalkIndex = new SpatialGrid(cellSize);
+    this.pedNodeIndex = new SpatialGrid(cellSize);
+    this.buildSpatialIndex();
   }
   
   /**
-   * Find nearest lane to world position
+   * Find nearest lane to network position (metres), optionally filtered
    */
-  findNearestLane(worldPos: Vec2, maxDistance = 50): Lane | null {
-    let nearestLane: Lane | null = null;
-    let minDistance = maxDistance;
+  findNearestLane(worldPos: Vec2, maxDistance = 50, filter?: (lane: Lane) => boolean): Lane | null {
+    const nearest = this.laneIndex.nearest(worldPos, maxDistance, entry =>
+      filter && !filter(entry.lane)
+        ? Infinity
+        : distanceToSegment(worldPos, entry.lane.poly[entry.index], entry.lane.poly[entry.index + 1])
+    );
     
-    for (const lane of Object.values(this.network.lanes)) {
-      const distance = this.distanceToPolyline(worldPos, lane.poly);
-      if (distance < minDistance) {
-        minDistance = distance;
-        nearestLane = lane;
+    return nearest?.item.lane ?? null;
+  }
+  
+  /**
+   * Find lanes with geometry inside bounding box
+   */
+  findLanesInBounds(bbox: BBox): Lane[] {
+    const lanes = new Set<Lane>();
+    
+    for (const entry of this.laneIndex.query(bbox)) {
+      if (bboxIntersects(entry.bbox, bbox)) {
+        lanes.add(entry.lane);
       }
     }
     
-    return nearestLane;
+    return [...lanes];
+  }
+  
+  /**
+   * Find intersections within radius, nearest first
+   */
+  findIntersectionsInRadius(pos: Vec2, radius: number): Intersection[] {
+    return this.intersectionIndex.query(bboxAround(pos, radius))
+      .map(intersection => ({ intersection, d: distance(pos, this.getIntersectionCenter(intersection)!) }))
+      .filter(({ d }) => d <= radius)
+      .sort((a, b) => a.d - b.d)
+      .map(({ intersection }) => intersection);
+  }
+  
+  /**
+   * Find intersection whose polygon contains position
+   */
+  findIntersectionAt(pos: Vec2): Intersection | null {
+    return this.intersectionIndex.query(bboxOfPoints([pos]))
+      .find(intersection =>
+        intersection.polygon && intersection.polygon.length >= 3 && pointInPolygon(pos, intersection.polygon)
+      ) ?? null;
+  }
+  
+  /**
+   * Find crosswalks within radius, nearest first
+   */
+  findCrosswalksInRadius(pos: Vec2, radius: number): Crosswalk[] {
+    return this.crosswalkIndex.query(bboxAround(pos, radius))
+      .map(crosswalk => ({ crosswalk, d: distanceToSegment(pos, crosswalk.segment[0], crosswalk.segment[1]) }))
+      .filter(({ d }) => d <= radius)
+      .sort((a, b) => a.d - b.d)
+      .map(({ crosswalk }) => crosswalk);
+  }
+  
+  /**
+   * Find pedestrian nodes within radius, nearest first
+   */
+  findPedNodesInRadius(pos: Vec2, radius: number): PedNode[] {
+    return this.pedNodeIndex.query(bboxAround(pos, radius))
+      .map(node => ({ node, d: distance(pos, node.p) }))
+      .filter(({ d }) => d <= radius)
+      .sort((a, b) => a.d - b.d)
+      .map(({ node }) => node);
+  }
+  
+  /**
+   * Plan lane-level route between two network positions
+   */
+  planRoute(fromPos: Vec2, toPos: Vec2, options: RouteOptions = {}): Route | null {
+    const maxSnap = options.maxSnapDistance ?? 50;
+    const laneTypes = options.allowedLaneTypes ?? ['general'];
+    const usable = (lane: Lane) => laneTypes.includes(lane.type);
+    
+    const fromLane = this.findNearestLane(fromPos, maxSnap, usable);
+    const toLane = this.findNearestLane(toPos, maxSnap, usable);
+    if (!fromLane || !toLane) return null;
+    
+    if (!this.routePlanner) {
+      this.routePlanner = new RoutePlanner(this.network);
+    }
+    
+    const toProjection = projectOntoPolyline(toPos, toLane.poly);
+    
+    return this.routePlanner.plan(
+      { lane: fromLane, offset: projectOntoPolyline(fromPos, fromLane.poly).along },
+      { lane: toLane, offset: toProjection.along, point: toProjection.point },
+      options
+    );
+  }
+  
+  /**
+   * Plan walk over sidewalks and crosswalks between the pedestrian nodes nearest to two positions
+   */
+  planWalk(fromPos: Vec2, toPos: Vec2, maxSnapDistance = 50): Walk | null {
+    const from = this.findPedNodesInRadius(fromPos, maxSnapDistance)[0];
+    const to = this.findPedNodesInRadius(toPos, maxSnapDistance)[0];
+    if (!from || !to) return null;
+    
+    if (!this.walkPlanner) {
+      this.walkPlanner = new WalkPlanner(this.network);
+    }
+    
+    return this.walkPlanner.plan(from.id, to.id);
+  }
+  
+  /**
+   * Intersection reference point - junction node, or mean of incoming lane ends
+   */
+  getIntersectionCenter(intersection: Intersection): Vec2 | null {
+    if (intersection.center) return intersection.center;
+    
+    const ends = intersection.incoming
+      .map(id => this.network.lanes[id])
+      .filter(lane => lane && lane.poly.length > 0)
+      .map(lane => lane.poly[lane.poly.length - 1]);
+    
+    if (ends.length === 0) return null;
+    
+    return [
+      ends.reduce((sum, p) => sum + p[0], 0) / ends.length,
+      ends.reduce((sum, p) => sum + p[1], 0) / ends.length,
+    ];
+  }
+  
+  /**
+   * Get lane by id
+   */
+  getLane(laneId: string): Lane | null {
+    return this.network.lanes[laneId] ?? null;
+  }
+  
+  /**
+   * Get crosswalk by id
+   */
+  getCrosswalk(crosswalkId: string): Crosswalk | null {
+    return this.network.crosswalks[crosswalkId] ?? null;
+  }
+  
+  /**
+   * Get lane connector by id
+   */
+  getConnector(connectorId: string): LaneConnector | null {
+    return this.network.laneConnectors[connectorId] ?? null;
+  }
+  
+  /**
+   * Intersection that lane leads into, null when it ends elsewhere
+   */
+  getIntersectionAhead(laneId: string): Intersection | null {
+    return this.intersectionByIncoming.get(laneId) ?? null;
   }
   
   /**
@@ -40,6 +235,25 @@ export class RoadNetworkManager {
       .filter(Boolean);
   }
   
+  /**
+   * Lanes reachable from lane end - allowed connectors at a junction, plain continuation elsewhere
+   */
+  getLaneSuccessors(laneId: string): LaneSuccessor[] {
+    const lane = this.network.lanes[laneId];
+    if (!lane) return [];
+    
+    const intersection = this.intersectionByIncoming.get(laneId);
+    if (intersection) {
+      return this.getIntersectionConnectors(intersection.id)
+        .filter(c => c.fromLane === laneId && c.allowed && this.network.lanes[c.toLane])
+        .map(connector => ({ lane: this.network.lanes[connector.toLane], connector }));
+    }
+    
+    return (this.lanesByFromNode.get(lane.toNode) ?? [])
+      .filter(next => Math.abs(turnAngleBetween(lane.poly, next.poly)) <= MAX_CONTINUATION_ANGLE)
+      .map(next => ({ lane: next }));
+  }
+  
   /**
    * Check if movement through intersection is allowed
    */
@@ -78,53 +292,50 @@ export class RoadNetworkManager {
   }
   
   /**
-   * Calculate distance from point to polyline
+   * Populate lane, intersection, crosswalk and pedestrian node grids
    */
-  private distanceToPolyline(point: Vec2, polyline: Vec2[]): number {
-    if (polyline.length === 0) return Infinity;
-    if (polyline.length === 1) {
-      return this.distance(point, polyline[0]);
+  private buildSpatialIndex(): void {
+    for (const lane of Object.values(this.network.lanes)) {
+      for (let i = 0; i < lane.poly.length - 1; i++) {
+        const bbox = bboxOfPoints([lane.poly[i], lane.poly[i + 1]]);
+        this.laneIndex.insert({ lane, index: i, bbox }, bbox);
+      }
+      
+      const list = this.lanesByFromNode.get(lane.fromNode) ?? [];
+      list.push(lane);
+      this.lanesByFromNode.set(lane.fromNode, list);
     }
     
-    let minDistance = Infinity;
-    for (let i = 0; i < polyline.length - 1; i++) {
-      const segDistance = this.distanceToSegment(point, polyline[i], polyline[i + 1]);
-      minDistance = Math.min(minDistance, segDistance);
+    for (const intersection of Object.values(this.network.intersections)) {
+      intersection.incoming.forEach(id => this.intersectionByIncoming.set(id, intersection));
+      
+      const center = this.getIntersectionCenter(intersection);
+      if (center) {
+        this.intersectionIndex.insert(intersection, bboxOfPoints([center, ...(intersection.polygon ?? [])]));
+      }
     }
     
-    return minDistance;
-  }
-  
-  /**
-   * Distance from point to line segment
-   */
-  private distanceToSegment(point: Vec2, segStart: Vec2, segEnd: Vec2): number {
-    const [px, py] = point;
-    const [x1, y1] = segStart;
-    const [x2, y2] = segEnd;
-    
-    const dx = x2 - x1;
-    const dy = y2 - y1;
-    const lengthSq = dx * dx + dy * dy;
-    
-    if (lengthSq === 0) {
-      return this.distance(point, segStart);
+    for (const crosswalk of Object.values(this.network.crosswalks)) {
+      this.crosswalkIndex.insert(crosswalk, bboxOfPoints(crosswalk.segment));
     }
     
-    const t = Math.max(0, Math.min(1, ((px - x1) * dx + (py - y1) * dy) / lengthSq));
-    const closestX = x1 + t * dx;
-    const closestY = y1 + t * dy;
-    
-    return Math.sqrt((px - closestX) ** 2 + (py - closestY) ** 2);
+    for (const node of Object.values(this.network.pedNodes)) {
+      this.pedNodeIndex.insert(node, bboxOfPoints([node.p]));
+    }
   }
   
   /**
-   * Euclidean distance between two points
+   * Pick grid cell size so lanes spread over roughly sqrt(n) x sqrt(n) cells
    */
-  private distance(a: Vec2, b: Vec2): number {
-    const [ax, ay] = a;
-    const [bx, by] = b;
-    return Math.sqrt((ax - bx) ** 2 + (ay - by) ** 2);
+  private estimateCellSize(): number {
+    const points = Object.values(this.network.lanes).flatMap(lane => lane.poly);
+    if (points.length === 0) return 1;
+    
+    const bbox = bboxOfPoints(points);
+    const extent = Math.max(bbox.maxX - bbox.minX, bbox.maxY - bbox.minY);
+    const cellsAcross = Math.ceil(Math.sqrt(Object.keys(this.network.lanes).length));
+    
+    return extent > 0 ? extent / cellsAcross : 1;
   }
   
   /**
@@ -142,6 +353,20 @@ export class RoadNetworkManager {
     return new RoadNetworkManager(network);
   }
   
+  /**
+   * Geographic position to network metres
+   */
+  lonLatToNetwork(lon: number, lat: number): Vec2 {
+    return this.projection.fromLonLat(lon, lat);
+  }
+  
+  /**
+   * Network metres to geographic position
+   */
+  networkToLonLat(p: Vec2): { lon: number; lat: number } {
+    return this.projection.toLonLat(p);
+  }
+  
   /**
    * Get network bounds for spatial culling
    */
@@ -157,6 +382,7 @@ export class RoadNetworkManager {
       version: this.network.version,
       generatedAt: this.network.generatedAt,
       source: this.network.source,
+      projection: this.network.projection,
       stats: {
         lanes: Object.keys(this.network.lanes).length,
         connectors: Object.keys(this.network.laneConnectors).length,
@@ -0,0 +1,156 @@
+import type { Vec2 } from './types';
+import { distance, normalizeAngle } from './geometry';
+import { DEFAULT_VEHICLE_SPEC } from '../vehicle/vehicle-spec';
+
+// Same car as the player's VehicleModel
+export const DEFAULT_WHEELBASE = DEFAULT_VEHICLE_SPEC.wheelbase;          // m
+export const DEFAULT_MAX_STEER_ANGLE = DEFAULT_VEHICLE_SPEC.steerMax;     // rad
+
+const COMFORT_LATERAL_ACCEL = 2.0;   // m/s², driving-school smooth turn
+const HANDLE_SCALES = [0.5, 0.6, 0.7, 0.8, 0.9, 1, 1.15, 1.3, 1.5, 1.75, 2];
+const WIDE_HANDLE_SCALES = [0.5, 0.75, 1, 1.25, 1.5, 1.75, 2, 2.5, 3];   // per handle, corners too tight for a car
+const CURVATURE_PROBES = 32;         // samples per candidate when searching handles
+const SEGMENT_ANGLE = Math.PI / 32;  // output resolution, ~5.6° of heading per segment
+const MAX_SEGMENT_LENGTH = 4;        // m, keeps S-bends across wide junctions smooth
+
+/**
+ * Sampled curve with arc length and signed curvature at every vertex
+ */
+export interface SampledCurve {
+  path: Vec2[];
+  arcLength: number[];      // metres from path start
+  curvature: number[];      // 1/m, left turn positive
+  minRadius: number;        // m, Infinity for straight paths
+}
+
+/**
+ * Tightest radius a car can drive (rear axle, bicycle model)
+ */
+export function minTurningRadius(
+  wheelbase = DEFAULT_WHEELBASE,
+  maxSteerAngle = DEFAULT_MAX_STEER_ANGLE
+): number {
+  return wheelbase / Math.tan(maxSteerAngle);
+}
+
+/**
+ * Cubic Bézier between two poses, tangent to both headings
+ *
+ * Handle length starts from the circular-arc approximation (4/3·tan(θ/4)·R)
+ * and is then scaled to whichever candidate gives the lowest peak curvature,
+ * so asymmetric corners (lanes at different offsets) do not get a kink.
+ * When that is still tighter than minRadius, the two handles are also
+ * lengthened independently, which opens up corners where one lane ends
+ * further from the turn than the other.
+ */
+export function bezierBetweenPoses(
+  start: Vec2,
+  startHeading: number,
+  end: Vec2,
+  endHeading: number,
+  minRadius = 0
+): SampledCurve {
+  const chord = distance(start, end);
+  if (chord < 1e-6) {
+    return { path: [start, end], arcLength: [0, 0], curvature: [0, 0], minRadius: Infinity };
+  }
+
+  const turn = normalizeAngle(endHeading - startHeading);
+  const absTurn = Math.abs(turn);
+  const baseHandle = absTurn < 1e-3
+    ? chord / 3
+    : (4 / 3) * Math.tan(absTurn / 4) * (chord / (2 * Math.sin(absTurn / 2)));
+
+  const d0: Vec2 = [Math.cos(startHeading), Math.sin(startHeading)];
+  const d1: Vec2 = [Math.cos(endHeading), Math.sin(endHeading)];
+  const controls = (startHandle: number, endHandle: number): [Vec2, Vec2, Vec2, Vec2] => [
+    start,
+    [start[0] + d0[0] * startHandle, start[1] + d0[1] * startHandle],
+    [end[0] - d1[0] * endHandle, end[1] - d1[1] * endHandle],
+    end,
+  ];
+
+  let best = controls(baseHandle, baseHandle);
+  let bestPeak = Infinity;
+  const consider = (candidate: [Vec2, Vec2, Vec2, Vec2]) => {
+    const peak = peakCurvature(candidate);
+    if (peak < bestPeak) {
+      bestPeak = peak;
+      best = candidate;
+    }
+  };
+
+  for (const scale of HANDLE_SCALES) {
+    consider(controls(baseHandle * scale, baseHandle * scale));
+  }
+  if (bestPeak * minRadius > 1) {
+    for (const startScale of WIDE_HANDLE_SCALES) {
+      for (const endScale of WIDE_HANDLE_SCALES) {
+        consider(controls(baseHandle * startScale, baseHandle * endScale));
+      }
+    }
+  }
+
+  const segments = Math.max(2, Math.ceil(absTurn / SEGMENT_ANGLE), Math.ceil(chord / MAX_SEGMENT_LENGTH));
+  const path: Vec2[] = [];
+  const arcLength: number[] = [];
+  const curvature: number[] = [];
+
+  for (let i = 0; i <= segments; i++) {
+    const t = i / segments;
+    const point = bezierPoint(best, t);
+    arcLength.push(i === 0 ? 0 : arcLength[i - 1] + distance(path[i - 1], point));
+    path.push(point);
+    curvature.push(bezierCurvature(best, t));
+  }
+
+  // Exact end points, sampling must not open a gap to the lanes
+  path[0] = start;
+  path[segments] = end;
+
+  return { path, arcLength, curvature, minRadius: bestPeak > 1e-9 ? 1 / bestPeak : Infinity };
+}
+
+/**
+ * Highest speed keeping lateral acceleration comfortable along a curve (m/s)
+ */
+export function curveSpeedAdvice(curvature: number[], maxLateralAccel = COMFORT_LATERAL_ACCEL): number {
+  const peak = curvature.reduce((max, k) => Math.max(max, Math.abs(k)), 0);
+  return peak > 1e-9 ? Math.sqrt(maxLateralAccel / peak) : Infinity;
+}
+
+function peakCurvature(controls: Vec2[]): number {
+  let peak = 0;
+  for (let i = 0; i <= CURVATURE_PROBES; i++) {
+    peak = Math.max(peak, Math.abs(bezierCurvature(controls, i / CURVATURE_PROBES)));
+  }
+  return peak;
+}
+
+function bezierPoint([p0, p1, p2, p3]: Vec2[], t: number): Vec2 {
+  const u = 1 - t;
+  const a = u * u * u;
+  const b = 3 * u * u * t;
+  const c = 3 * u * t * t;
+  const d = t * t * t;
+  return [
+    a * p0[0] + b * p1[0] + c * p2[0] + d * p3[0],
+    a * p0[1] + b * p1[1] + c * p2[1] + d * p3[1],
+  ];
+}
+
+/**
+ * Signed curvature (x'y'' - y'x'') / |B'|³
+ */
+function bezierCurvature([p0, p1, p2, p3]: Vec2[], t: number): number {
+  const u = 1 - t;
+  const dx = 3 * (u * u * (p1[0] - p0[0]) + 2 * u * t * (p2[0] - p1[0]) + t * t * (p3[0] - p2[0]));
+  const dy = 3 * (u * u * (p1[1] - p0[1]) + 2 * u * t * (p2[1] - p1[1]) + t * t * (p3[1] - p2[1]));
+  const ddx = 6 * (u * (p2[0] - 2 * p1[0] + p0[0]) + t * (p3[0] - 2 * p2[0] + p1[0]));
+  const ddy = 6 * (u * (p2[1] - 2 * p1[1] + p0[1]) + t * (p3[1] - 2 * p2[1] + p1[1]));
+
+  const speed = Math.hypot(dx, dy);
+  if (speed < 1e-9) return 0;
+  const k = (dx * ddy - dy * ddx) / (speed * speed * speed);
+  return k === 0 ? 0 : k;   // no -0 on straight paths, packs round-trip through JSON
+}
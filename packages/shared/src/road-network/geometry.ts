@@ -0,0 +1,350 @@
+import type { Vec2, TurnType } from './types';
+
+/**
+ * Axis-aligned bounding box in network coordinates
+ */
+export interface BBox {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/**
+ * Euclidean distance between two points
+ */
+export function distance(a: Vec2, b: Vec2): number {
+  return Math.sqrt((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2);
+}
+
+/**
+ * Closest point on line segment, with its parameter t in 0..1
+ */
+export function closestPointOnSegment(point: Vec2, segStart: Vec2, segEnd: Vec2): { point: Vec2; t: number } {
+  const [px, py] = point;
+  const [x1, y1] = segStart;
+  const [x2, y2] = segEnd;
+
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  const lengthSq = dx * dx + dy * dy;
+
+  if (lengthSq === 0) {
+    return { point: [x1, y1], t: 0 };
+  }
+
+  const t = Math.max(0, Math.min(1, ((px - x1) * dx + (py - y1) * dy) / lengthSq));
+  return { point: [x1 + t * dx, y1 + t * dy], t };
+}
+
+/**
+ * Distance from point to line segment
+ */
+export function distanceToSegment(point: Vec2, segStart: Vec2, segEnd: Vec2): number {
+  return distance(point, closestPointOnSegment(point, segStart, segEnd).point);
+}
+
+/**
+ * Distance from point to polyline
+ */
+export function distanceToPolyline(point: Vec2, polyline: Vec2[]): number {
+  if (polyline.length === 0) return Infinity;
+  if (polyline.length === 1) return distance(point, polyline[0]);
+
+  let minDistance = Infinity;
+  for (let i = 0; i < polyline.length - 1; i++) {
+    minDistance = Math.min(minDistance, distanceToSegment(point, polyline[i], polyline[i + 1]));
+  }
+
+  return minDistance;
+}
+
+/**
+ * Total length of polyline
+ */
+export function polylineLength(polyline: Vec2[]): number {
+  let length = 0;
+  for (let i = 0; i < polyline.length - 1; i++) {
+    length += distance(polyline[i], polyline[i + 1]);
+  }
+  return length;
+}
+
+/**
+ * Closest point on polyline with its distance along the polyline
+ */
+export function projectOntoPolyline(point: Vec2, polyline: Vec2[]): {
+  point: Vec2;
+  distance: number;         // from query point
+  along: number;            // arc length from polyline start
+  segmentIndex: number;
+} {
+  if (polyline.length < 2) {
+    const only = polyline[0] ?? point;
+    return { point: only, distance: distance(point, only), along: 0, segmentIndex: 0 };
+  }
+
+  let best = { point: polyline[0], distance: Infinity, along: 0, segmentIndex: 0 };
+  let walked = 0;
+
+  for (let i = 0; i < polyline.length - 1; i++) {
+    const segLength = distance(polyline[i], polyline[i + 1]);
+    const closest = closestPointOnSegment(point, polyline[i], polyline[i + 1]);
+    const d = distance(point, closest.point);
+
+    if (d < best.distance) {
+      best = { point: closest.point, distance: d, along: walked + closest.t * segLength, segmentIndex: i };
+    }
+    walked += segLength;
+  }
+
+  return best;
+}
+
+/**
+ * Point at arc length along polyline (clamped to its ends)
+ */
+export function pointAlongPolyline(polyline: Vec2[], along: number): Vec2 {
+  if (polyline.length === 0) return [0, 0];
+  if (along <= 0) return polyline[0];
+
+  let walked = 0;
+  for (let i = 0; i < polyline.length - 1; i++) {
+    const segLength = distance(polyline[i], polyline[i + 1]);
+    if (walked + segLength >= along && segLength > 0) {
+      const t = (along - walked) / segLength;
+      return [
+        polyline[i][0] + (polyline[i + 1][0] - polyline[i][0]) * t,
+        polyline[i][1] + (polyline[i + 1][1] - polyline[i][1]) * t,
+      ];
+    }
+    walked += segLength;
+  }
+
+  return polyline[polyline.length - 1];
+}
+
+/**
+ * Part of polyline between two arc lengths
+ */
+export function slicePolyline(polyline: Vec2[], from: number, to: number): Vec2[] {
+  if (polyline.length < 2 || to <= from) return [pointAlongPolyline(polyline, from)];
+
+  const result: Vec2[] = [pointAlongPolyline(polyline, from)];
+  let walked = 0;
+
+  for (let i = 0; i < polyline.length - 1; i++) {
+    walked += distance(polyline[i], polyline[i + 1]);
+    if (walked > from && walked < to) {
+      result.push(polyline[i + 1]);
+    }
+  }
+
+  result.push(pointAlongPolyline(polyline, to));
+  return result;
+}
+
+/**
+ * Intersection point of two segments with parameters along each (0..1), null if disjoint
+ *
+ * Collinear overlapping segments report the first shared point along segment a.
+ */
+export function segmentIntersection(
+  a1: Vec2,
+  a2: Vec2,
+  b1: Vec2,
+  b2: Vec2
+): { point: Vec2; t: number; u: number } | null {
+  const rx = a2[0] - a1[0];
+  const ry = a2[1] - a1[1];
+  const sx = b2[0] - b1[0];
+  const sy = b2[1] - b1[1];
+
+  const qx = b1[0] - a1[0];
+  const qy = b1[1] - a1[1];
+  const denom = rx * sy - ry * sx;
+  const eps = 1e-9;
+
+  if (Math.abs(denom) < 1e-12) {
+    const lengthSqA = rx * rx + ry * ry;
+    const lengthSqB = sx * sx + sy * sy;
+    if (Math.abs(qx * ry - qy * rx) > 1e-9 || lengthSqA === 0 || lengthSqB === 0) return null;
+
+    // Collinear - overlap of b projected onto a
+    const t0 = (qx * rx + qy * ry) / lengthSqA;
+    const t1 = t0 + (sx * rx + sy * ry) / lengthSqA;
+    const t = Math.max(0, Math.min(t0, t1));
+    if (t > Math.min(1, Math.max(t0, t1)) + eps) return null;
+
+    const point: Vec2 = [a1[0] + t * rx, a1[1] + t * ry];
+    const u = ((point[0] - b1[0]) * sx + (point[1] - b1[1]) * sy) / lengthSqB;
+    return { point, t, u };
+  }
+
+  const t = (qx * sy - qy * sx) / denom;
+  const u = (qx * ry - qy * rx) / denom;
+
+  if (t < -eps || t > 1 + eps || u < -eps || u > 1 + eps) return null;
+
+  return { point: [a1[0] + t * rx, a1[1] + t * ry], t, u };
+}
+
+/**
+ * First crossing of two polylines (ordered along the first), with arc lengths on both
+ *
+ * With ignoreTouchingEnds, a contact where an end point of one polyline meets an
+ * end point of the other is not counted (e.g. paths starting at a shared corner).
+ */
+export function polylineIntersection(
+  a: Vec2[],
+  b: Vec2[],
+  options: { ignoreTouchingEnds?: boolean } = {}
+): { point: Vec2; alongA: number; alongB: number } | null {
+  const eps = 1e-9;
+  const atEnd = (index: number, param: number, poly: Vec2[]) =>
+    (index === 0 && param <= eps) || (index === poly.length - 2 && param >= 1 - eps);
+  let walkedA = 0;
+
+  for (let i = 0; i < a.length - 1; i++) {
+    const lengthA = distance(a[i], a[i + 1]);
+    let best: { point: Vec2; alongA: number; alongB: number } | null = null;
+    let walkedB = 0;
+
+    for (let j = 0; j < b.length - 1; j++) {
+      const lengthB = distance(b[j], b[j + 1]);
+      const hit = segmentIntersection(a[i], a[i + 1], b[j], b[j + 1]);
+      const touching = hit && options.ignoreTouchingEnds && atEnd(i, hit.t, a) && atEnd(j, hit.u, b);
+
+      if (hit && !touching && (!best || walkedA + hit.t * lengthA < best.alongA)) {
+        best = { point: hit.point, alongA: walkedA + hit.t * lengthA, alongB: walkedB + hit.u * lengthB };
+      }
+      walkedB += lengthB;
+    }
+
+    if (best) return best;
+    walkedA += lengthA;
+  }
+
+  return null;
+}
+
+/**
+ * Arc lengths where polyline crosses the boundary of a closed polygon, ascending
+ */
+export function polygonCrossings(polyline: Vec2[], polygon: Vec2[]): number[] {
+  const crossings: number[] = [];
+  let walked = 0;
+
+  for (let i = 0; i < polyline.length - 1; i++) {
+    const segLength = distance(polyline[i], polyline[i + 1]);
+    for (let j = 0; j < polygon.length; j++) {
+      const hit = segmentIntersection(polyline[i], polyline[i + 1], polygon[j], polygon[(j + 1) % polygon.length]);
+      if (hit) crossings.push(walked + hit.t * segLength);
+    }
+    walked += segLength;
+  }
+
+  return crossings.sort((a, b) => a - b);
+}
+
+/**
+ * Point inside polygon (even-odd rule, boundary counts as either side)
+ */
+export function pointInPolygon(point: Vec2, polygon: Vec2[]): boolean {
+  const [x, y] = point;
+  let inside = false;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+/**
+ * Wrap angle to -π..π
+ */
+export function normalizeAngle(angle: number): number {
+  while (angle > Math.PI) angle -= 2 * Math.PI;
+  while (angle < -Math.PI) angle += 2 * Math.PI;
+  return angle;
+}
+
+/**
+ * Heading of the first polyline segment (radians, counter-clockwise from east)
+ */
+export function startHeading(polyline: Vec2[]): number {
+  const [a, b] = polyline;
+  if (!a || !b) return 0;
+  return Math.atan2(b[1] - a[1], b[0] - a[0]);
+}
+
+/**
+ * Heading of the last polyline segment (radians, counter-clockwise from east)
+ */
+export function endHeading(polyline: Vec2[]): number {
+  const a = polyline[polyline.length - 2];
+  const b = polyline[polyline.length - 1];
+  if (!a || !b) return 0;
+  return Math.atan2(b[1] - a[1], b[0] - a[0]);
+}
+
+/**
+ * Signed turn angle from end of one polyline to start of the next (left positive)
+ */
+export function turnAngleBetween(from: Vec2[], to: Vec2[]): number {
+  return normalizeAngle(startHeading(to) - endHeading(from));
+}
+
+/**
+ * Classify signed turn angle, same thresholds as OSM turn:lanes matching
+ */
+export function classifyTurn(turnAngle: number): TurnType {
+  if (turnAngle > Math.PI / 6) return 'left';
+  if (turnAngle > Math.PI / 12) return 'slight_left';
+  if (turnAngle < -Math.PI / 6) return 'right';
+  if (turnAngle < -Math.PI / 12) return 'slight_right';
+  return 'through';
+}
+
+/**
+ * Bounding box of a set of points
+ */
+export function bboxOfPoints(points: Vec2[]): BBox {
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+
+  for (const [x, y] of points) {
+    minX = Math.min(minX, x);
+    minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x);
+    maxY = Math.max(maxY, y);
+  }
+
+  return { minX, minY, maxX, maxY };
+}
+
+/**
+ * Square bounding box around a point
+ */
+export function bboxAround(center: Vec2, radius: number): BBox {
+  return {
+    minX: center[0] - radius,
+    minY: center[1] - radius,
+    maxX: center[0] + radius,
+    maxY: center[1] + radius,
+  };
+}
+
+/**
+ * Check if two bounding boxes overlap
+ */
+export function bboxIntersects(a: BBox, b: BBox): boolean {
+  return a.minX <= b.maxX && a.maxX >= b.minX && a.minY <= b.maxY && a.maxY >= b.minY;
+}
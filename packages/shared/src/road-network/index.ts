@@ -1,12 +1,70 @@
 // Road network semantic model exports
 export * from './types';
-export { RoadNetworkManager } from './RoadNetwork';
+export { RoadNetworkManager, type RoadNetworkManagerOptions, type LaneSuccessor } from './RoadNetwork';
+export { SpatialGrid } from './spatial-index';
+export { LocalProjection, type NetworkProjection } from './projection';
+export { RoutePlanner, type Route, type RouteOptions, type RouteStep } from './route-planner';
+export { MOVING_SPEED, mustStop, stopLineAlong } from './stopping';
+export { WalkPlanner, type Walk, type WalkLeg } from './walk-planner';
+export {
+  buildNavigationRoute,
+  routeProgress,
+  nextManeuver,
+  nextSignal,
+  type NavigationRoute,
+  type RouteSignal,
+  type Maneuver,
+  type ManeuverType,
+} from './navigation';
+export * from './geometry';
+export {
+  bezierBetweenPoses,
+  curveSpeedAdvice,
+  minTurningRadius,
+  DEFAULT_WHEELBASE,
+  DEFAULT_MAX_STEER_ANGLE,
+  type SampledCurve,
+} from './curves';
+export {
+  createNetworkPack,
+  verifyNetworkPack,
+  parseNetworkPack,
+  loadNetworkPack,
+  NetworkPackError,
+  NETWORK_PACK_FORMAT,
+  NETWORK_PACK_VERSION,
+  type NetworkPack,
+} from './pack';
+export {
+  SignalController,
+  signalGroupIds,
+  DEFAULT_SIGNAL_TIMING,
+  type SignalState,
+  type SignalTiming,
+  type SignalGroup,
+  type SignalPhase,
+  type SignalPlan,
+  type SignalGroupState,
+  type SignalControllerOptions,
+} from './signals';
 
 // OSM processing pipeline
 export { OverpassClient } from './osm/overpass';
+export {
+  OverpassDataSource,
+  OverpassJSONFileSource,
+  OSMXMLFileSource,
+  osmFileSource,
+  clipToBounds,
+  type OSMDataSource,
+  type OSMBounds,
+  type TextFileReader,
+} from './osm/data-source';
+export { parseOSMXML } from './osm/osm-xml';
 export { LaneBuilder } from './osm/lane-builder';
 export { IntersectionBuilder } from './osm/intersection-builder';
-export { NetworkBuilder } from './osm/network-builder';
+export { StopLineBuilder, type StopLineOptions } from './osm/stop-line-builder';
+export { NetworkBuilder, type NetworkBuilderOptions } from './osm/network-builder';
 
 // Re-export key types for convenience
 export type {
@@ -0,0 +1,232 @@
+import type { RoadNetwork, Lane, LaneConnector, Intersection, ControlType, Vec2 } from './types';
+import type { Route } from './route-planner';
+import {
+  classifyTurn,
+  polylineLength,
+  projectOntoPolyline,
+  slicePolyline,
+  turnAngleBetween,
+} from './geometry';
+
+export type ManeuverType =
+  | 'depart'
+  | 'turn_left'
+  | 'turn_right'
+  | 'slight_left'
+  | 'slight_right'
+  | 'straight'
+  | 'roundabout'
+  | 'arrive';
+
+/**
+ * Single instruction along a planned route
+ */
+export interface Maneuver {
+  type: ManeuverType;
+  at: number;               // metres along route where the manoeuvre starts
+  position: Vec2;
+  ontoLaneId?: string;
+  ontoName?: string;        // street name of the target lane
+  connectorId?: string;
+  intersectionId?: string;
+  control?: ControlType;    // junction control as seen from the route's approach
+  exitNumber?: number;      // roundabout exit, 1-based
+}
+
+/**
+ * Signalised junction passed along a route
+ */
+export interface RouteSignal {
+  at: number;               // metres along route to the stop position
+  position: Vec2;
+  connectorId: string;      // movement whose signal group applies
+  intersectionId: string;
+}
+
+/**
+ * Route geometry with manoeuvres for turn-by-turn guidance
+ */
+export interface NavigationRoute {
+  polyline: Vec2[];
+  length: number;           // metres
+  lanes: string[];
+  maneuvers: Maneuver[];
+  signals: RouteSignal[];   // in driving order
+}
+
+const MAX_EXIT_ANGLE = Math.PI * 0.75; // outgoing lanes sharper than this are U-turns, not exits
+
+/**
+ * Build route polyline and manoeuvre list from planner output
+ */
+export function buildNavigationRoute(route: Route, network: RoadNetwork): NavigationRoute {
+  const intersectionByConnector = new Map<string, Intersection>();
+  for (const intersection of Object.values(network.intersections)) {
+    intersection.connectors.forEach(id => intersectionByConnector.set(id, intersection));
+  }
+
+  const polyline: Vec2[] = [];
+  const maneuvers: Maneuver[] = [];
+  const signals: RouteSignal[] = [];
+  const append = (points: Vec2[]) => {
+    for (const p of points) {
+      const last = polyline[polyline.length - 1];
+      if (!last || last[0] !== p[0] || last[1] !== p[1]) polyline.push(p);
+    }
+  };
+
+  // Roundabout entry waiting for its exit to be known
+  let roundabout: { maneuver: Maneuver; exits: number } | null = null;
+  let firstLane = true;
+  let prevLane: Lane | null = null;
+
+  route.steps.forEach((step, i) => {
+    if (step.kind === 'lane') {
+      const lane = network.lanes[step.id];
+      const length = polylineLength(lane.poly);
+      const from = firstLane ? route.startOffset : 0;
+      const to = i === route.steps.length - 1 ? route.endOffset : length;
+
+      append(slicePolyline(lane.poly, from, to));
+      if (firstLane) {
+        maneuvers.push({ type: 'depart', at: 0, position: polyline[0], ontoLaneId: lane.id, ontoName: lane.name });
+        firstLane = false;
+      }
+
+      prevLane = lane;
+      return;
+    }
+
+    const connector = network.laneConnectors[step.id];
+    const fromLane = prevLane!;
+    const toLane = network.lanes[connector.toLane];
+    const intersection = intersectionByConnector.get(connector.id);
+    const at = polylineLength(polyline);
+    const position = polyline[polyline.length - 1];
+
+    append(connector.path);
+
+    if (intersection?.control === 'signals') {
+      signals.push({ at, position, connectorId: connector.id, intersectionId: intersection.id });
+    }
+
+    const base = {
+      at,
+      position,
+      ontoLaneId: toLane.id,
+      ontoName: toLane.name,
+      connectorId: connector.id,
+      intersectionId: intersection?.id,
+      control: intersection && approachControl(intersection, fromLane),
+    };
+
+    // Roundabout mapped as a ring of junction=roundabout ways
+    if (!fromLane.roundabout && toLane.roundabout) {
+      roundabout = { maneuver: { ...base, type: 'roundabout' }, exits: 0 };
+      maneuvers.push(roundabout.maneuver);
+      return;
+    }
+    if (fromLane.roundabout && roundabout) {
+      const hasExit = intersection?.outgoing.some(id => !network.lanes[id]?.roundabout) ?? false;
+      if (hasExit) roundabout.exits++;
+      if (!toLane.roundabout) {
+        roundabout.maneuver.exitNumber = roundabout.exits;
+        roundabout.maneuver.ontoLaneId = toLane.id;
+        roundabout.maneuver.ontoName = toLane.name;
+        roundabout = null;
+      }
+      return;
+    }
+
+    // Roundabout modelled as a single junction node
+    if (intersection?.control === 'roundabout') {
+      maneuvers.push({ ...base, type: 'roundabout', exitNumber: nodeRoundaboutExit(fromLane, toLane, intersection, network) });
+      return;
+    }
+
+    const turn = classifyTurn(turnAngleBetween(fromLane.poly, toLane.poly));
+    if (turn === 'through') {
+      // Announce straight only where the driver actually has a choice
+      if (hasAlternatives(fromLane, connector, network, intersection)) {
+        maneuvers.push({ ...base, type: 'straight' });
+      }
+      return;
+    }
+
+    maneuvers.push({
+      ...base,
+      type: turn === 'left' ? 'turn_left'
+        : turn === 'right' ? 'turn_right'
+        : turn === 'slight_left' ? 'slight_left'
+        : 'slight_right',
+    });
+  });
+
+  const length = polylineLength(polyline);
+  maneuvers.push({ type: 'arrive', at: length, position: polyline[polyline.length - 1] });
+
+  return { polyline, length, lanes: route.lanes, maneuvers, signals };
+}
+
+/**
+ * Current distance along route and distance off it
+ */
+export function routeProgress(nav: NavigationRoute, position: Vec2): { along: number; offRoute: number } {
+  const projection = projectOntoPolyline(position, nav.polyline);
+  return { along: projection.along, offRoute: projection.distance };
+}
+
+/**
+ * Next manoeuvre ahead of given progress
+ */
+export function nextManeuver(nav: NavigationRoute, along: number): { maneuver: Maneuver; distance: number } | null {
+  const maneuver = nav.maneuvers.find(m => m.type !== 'depart' && m.at >= along);
+  return maneuver ? { maneuver, distance: maneuver.at - along } : null;
+}
+
+/**
+ * Next signalised junction ahead of given progress
+ */
+export function nextSignal(nav: NavigationRoute, along: number): { signal: RouteSignal; distance: number } | null {
+  const signal = nav.signals.find(s => s.at >= along);
+  return signal ? { signal, distance: signal.at - along } : null;
+}
+
+/**
+ * Exit count at a single-node roundabout, exits ordered counter-clockwise from the right
+ */
+function nodeRoundaboutExit(fromLane: Lane, toLane: Lane, intersection: Intersection, network: RoadNetwork): number {
+  const exits = intersection.outgoing
+    .map(id => network.lanes[id])
+    .filter(lane => lane && Math.abs(turnAngleBetween(fromLane.poly, lane.poly)) <= MAX_EXIT_ANGLE)
+    .sort((a, b) => turnAngleBetween(fromLane.poly, a.poly) - turnAngleBetween(fromLane.poly, b.poly));
+
+  return exits.findIndex(lane => lane.id === toLane.id) + 1 || 1;
+}
+
+/**
+ * Control of a main-road junction differs per approach: priority on the main
+ * road, the side road's own sign elsewhere
+ */
+function approachControl(intersection: Intersection, fromLane: Lane): ControlType {
+  if (!intersection.mainRoad || intersection.control === 'signals') return intersection.control;
+  if (intersection.mainRoad.includes(fromLane.id)) return 'priority';
+  return fromLane.yieldSign ?? 'give_way';
+}
+
+/**
+ * Whether the incoming lane can also turn off somewhere else
+ */
+function hasAlternatives(
+  fromLane: Lane,
+  connector: LaneConnector,
+  network: RoadNetwork,
+  intersection: Intersection | undefined
+): boolean {
+  if (!intersection) return false;
+
+  return intersection.connectors
+    .map(id => network.laneConnectors[id])
+    .filter(c => c && c.allowed && c.fromLane === fromLane.id && c.toLane !== connector.toLane)
+    .some(c => classifyTurn(turnAngleBetween(fromLane.poly, network.lanes[c.toLane].poly)) !== 'through');
+}
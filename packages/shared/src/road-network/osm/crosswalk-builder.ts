@@ -0,0 +1,112 @@
+import type { OSMWay, OSMNode } from './overpass';
+import type { LocalProjection } from '../projection';
+import type { Lane, Crosswalk, Vec2 } from '../types';
+import { bboxOfPoints, polylineIntersection, projectOntoPolyline } from '../geometry';
+
+const UNMARKED = ['unmarked', 'no', 'informal'];
+
+/**
+ * Crosswalks from OSM crossing nodes
+ *
+ * A crossing node sits on the centreline of the way it crosses. The crosswalk
+ * line runs perpendicular to that way from curb to curb, its extent taken from
+ * the way's lanes as LaneBuilder offset them. Nodes off any car way stay point
+ * crosswalks.
+ */
+export class CrosswalkBuilder {
+
+  /**
+   * Crosswalk per highway=crossing node
+   */
+  static buildCrosswalks(
+    crossingNodes: OSMNode[],
+    roadWays: OSMWay[],
+    nodes: Map<number, OSMNode>,
+    lanes: Lane[],
+    projection: LocalProjection
+  ): Crosswalk[] {
+    const lanesByWay = new Map<number, Lane[]>();
+    const boxes = lanes.map(lane => ({ lane, box: bboxOfPoints(lane.poly) }));
+    for (const lane of lanes) {
+      if (lane.wayId === undefined) continue;
+      if (!lanesByWay.has(lane.wayId)) lanesByWay.set(lane.wayId, []);
+      lanesByWay.get(lane.wayId)!.push(lane);
+    }
+
+    return crossingNodes.map(node => {
+      const p = projection.fromLonLat(node.lon, node.lat);
+      const segment = this.spanCarriageway(node.id, p, roadWays, nodes, lanesByWay, projection) ?? [p, [...p] as Vec2];
+      const span = bboxOfPoints(segment);
+      const lanesCrossed = boxes
+        .filter(({ box }) => box.minX <= span.maxX && box.maxX >= span.minX && box.minY <= span.maxY && box.maxY >= span.minY)
+        .filter(({ lane }) => polylineIntersection(segment, lane.poly) !== null)
+        .map(({ lane }) => lane.id);
+
+      return {
+        id: `crosswalk_${node.id}`,
+        segment,
+        lanes: lanesCrossed,
+        ...this.crossingControl(node.tags ?? {}),
+      };
+    });
+  }
+
+  /**
+   * Signals and who gives way, from crossing=* (crossing_ref=zebra marks a zebra too)
+   */
+  static crossingControl(tags: Record<string, string>): Pick<Crosswalk, 'hasSignals' | 'priority'> {
+    if (tags.crossing === 'traffic_signals' || tags['crossing:signals'] === 'yes') {
+      return { hasSignals: true, priority: 'signal' };
+    }
+    // Marked crossing (zebra, uncontrolled): drivers let pedestrians cross
+    if (tags.crossing_ref === 'zebra' || !UNMARKED.includes(tags.crossing)) {
+      return { hasSignals: false, priority: 'ped_over_cars' };
+    }
+    return { hasSignals: false, priority: 'cars_over_ped' };
+  }
+
+  /**
+   * Line through p across all lanes of the first car way with the node, left curb to right curb
+   */
+  private static spanCarriageway(
+    nodeId: number,
+    p: Vec2,
+    roadWays: OSMWay[],
+    nodes: Map<number, OSMNode>,
+    lanesByWay: Map<number, Lane[]>,
+    projection: LocalProjection
+  ): [Vec2, Vec2] | null {
+    for (const way of roadWays) {
+      const index = way.nodes.indexOf(nodeId);
+      const wayLanes = lanesByWay.get(way.id);
+      if (index < 0 || !wayLanes) continue;
+
+      // Way direction at the node, across the neighbouring nodes
+      const before = nodes.get(way.nodes[Math.max(index - 1, 0)]);
+      const after = nodes.get(way.nodes[Math.min(index + 1, way.nodes.length - 1)]);
+      if (!before || !after) continue;
+      const a = projection.fromLonLat(before.lon, before.lat);
+      const b = projection.fromLonLat(after.lon, after.lat);
+      const length = Math.hypot(b[0] - a[0], b[1] - a[1]);
+      if (length < 1e-6) continue;
+      const right: Vec2 = [(b[1] - a[1]) / length, -(b[0] - a[0]) / length];
+
+      // Lane edges as signed offsets to the right of the centreline
+      let leftEdge = Infinity;
+      let rightEdge = -Infinity;
+      for (const lane of wayLanes) {
+        const { point } = projectOntoPolyline(p, lane.poly);
+        const offset = (point[0] - p[0]) * right[0] + (point[1] - p[1]) * right[1];
+        leftEdge = Math.min(leftEdge, offset - lane.width / 2);
+        rightEdge = Math.max(rightEdge, offset + lane.width / 2);
+      }
+
+      return [
+        [p[0] + right[0] * leftEdge, p[1] + right[1] * leftEdge],
+        [p[0] + right[0] * rightEdge, p[1] + right[1] * rightEdge],
+      ];
+    }
+
+    return null;
+  }
+}
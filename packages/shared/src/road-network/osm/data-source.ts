@@ -0,0 +1,118 @@
+import { OverpassClient, type OSMElement, type OSMNode, type OverpassResponse } from './overpass';
+import { parseOSMXML } from './osm-xml';
+
+/**
+ * Geographic query box in degrees
+ */
+export interface OSMBounds {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+}
+
+/**
+ * Anything that can provide raw OSM data for NetworkBuilder
+ */
+export interface OSMDataSource {
+  readonly description: string;
+  load(bounds?: OSMBounds): Promise<OverpassResponse>;
+}
+
+/**
+ * Reads a text file - shared code runs in the browser too, so Node fs is passed in
+ * (e.g. `path => readFile(path, 'utf8')` from fs/promises)
+ */
+export type TextFileReader = (path: string) => Promise<string>;
+
+/**
+ * Live Overpass API server
+ */
+export class OverpassDataSource implements OSMDataSource {
+  readonly description = 'Overpass API';
+
+  constructor(private client = new OverpassClient()) {}
+
+  load(bounds?: OSMBounds): Promise<OverpassResponse> {
+    return this.client.fetchPragueRoadNetwork(bounds);
+  }
+}
+
+/**
+ * Saved Overpass JSON response (e.g. from build:pack --save-osm)
+ */
+export class OverpassJSONFileSource implements OSMDataSource {
+  readonly description: string;
+
+  constructor(private path: string, private readFile: TextFileReader) {
+    this.description = `Overpass JSON ${path}`;
+  }
+
+  async load(bounds?: OSMBounds): Promise<OverpassResponse> {
+    const data = JSON.parse(await this.readFile(this.path)) as OverpassResponse;
+    if (!Array.isArray(data?.elements)) {
+      throw new Error(`${this.path} is not an Overpass JSON response`);
+    }
+    return bounds ? clipToBounds(data, bounds) : data;
+  }
+}
+
+/**
+ * Raw OSM XML file (.osm from JOSM export or osmium extract of a Geofabrik download)
+ */
+export class OSMXMLFileSource implements OSMDataSource {
+  readonly description: string;
+
+  constructor(private path: string, private readFile: TextFileReader) {
+    this.description = `OSM XML ${path}`;
+  }
+
+  async load(bounds?: OSMBounds): Promise<OverpassResponse> {
+    const data = parseOSMXML(await this.readFile(this.path));
+    return bounds ? clipToBounds(data, bounds) : data;
+  }
+}
+
+/**
+ * Pick file source by extension (.osm / .xml -> XML, anything else -> Overpass JSON)
+ */
+export function osmFileSource(path: string, readFile: TextFileReader): OSMDataSource {
+  return /\.(osm|xml)$/i.test(path) ? new OSMXMLFileSource(path, readFile) : new OverpassJSONFileSource(path, readFile);
+}
+
+/**
+ * Keep nodes inside bounds and ways touching them, like an Overpass bbox query
+ *
+ * Ways keep all their nodes so that geometry crossing the boundary stays whole.
+ * Relations are kept when any member survives.
+ */
+export function clipToBounds(data: OverpassResponse, bounds: OSMBounds): OverpassResponse {
+  const inside = (node: OSMNode) =>
+    node.lat >= bounds.south && node.lat <= bounds.north && node.lon >= bounds.west && node.lon <= bounds.east;
+
+  const insideNodes = new Set<number>();
+  for (const element of data.elements) {
+    if (element.type === 'node' && inside(element)) insideNodes.add(element.id);
+  }
+
+  const keptWays = new Set<number>();
+  const keptNodes = new Set(insideNodes);
+  for (const element of data.elements) {
+    if (element.type === 'way' && element.nodes.some(id => insideNodes.has(id))) {
+      keptWays.add(element.id);
+      element.nodes.forEach(id => keptNodes.add(id));
+    }
+  }
+
+  const elements = data.elements.filter((element: OSMElement) => {
+    switch (element.type) {
+      case 'node': return keptNodes.has(element.id);
+      case 'way': return keptWays.has(element.id);
+      case 'relation': return element.members.some(m =>
+        (m.type === 'node' && keptNodes.has(m.ref)) || (m.type === 'way' && keptWays.has(m.ref))
+      );
+    }
+  });
+
+  return { ...data, elements };
+}
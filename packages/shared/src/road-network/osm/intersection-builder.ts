@@ -1,5 +1,53 @@
 import type { OSMNode, OSMWay } from './overpass';
-import type { Lane, LaneConnector, Intersection, RightOfWayRule, ControlType, Vec2 } from '../types';
+import type {
+  Lane,
+  LaneConnector,
+  Intersection,
+  RightOfWayRule,
+  ConnectorConflict,
+  ControlType,
+  Vec2,
+} from '../types';
+import type { LocalProjection } from '../projection';
+import { bezierBetweenPoses, minTurningRadius, type SampledCurve } from '../curves';
+import { signalGroupIds } from '../signals';
+import {
+  classifyTurn,
+  distance,
+  endHeading,
+  normalizeAngle,
+  pointInPolygon,
+  polygonCrossings,
+  polylineIntersection,
+  polylineLength,
+  slicePolyline,
+  startHeading,
+  turnAngleBetween,
+} from '../geometry';
+
+type Priority = RightOfWayRule['hasPriority'];
+
+// Relative position of two approaches, from counter-clockwise angle between their arms
+const SAME_ARM_TOLERANCE = Math.PI / 12;   // 15°, parallel lanes of one approach
+const OPPOSITE_TOLERANCE = Math.PI / 4;    // 45° around straight across
+const SAME_POINT = 1e-6;                   // m, identical path vertices
+
+// Intersection polygon
+const CORNER_MARGIN = 1.0;                 // m beyond where neighbouring road edges meet
+const MAX_SETBACK = 30;                    // m, caps corners of nearly parallel arms
+const MIN_TRIMMED_LENGTH = 2.0;            // m of lane kept outside the polygon
+
+/**
+ * One road arm of a junction, edges as offsets along the arm's left normal
+ */
+interface JunctionArm {
+  bearing: number;          // outward direction, CCW from east in [0, 2π)
+  u: Vec2;                  // outward unit vector
+  n: Vec2;                  // u rotated 90° counter-clockwise
+  right: number;            // m, clockwise road edge
+  left: number;             // m, counter-clockwise road edge
+  setback: number;          // m from center where the arm enters the polygon
+}
 
 /**
  * Intersection and connector construction
@@ -40,50 +88,190 @@ export class IntersectionBuilder {
     intersectionNode: OSMNode,
     incomingLanes: Lane[],
     outgoingLanes: Lane[],
-    nodes: Map<number, OSMNode>
+    nodes: Map<number, OSMNode>,
+    projection: LocalProjection
   ): { intersection: Intersection; connectors: LaneConnector[] } {
     
-    const connectors = this.generateConnectors(incomingLanes, outgoingLanes, intersectionNode);
-    const control = this.determineControlType(intersectionNode, nodes);
-    const rules = this.generateRightOfWayRules(connectors, control);
+    const centerPoint = projection.fromLonLat(intersectionNode.lon, intersectionNode.lat);
+    const polygon = this.buildPolygon(centerPoint, incomingLanes, outgoingLanes);
+    if (polygon) this.trimLanes(polygon, incomingLanes, outgoingLanes);
+    
+    const connectors = this.generateConnectors(incomingLanes, outgoingLanes, centerPoint);
+    const mainRoad = this.findMainRoad(incomingLanes, outgoingLanes);
+    const control = this.determineControlType(intersectionNode, nodes, incomingLanes, mainRoad);
+    const lanes = new Map([...incomingLanes, ...outgoingLanes].map(lane => [lane.id, lane]));
+    const conflicts = this.detectConflicts(connectors);
+    const rules = this.generateRightOfWayRules(connectors, conflicts, control, lanes, mainRoad);
     
     const intersection: Intersection = {
       id: `intersection_${intersectionNode.id}`,
+      center: centerPoint,
+      ...(polygon && { polygon }),
       incoming: incomingLanes.map(l => l.id),
       outgoing: outgoingLanes.map(l => l.id),
       connectors: connectors.map(c => c.id),
       control,
+      ...(mainRoad && { mainRoad: [...mainRoad] }),
       rules,
+      conflicts,
     };
     
+    // One signal group per approach, read back by SignalController (lanes are shared with the network)
+    if (control === 'signals') {
+      const groups = signalGroupIds(intersection, incomingLanes);
+      incomingLanes.forEach(lane => { lane.signalGroupId = groups.get(lane.id); });
+    }
+    
     return { intersection, connectors };
   }
   
+  /**
+   * Junction area bounded by the road edges of its arms
+   *
+   * Each arm is cut square at the distance where its edges meet the edges of
+   * the neighbouring arms, so the polygon covers the area shared by crossing
+   * roads. Null for fewer than two arms.
+   */
+  private static buildPolygon(center: Vec2, incomingLanes: Lane[], outgoingLanes: Lane[]): Vec2[] | null {
+    const arms = this.collectArms(center, incomingLanes, outgoingLanes);
+    if (arms.length < 2) return null;
+    
+    arms.forEach((arm, i) => {
+      const next = arms[(i + 1) % arms.length];
+      const cross = arm.u[0] * next.u[1] - arm.u[1] * next.u[0];
+      // Nearly straight on, or the way round the outside of a reflex angle
+      if (cross < Math.sin(SAME_ARM_TOLERANCE)) return;
+      
+      // arm's left edge meets next arm's right edge at center + n·left + t·u = center + n'·right' + s·u'
+      const r: Vec2 = [
+        next.n[0] * next.right - arm.n[0] * arm.left,
+        next.n[1] * next.right - arm.n[1] * arm.left,
+      ];
+      const t = (r[0] * next.u[1] - r[1] * next.u[0]) / cross;
+      const s = (r[0] * arm.u[1] - r[1] * arm.u[0]) / cross;
+      if (t <= 0 || s <= 0) return;
+      
+      arm.setback = Math.min(MAX_SETBACK, Math.max(arm.setback, t + CORNER_MARGIN));
+      next.setback = Math.min(MAX_SETBACK, Math.max(next.setback, s + CORNER_MARGIN));
+    });
+    
+    // Counter-clockwise: right then left corner of each arm
+    const polygon: Vec2[] = [];
+    for (const arm of arms) {
+      for (const offset of [arm.right, arm.left]) {
+        polygon.push([
+          center[0] + arm.u[0] * arm.setback + arm.n[0] * offset,
+          center[1] + arm.u[1] * arm.setback + arm.n[1] * offset,
+        ]);
+      }
+    }
+    
+    return polygon;
+  }
+  
+  /**
+   * Lane ends grouped into arms by OSM way and direction, sorted counter-clockwise
+   */
+  private static collectArms(center: Vec2, incomingLanes: Lane[], outgoingLanes: Lane[]): JunctionArm[] {
+    const ends = [
+      ...incomingLanes.filter(l => l.poly.length >= 2).map(lane => ({
+        lane, point: lane.poly[lane.poly.length - 1], heading: endHeading(lane.poly) + Math.PI,
+      })),
+      ...outgoingLanes.filter(l => l.poly.length >= 2).map(lane => ({
+        lane, point: lane.poly[0], heading: startHeading(lane.poly),
+      })),
+    ];
+    
+    const groups: { key: string; heading: number; ends: typeof ends }[] = [];
+    for (const end of ends) {
+      const key = end.lane.wayId !== undefined ? `way_${end.lane.wayId}` : '';
+      const group = groups.find(g =>
+        g.key === key && Math.abs(normalizeAngle(end.heading - g.heading)) <= SAME_ARM_TOLERANCE
+      );
+      if (group) group.ends.push(end);
+      else groups.push({ key, heading: end.heading, ends: [end] });
+    }
+    
+    const arms = groups.map(group => {
+      // Mean outward direction of the arm's lanes
+      const sum = group.ends.reduce(
+        (acc, end) => [acc[0] + Math.cos(end.heading), acc[1] + Math.sin(end.heading)],
+        [0, 0]
+      );
+      const bearing = Math.atan2(sum[1], sum[0]);
+      const u: Vec2 = [Math.cos(bearing), Math.sin(bearing)];
+      const n: Vec2 = [-u[1], u[0]];
+      
+      const offsets = group.ends.flatMap(({ lane, point }) => {
+        const lateral = (point[0] - center[0]) * n[0] + (point[1] - center[1]) * n[1];
+        return [lateral - lane.width / 2, lateral + lane.width / 2];
+      });
+      
+      return {
+        bearing: bearing < 0 ? bearing + 2 * Math.PI : bearing,
+        u,
+        n,
+        right: Math.min(...offsets),
+        left: Math.max(...offsets),
+        setback: CORNER_MARGIN,
+      };
+    });
+    
+    return arms.sort((a, b) => a.bearing - b.bearing);
+  }
+  
+  /**
+   * Cut lane polylines at the polygon boundary (lanes are shared with the network)
+   */
+  private static trimLanes(polygon: Vec2[], incomingLanes: Lane[], outgoingLanes: Lane[]): void {
+    for (const lane of incomingLanes) {
+      if (lane.poly.length < 2 || !pointInPolygon(lane.poly[lane.poly.length - 1], polygon)) continue;
+      
+      const entry = polygonCrossings(lane.poly, polygon).pop();
+      if (entry !== undefined && entry >= MIN_TRIMMED_LENGTH) {
+        lane.poly = slicePolyline(lane.poly, 0, entry);
+      }
+    }
+    
+    for (const lane of outgoingLanes) {
+      if (lane.poly.length < 2 || !pointInPolygon(lane.poly[0], polygon)) continue;
+      
+      const length = polylineLength(lane.poly);
+      const exit = polygonCrossings(lane.poly, polygon)[0];
+      if (exit !== undefined && length - exit >= MIN_TRIMMED_LENGTH) {
+        lane.poly = slicePolyline(lane.poly, exit, length);
+      }
+    }
+  }
+  
   /**
    * Generate allowed lane connectors through intersection
    */
   private static generateConnectors(
     incomingLanes: Lane[],
     outgoingLanes: Lane[],
-    intersectionNode: OSMNode
+    centerPoint: Vec2
   ): LaneConnector[] {
     
     const connectors: LaneConnector[] = [];
-    const centerPoint: Vec2 = [intersectionNode.lon, intersectionNode.lat];
     
     for (const inLane of incomingLanes) {
       for (const outLane of outgoingLanes) {
         if (!this.isTurnFeasible(inLane, outLane, centerPoint)) continue;
         
-        const path = this.generateConnectorPath(inLane, outLane, centerPoint);
+        const curve = this.generateConnectorPath(inLane, outLane);
         const allowed = this.isMovementAllowed(inLane, outLane);
         
         connectors.push({
           id: `connector_${inLane.id}_to_${outLane.id}`,
           fromLane: inLane.id,
           toLane: outLane.id,
-          path,
+          path: curve.path,
           allowed,
+          arcLength: curve.arcLength,
+          curvature: curve.curvature,
+          ...(Number.isFinite(curve.minRadius) && { minRadius: curve.minRadius }),
+          ...(curve.minRadius < minTurningRadius() && { tooTight: true }),
         });
       }
     }
@@ -118,14 +306,14 @@ export class IntersectionBuilder {
   }
   
   /**
-   * Generate smooth path through intersection
+   * Generate smooth path through intersection, tangent to both lanes and
+   * no tighter than a car can turn where the lane ends leave room for it
    */
-  private static generateConnectorPath(inLane: Lane, outLane: Lane, centerPoint: Vec2): Vec2[] {
+  private static generateConnectorPath(inLane: Lane, outLane: Lane): SampledCurve {
     const inEnd = inLane.poly[inLane.poly.length - 1];
     const outStart = outLane.poly[0];
     
-    // Simple straight line for now - could be improved with bezier curves
-    return [inEnd, centerPoint, outStart];
+    return bezierBetweenPoses(inEnd, endHeading(inLane.poly), outStart, startHeading(outLane.poly), minTurningRadius());
   }
   
   /**
@@ -178,8 +366,16 @@ export class IntersectionBuilder {
   
   /**
    * Determine intersection control type from OSM tags
+   *
+   * Junction node tags win. Otherwise a main road makes the junction
+   * 'priority', or 'stop' / 'give_way' after the strongest side-road sign.
    */
-  private static determineControlType(intersectionNode: OSMNode, nodes: Map<number, OSMNode>): ControlType {
+  private static determineControlType(
+    intersectionNode: OSMNode,
+    nodes: Map<number, OSMNode>,
+    incomingLanes: Lane[],
+    mainRoad?: Set<string>
+  ): ControlType {
     const tags = intersectionNode.tags || {};
     
     if (tags.highway === 'traffic_signals') return 'signals';
@@ -190,48 +386,155 @@ export class IntersectionBuilder {
     // Check for priority road indicators
     if (tags.priority_road === 'designated') return 'priority';
     
+    if (mainRoad) {
+      const signs = incomingLanes.filter(lane => !mainRoad.has(lane.id)).map(lane => lane.yieldSign);
+      if (signs.includes('stop')) return 'stop';
+      if (signs.includes('give_way')) return 'give_way';
+      return 'priority';
+    }
+    
     return 'uncontrolled'; // Default Czech "right-hand rule"
   }
   
+  /**
+   * Lanes of the main road through the junction, undefined when there is none
+   *
+   * Approaches are grouped by OSM way. The main road is the pair of approaches
+   * tagged priority_road, or else the only two approaches without a STOP or
+   * give-way sign. The pair does not have to be opposite - main roads bend.
+   */
+  private static findMainRoad(incomingLanes: Lane[], outgoingLanes: Lane[]): Set<string> | undefined {
+    const incomingIds = new Set(incomingLanes.map(lane => lane.id));
+    const arms = new Map<string, Lane[]>();
+    
+    for (const lane of [...incomingLanes, ...outgoingLanes]) {
+      const key = lane.wayId !== undefined ? `way_${lane.wayId}` : lane.id;
+      arms.set(key, [...(arms.get(key) ?? []), lane]);
+    }
+    if (arms.size < 3) return undefined;
+    
+    const approaches = [...arms.values()];
+    const tagged = approaches.filter(arm => arm.some(lane => lane.priorityRoad));
+    // A lane's sign guards its own end, so only incoming lanes count here
+    const unsigned = approaches.filter(arm => !arm.some(lane => incomingIds.has(lane.id) && lane.yieldSign));
+    
+    const main = tagged.length === 2 ? tagged
+      : tagged.length === 0 && unsigned.length === 2 ? unsigned
+      : undefined;
+    
+    return main && new Set(main.flat().map(lane => lane.id));
+  }
+  
   /**
    * Generate right-of-way rules for intersection
    */
-  private static generateRightOfWayRules(connectors: LaneConnector[], control: ControlType): RightOfWayRule[] {
+  private static generateRightOfWayRules(
+    connectors: LaneConnector[],
+    conflicts: ConnectorConflict[],
+    control: ControlType,
+    lanes: Map<string, Lane>,
+    mainRoad?: Set<string>
+  ): RightOfWayRule[] {
     const rules: RightOfWayRule[] = [];
     
-    if (control === 'signals') {
-      // Traffic signals - rules managed by signal controller
-      return rules;
+    // With signals the SignalController keeps conflicting groups apart, the rules
+    // below only matter for movements green together (permissive left turns)
+    
+    const byId = new Map(connectors.map(c => [c.id, c]));
+    
+    // Diverging movements share a queue, only crossing and merging need priority
+    for (const conflict of conflicts) {
+      if (conflict.type === 'diverging') continue;
+      
+      const connA = byId.get(conflict.connectorA)!;
+      const connB = byId.get(conflict.connectorB)!;
+      
+      rules.push({
+        connectorA: connA.id,
+        connectorB: connB.id,
+        hasPriority: this.determinePriority(connA, connB, control, lanes, mainRoad)
+      });
     }
     
-    // Generate conflict pairs
+    return rules;
+  }
+  
+  /**
+   * Classify every connector pair by where their paths meet, non-conflicting pairs are left out
+   */
+  static detectConflicts(connectors: LaneConnector[]): ConnectorConflict[] {
+    const conflicts: ConnectorConflict[] = [];
+    
     for (let i = 0; i < connectors.length; i++) {
       for (let j = i + 1; j < connectors.length; j++) {
-        const connA = connectors[i];
-        const connB = connectors[j];
-        
-        if (this.connectorsConflict(connA, connB)) {
-          const priority = this.determinePriority(connA, connB, control);
-          
-          rules.push({
-            connectorA: connA.id,
-            connectorB: connB.id,
-            hasPriority: priority
-          });
-        }
+        const conflict = this.classifyConflict(connectors[i], connectors[j]);
+        if (conflict) conflicts.push(conflict);
       }
     }
     
-    return rules;
+    return conflicts;
+  }
+  
+  /**
+   * Conflict between two connector paths
+   */
+  private static classifyConflict(connA: LaneConnector, connB: LaneConnector): ConnectorConflict | null {
+    if (connA.fromLane === connB.fromLane && connA.toLane === connB.toLane) return null;
+    
+    const base = { connectorA: connA.id, connectorB: connB.id };
+    
+    // Same entry lane - movements split where the paths stop overlapping
+    if (connA.fromLane === connB.fromLane) {
+      const split = this.sharedPrefixEnd(connA.path, connB.path);
+      return { ...base, type: 'diverging', point: split.point, alongA: split.along, alongB: split.along };
+    }
+    
+    // Same exit lane - movements meet where the paths join, or earlier if they cut across
+    if (connA.toLane === connB.toLane) {
+      const join = this.sharedSuffixStart(connA.path, connB.path);
+      const crossing = polylineIntersection(connA.path, connB.path);
+      const meet = crossing && crossing.alongA < join.alongA ? crossing : join;
+      return { ...base, type: 'merging', point: meet.point, alongA: meet.alongA, alongB: meet.alongB };
+    }
+    
+    const crossing = polylineIntersection(connA.path, connB.path, { ignoreTouchingEnds: true });
+    if (!crossing) return null;
+    
+    return { ...base, type: 'crossing', point: crossing.point, alongA: crossing.alongA, alongB: crossing.alongB };
+  }
+  
+  /**
+   * Last vertex of the common start of two paths
+   */
+  private static sharedPrefixEnd(a: Vec2[], b: Vec2[]): { point: Vec2; along: number } {
+    let along = 0;
+    let i = 0;
+    
+    while (i + 1 < a.length && i + 1 < b.length && distance(a[i + 1], b[i + 1]) < SAME_POINT) {
+      along += distance(a[i], a[i + 1]);
+      i++;
+    }
+    
+    return { point: a[i], along };
   }
   
   /**
-   * Check if two connectors have conflicting paths
+   * First vertex of the common end of two paths
    */
-  private static connectorsConflict(connA: LaneConnector, connB: LaneConnector): boolean {
-    // Simplified: different entry/exit combinations usually conflict
-    // Real implementation would check path intersection
-    return connA.fromLane !== connB.fromLane || connA.toLane !== connB.toLane;
+  private static sharedSuffixStart(a: Vec2[], b: Vec2[]): { point: Vec2; alongA: number; alongB: number } {
+    let i = a.length - 1;
+    let j = b.length - 1;
+    
+    while (i > 0 && j > 0 && distance(a[i - 1], b[j - 1]) < SAME_POINT) {
+      i--;
+      j--;
+    }
+    
+    return {
+      point: a[i],
+      alongA: polylineLength(a.slice(0, i + 1)),
+      alongB: polylineLength(b.slice(0, j + 1)),
+    };
   }
   
   /**
@@ -240,8 +543,14 @@ export class IntersectionBuilder {
   private static determinePriority(
     connA: LaneConnector,
     connB: LaneConnector,
-    control: ControlType
-  ): 'A' | 'B' | 'yield' | 'signal' {
+    control: ControlType,
+    lanes: Map<string, Lane>,
+    mainRoad?: Set<string>
+  ): Priority {
+    
+    if (mainRoad && control !== 'roundabout') {
+      return this.applyMainRoadRule(connA, connB, lanes, mainRoad);
+    }
     
     switch (control) {
       case 'stop':
@@ -251,23 +560,99 @@ export class IntersectionBuilder {
       case 'roundabout':
         return 'A'; // Vehicles in roundabout have priority
         
-      case 'priority':
-        // Priority road logic would go here
-        return 'A';
-        
+      case 'signals':           // left turn yields to oncoming traffic on the same green
+      case 'priority':          // main road not identified from approaches
       case 'uncontrolled':
       default:
         // Czech right-hand rule: vehicle from right has priority
-        return this.applyRightHandRule(connA, connB);
+        return this.applyRightHandRule(connA, connB, lanes);
+    }
+  }
+  
+  /**
+   * Priority road rule: main road first, side roads yield
+   *
+   * Between two main-road vehicles the one leaving the main road yields to the
+   * one following it - on a bending main road that is the oncoming traffic even
+   * though the arms are not opposite. Side-road vehicles among themselves, and
+   * main-road vehicles that both follow or both leave it, use the right-hand rule.
+   */
+  private static applyMainRoadRule(
+    connA: LaneConnector,
+    connB: LaneConnector,
+    lanes: Map<string, Lane>,
+    mainRoad: Set<string>
+  ): Priority {
+    const mainA = mainRoad.has(connA.fromLane);
+    const mainB = mainRoad.has(connB.fromLane);
+    if (mainA !== mainB) return mainA ? 'A' : 'B';
+    
+    if (mainA) {
+      const followsA = mainRoad.has(connA.toLane);
+      const followsB = mainRoad.has(connB.toLane);
+      if (followsA !== followsB) return followsA ? 'A' : 'B';
     }
+    
+    return this.applyRightHandRule(connA, connB, lanes);
   }
   
   /**
-   * Apply Czech right-hand rule for priority
+   * Apply Czech right-hand rule ("přednost zprava") for priority
+   *
+   * Approach arms are compared by bearing: a vehicle arriving from the right
+   * goes first. Between opposite approaches the vehicle turning left yields
+   * to oncoming traffic (§ 21 odst. 3). Remaining ties - same approach, or
+   * opposite approaches that both turn left or neither does - fall back to
+   * through-before-turning and then connector id, so builds are reproducible.
    */
-  private static applyRightHandRule(connA: LaneConnector, connB: LaneConnector): 'A' | 'B' | 'yield' {
-    // Simplified right-hand rule implementation
-    // Real version would calculate relative positions
-    return Math.random() > 0.5 ? 'A' : 'B'; // Placeholder
+  private static applyRightHandRule(connA: LaneConnector, connB: LaneConnector, lanes: Map<string, Lane>): Priority {
+    const fromA = lanes.get(connA.fromLane);
+    const fromB = lanes.get(connB.fromLane);
+    const toA = lanes.get(connA.toLane);
+    const toB = lanes.get(connB.toLane);
+    if (!fromA || !fromB || !toA || !toB) return this.tieBreak(connA, connB);
+    
+    // Arm direction = where the vehicle comes from, seen from the junction
+    const armA = endHeading(fromA.poly) + Math.PI;
+    const armB = endHeading(fromB.poly) + Math.PI;
+    // Counter-clockwise angle from A's arm to B's arm: right side of A is +90°
+    const relative = normalizeAngle(armB - armA);
+    const ccw = relative < 0 ? relative + 2 * Math.PI : relative;
+    
+    if (ccw < SAME_ARM_TOLERANCE || ccw > 2 * Math.PI - SAME_ARM_TOLERANCE) {
+      return this.tieBreak(connA, connB);
+    }
+    
+    if (Math.abs(ccw - Math.PI) <= OPPOSITE_TOLERANCE) {
+      const leftA = classifyTurn(turnAngleBetween(fromA.poly, toA.poly)) === 'left';
+      const leftB = classifyTurn(turnAngleBetween(fromB.poly, toB.poly)) === 'left';
+      
+      if (leftA !== leftB) return leftA ? 'B' : 'A';
+      return this.tieBreak(connA, connB, fromA, toA, fromB, toB);
+    }
+    
+    return ccw < Math.PI ? 'B' : 'A';
+  }
+  
+  /**
+   * Deterministic priority where bearings do not decide
+   */
+  private static tieBreak(
+    connA: LaneConnector,
+    connB: LaneConnector,
+    fromA?: Lane,
+    toA?: Lane,
+    fromB?: Lane,
+    toB?: Lane
+  ): Priority {
+    if (fromA && toA && fromB && toB) {
+      const deviationA = Math.abs(turnAngleBetween(fromA.poly, toA.poly));
+      const deviationB = Math.abs(turnAngleBetween(fromB.poly, toB.poly));
+      if (Math.abs(deviationA - deviationB) > SAME_ARM_TOLERANCE) {
+        return deviationA < deviationB ? 'A' : 'B';
+      }
+    }
+    
+    return connA.id <= connB.id ? 'A' : 'B';
   }
 }
\ No newline at end of file
@@ -1,11 +1,14 @@
 import type { OSMWay, OSMNode } from './overpass';
-import type { Lane, Vec2, TurnType, LaneType } from '../types';
+import type { Lane, Vec2, TurnType, LaneType, YieldSign } from '../types';
+import type { LocalProjection } from '../projection';
+import { distance } from '../geometry';
 
 /**
  * Lane construction utilities
  */
 export class LaneBuilder {
   private static readonly DEFAULT_LANE_WIDTH = 3.25; // meters
+  private static readonly SIGN_REACH = 30; // meters, STOP/give-way sign to the junction it guards
   
   /**
    * Generate lanes from OSM way with proper offsets
@@ -20,21 +23,27 @@ export class LaneBuilder {
       turnLanes?: string[];
       maxSpeed?: number;
       width?: number;
-    }
+      priorityRoad?: boolean;
+    },
+    projection: LocalProjection
   ): Lane[] {
-    const centerline = this.wayToPolyline(way, nodes);
+    const centerline = this.wayToPolyline(way, nodes, projection);
     if (centerline.length < 2) return [];
     
     const lanes: Lane[] = [];
     const laneWidth = laneInfo.width ? laneInfo.width / (laneInfo.lanesForward + laneInfo.lanesBackward) : this.DEFAULT_LANE_WIDTH;
     const maxSpeed = laneInfo.maxSpeed || this.getDefaultMaxSpeed(way.tags?.highway || 'unclassified');
     const laneType = this.getLaneType(way.tags || {});
+    const name = way.tags?.name;
+    const roundabout = way.tags?.junction === 'roundabout' || undefined;
+    const priorityRoad = laneInfo.priorityRoad || undefined;
     
     // Forward lanes (traffic direction = +1)
     const forwardOffsets = this.calculateLaneOffsets(laneInfo.lanesForward, laneWidth, 1);
     for (let i = 0; i < laneInfo.lanesForward; i++) {
       const poly = this.offsetPolyline(centerline, forwardOffsets[i]);
       const turnHint = this.extractTurnHint(laneInfo.turnLanes, i);
+      const yieldSign = this.findYieldSign(way, nodes, projection, 1);
       
       lanes.push({
         id: `way_${way.id}_fwd_${i}`,
@@ -45,6 +54,11 @@ export class LaneBuilder {
         type: laneType,
         fromNode: `node_${way.nodes[0]}`,
         toNode: `node_${way.nodes[way.nodes.length - 1]}`,
+        wayId: way.id,
+        name,
+        roundabout,
+        priorityRoad,
+        yieldSign,
         turnHint,
       });
     }
@@ -52,6 +66,7 @@ export class LaneBuilder {
     // Backward lanes (traffic direction = -1)
     if (!laneInfo.isOneway) {
       const backwardOffsets = this.calculateLaneOffsets(laneInfo.lanesBackward, laneWidth, -1);
+      const yieldSign = this.findYieldSign(way, nodes, projection, -1);
       for (let i = 0; i < laneInfo.lanesBackward; i++) {
         const poly = this.offsetPolyline(centerline, backwardOffsets[i]).reverse();
         
@@ -64,6 +79,11 @@ export class LaneBuilder {
           type: laneType,
           fromNode: `node_${way.nodes[way.nodes.length - 1]}`,
           toNode: `node_${way.nodes[0]}`,
+          wayId: way.id,
+          name,
+          roundabout,
+          priorityRoad,
+          yieldSign,
         });
       }
     }
@@ -72,21 +92,67 @@ export class LaneBuilder {
   }
   
   /**
-   * Convert OSM way to polyline coordinates
+   * Convert OSM way to polyline in network metres
    */
-  private static wayToPolyline(way: OSMWay, nodes: Map<number, OSMNode>): Vec2[] {
+  private static wayToPolyline(way: OSMWay, nodes: Map<number, OSMNode>, projection: LocalProjection): Vec2[] {
     const polyline: Vec2[] = [];
     
     for (const nodeId of way.nodes) {
       const node = nodes.get(nodeId);
       if (node) {
-        polyline.push([node.lon, node.lat]);
+        polyline.push(projection.fromLonLat(node.lon, node.lat));
       }
     }
     
     return polyline;
   }
   
+  /**
+   * STOP / give-way sign node guarding the end of lanes in given direction
+   *
+   * Signs are mapped on the way just before the junction, with optional
+   * direction=forward|backward; untagged signs belong to the nearer way end.
+   * Signs on the end nodes themselves are junction tags, not per approach.
+   */
+  private static findYieldSign(
+    way: OSMWay,
+    nodes: Map<number, OSMNode>,
+    projection: LocalProjection,
+    dir: 1 | -1
+  ): YieldSign | undefined {
+    const points = way.nodes.map(id => nodes.get(id));
+    const along: number[] = [];
+    let total = 0;
+    let previous: Vec2 | undefined;
+    
+    for (const node of points) {
+      const p = node ? projection.fromLonLat(node.lon, node.lat) : previous;
+      if (p && previous) total += distance(previous, p);
+      along.push(total);
+      previous = p;
+    }
+    
+    let best: { sign: YieldSign; reach: number } | undefined;
+    for (let i = 1; i < points.length - 1; i++) {
+      const tags = points[i]?.tags;
+      const sign = tags?.highway;
+      if (sign !== 'stop' && sign !== 'give_way') continue;
+      
+      const toEnd = total - along[i];
+      const signDir = tags?.direction === 'forward' ? 1
+        : tags?.direction === 'backward' ? -1
+        : toEnd <= along[i] ? 1 : -1;
+      if (signDir !== dir) continue;
+      
+      const reach = dir === 1 ? toEnd : along[i];
+      if (reach <= this.SIGN_REACH && (!best || reach < best.reach)) {
+        best = { sign, reach };
+      }
+    }
+    
+    return best?.sign;
+  }
+  
   /**
    * Calculate lane offset positions from centerline
    */
@@ -106,9 +172,9 @@ export class LaneBuilder {
   }
   
   /**
-   * Offset polyline perpendicular to segments
+   * Offset polyline perpendicular to segments, positive offset to the right
    */
-  private static offsetPolyline(polyline: Vec2[], offset: number): Vec2[] {
+  static offsetPolyline(polyline: Vec2[], offset: number): Vec2[] {
     if (polyline.length < 2) return polyline;
     
     const offsetPoly: Vec2[] = [];
@@ -1,34 +1,59 @@
 import { OverpassClient, type OverpassResponse, type OSMWay, type OSMNode } from './overpass';
+import { OverpassDataSource, type OSMBounds, type OSMDataSource } from './data-source';
 import { LaneBuilder } from './lane-builder';
 import { IntersectionBuilder } from './intersection-builder';
-import type { RoadNetwork, Lane, Crosswalk, PedEdge, PedNode } from '../types';
+import { StopLineBuilder, type StopLineOptions } from './stop-line-builder';
+import { CrosswalkBuilder } from './crosswalk-builder';
+import { PedestrianBuilder } from './pedestrian-builder';
+import { LocalProjection } from '../projection';
+import type { RoadNetwork, Lane, Intersection, Crosswalk } from '../types';
+
+export interface NetworkBuilderOptions {
+  stopLines?: StopLineOptions;
+}
 
 /**
  * Main ETL pipeline for converting OSM data to semantic road network
  */
 export class NetworkBuilder {
-  private overpass = new OverpassClient();
+  private overpass = new OverpassClient(); // tag helpers only, data comes from source
+  private source: OSMDataSource;
+  private options: NetworkBuilderOptions;
+  
+  constructor(source: OSMDataSource = new OverpassDataSource(), options: NetworkBuilderOptions = {}) {
+    this.source = source;
+    this.options = options;
+  }
   
   /**
-   * Build complete road network for Prague area
+   * Build road network from the configured data source
    */
-  async buildPragueNetwork(bounds?: {
-    south: number;
-    west: number; 
-    north: number;
-    east: number;
-  }): Promise<RoadNetwork> {
-    
-    console.log('Fetching OSM data...');
-    const osmData = await this.overpass.fetchPragueRoadNetwork(bounds);
+  async build(bounds?: OSMBounds): Promise<RoadNetwork> {
+    console.log(`Loading OSM data from ${this.source.description}...`);
+    const osmData = await this.source.load(bounds);
     
+    return this.buildFromOSMData(osmData);
+  }
+  
+  /**
+   * Build complete road network for Prague area
+   */
+  async buildPragueNetwork(bounds?: OSMBounds): Promise<RoadNetwork> {
+    return this.build(bounds);
+  }
+  
+  /**
+   * Build network from already fetched OSM data (cached response, fixture)
+   */
+  buildFromOSMData(osmData: OverpassResponse): RoadNetwork {
     console.log(`Processing ${osmData.elements.length} OSM elements...`);
     const network = this.processOSMData(osmData);
     
     console.log('Network built:', {
       lanes: Object.keys(network.lanes).length,
       intersections: Object.keys(network.intersections).length,
-      crosswalks: Object.keys(network.crosswalks).length
+      crosswalks: Object.keys(network.crosswalks).length,
+      pedEdges: Object.keys(network.pedEdges).length
     });
     
     return network;
@@ -41,19 +66,24 @@ export class NetworkBuilder {
     const nodes = this.overpass.extractNodesMap(osmData.elements);
     const ways = osmData.elements.filter(el => el.type === 'way') as OSMWay[];
     
-    // Step 1: Extract road ways and build lanes
+    // Step 1: Calculate bounds and local metric frame
+    const bounds = this.calculateBounds(nodes);
+    const projection = LocalProjection.fromBounds(bounds);
+    
+    // Step 2: Extract road ways and build lanes
     const roadWays = ways.filter(way => this.overpass.isCarWay(way));
-    const allLanes = this.buildAllLanes(roadWays, nodes);
+    const priorityWays = this.overpass.extractPriorityRoadWays(osmData.elements);
+    const allLanes = this.buildAllLanes(roadWays, nodes, projection, priorityWays);
     
-    // Step 2: Find intersections from topology  
+    // Step 3: Find intersections from topology  
     const intersectionNodes = IntersectionBuilder.findIntersectionNodes(roadWays, nodes);
-    const { intersections, laneConnectors } = this.buildIntersections(intersectionNodes, allLanes, nodes);
+    const { intersections, laneConnectors } = this.buildIntersections(intersectionNodes, allLanes, nodes, projection);
     
-    // Step 3: Build pedestrian network
-    const { pedNodes, pedEdges, crosswalks, crossLinks } = this.buildPedestrianNetwork(osmData.elements, nodes);
+    // Step 4: Build pedestrian network
+    const { pedNodes, pedEdges, crosswalks, crossLinks } = this.buildPedestrianNetwork(osmData.elements, ways, roadWays, nodes, allLanes, projection);
     
-    // Step 4: Calculate bounds
-    const bounds = this.calculateBounds(nodes);
+    // Step 5: Stop lines, after crosswalks they may have to clear
+    this.placeStopLines(intersections, allLanes, crosswalks);
     
     const network: RoadNetwork = {
       lanes: this.arrayToRecord(allLanes, 'id'),
@@ -63,8 +93,9 @@ export class NetworkBuilder {
       pedEdges: this.arrayToRecord(pedEdges, 'id'), 
       crosswalks: this.arrayToRecord(crosswalks, 'id'),
       crossLinks: this.arrayToRecord(crossLinks, 'id'),
+      projection: projection.toJSON(),
       bounds,
-      version: '1.0.0',
+      version: '2.1.0',
       generatedAt: new Date().toISOString(),
       source: 'osm'
     };
@@ -75,12 +106,18 @@ export class NetworkBuilder {
   /**
    * Build lanes for all road ways
    */
-  private buildAllLanes(roadWays: OSMWay[], nodes: Map<number, OSMNode>): Lane[] {
+  private buildAllLanes(
+    roadWays: OSMWay[],
+    nodes: Map<number, OSMNode>,
+    projection: LocalProjection,
+    priorityWays: Set<number>
+  ): Lane[] {
     const allLanes: Lane[] = [];
     
     for (const way of roadWays) {
       const laneInfo = this.overpass.extractLaneInfo(way);
-      const lanes = LaneBuilder.buildLanesFromWay(way, nodes, laneInfo);
+      if (priorityWays.has(way.id)) laneInfo.priorityRoad = true;
+      const lanes = LaneBuilder.buildLanesFromWay(way, nodes, laneInfo, projection);
       allLanes.push(...lanes);
     }
     
@@ -90,7 +127,12 @@ export class NetworkBuilder {
   /**
    * Build all intersections and their connectors
    */
-  private buildIntersections(intersectionNodes: OSMNode[], allLanes: Lane[], nodes: Map<number, OSMNode>) {
+  private buildIntersections(
+    intersectionNodes: OSMNode[],
+    allLanes: Lane[],
+    nodes: Map<number, OSMNode>,
+    projection: LocalProjection
+  ) {
     const allIntersections = [];
     const allConnectors = [];
     
@@ -106,7 +148,8 @@ export class NetworkBuilder {
           node,
           incomingLanes,
           outgoingLanes,
-          nodes
+          nodes,
+          projection
         );
         
         allIntersections.push(intersection);
@@ -118,28 +161,33 @@ export class NetworkBuilder {
   }
   
   /**
-   * Build pedestrian network from OSM data
+   * Stop lines on approaches of controlled intersections
    */
-  private buildPedestrianNetwork(elements: any[], nodes: Map<number, OSMNode>) {
-    // Simplified pedestrian network - just crosswalks for now
-    const crosswalks: Crosswalk[] = [];
-    const pedNodes: PedNode[] = [];
-    const pedEdges: PedEdge[] = [];
-    const crossLinks: any[] = [];
-    
-    // Extract crosswalk nodes
-    for (const element of elements) {
-      if (element.type === 'node' && element.tags?.highway === 'crossing') {
-        const node = element as OSMNode;
-        
-        crosswalks.push({
-          id: `crosswalk_${node.id}`,
-          segment: [[node.lon, node.lat], [node.lon, node.lat]], // Point crosswalk
-          hasSignals: node.tags?.crossing === 'traffic_signals',
-          priority: node.tags?.crossing === 'uncontrolled' ? 'cars_over_ped' : 'ped_over_cars'
-        });
-      }
+  private placeStopLines(intersections: Intersection[], allLanes: Lane[], crosswalks: Crosswalk[]): void {
+    const lanes = new Map(allLanes.map(lane => [lane.id, lane]));
+    
+    for (const intersection of intersections) {
+      StopLineBuilder.placeStopLines(intersection, lanes, crosswalks, this.options.stopLines);
     }
+  }
+  
+  /**
+   * Build pedestrian network from OSM data
+   */
+  private buildPedestrianNetwork(
+    elements: any[],
+    ways: OSMWay[],
+    roadWays: OSMWay[],
+    nodes: Map<number, OSMNode>,
+    allLanes: Lane[],
+    projection: LocalProjection
+  ) {
+    // Crosswalks across the carriageway at crossing nodes
+    const crossingNodes = elements.filter(el => el.type === 'node' && el.tags?.highway === 'crossing') as OSMNode[];
+    const crosswalks = CrosswalkBuilder.buildCrosswalks(crossingNodes, roadWays, nodes, allLanes, projection);
+    
+    // Sidewalks (mapped and synthetic) joined into one graph, linked to the crosswalks
+    const { pedNodes, pedEdges, crossLinks } = PedestrianBuilder.buildNetwork(ways, roadWays, nodes, allLanes, crosswalks, projection);
     
     return { pedNodes, pedEdges, crosswalks, crossLinks };
   }
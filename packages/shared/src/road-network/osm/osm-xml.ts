@@ -0,0 +1,127 @@
+import type { OSMElement, OSMNode, OSMRelation, OSMWay, OverpassResponse } from './overpass';
+
+const TAG_PATTERN = /<(\/?)([A-Za-z_][\w.-]*)((?:\s+[^\s=>/]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>/g;
+const ATTR_PATTERN = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * Parse raw OSM XML (.osm from JOSM, Geofabrik/osmium extracts) into Overpass JSON shape
+ *
+ * Only the subset needed by the network builder is read: nodes, ways and
+ * relations with their tags, way node refs and relation members.
+ */
+export function parseOSMXML(xml: string): OverpassResponse {
+  const elements: OSMElement[] = [];
+  let version = 0.6;
+  let generator = 'osm-xml';
+  let current: OSMElement | null = null;
+
+  TAG_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = TAG_PATTERN.exec(xml))) {
+    const [, closing, name, attrText, selfClosing] = match;
+    if (!name) continue; // comment, declaration, CDATA
+
+    if (closing) {
+      if (current && name === current.type) current = null;
+      continue;
+    }
+
+    const attrs = parseAttributes(attrText);
+
+    switch (name) {
+      case 'osm':
+        version = attrs.version ? parseFloat(attrs.version) : version;
+        generator = attrs.generator ?? generator;
+        break;
+
+      case 'node': {
+        const node: OSMNode = {
+          type: 'node',
+          id: parseId(attrs, 'node'),
+          lat: parseCoordinate(attrs.lat, 'lat', attrs.id),
+          lon: parseCoordinate(attrs.lon, 'lon', attrs.id),
+        };
+        elements.push(node);
+        current = selfClosing ? null : node;
+        break;
+      }
+
+      case 'way': {
+        const way: OSMWay = { type: 'way', id: parseId(attrs, 'way'), nodes: [] };
+        elements.push(way);
+        current = selfClosing ? null : way;
+        break;
+      }
+
+      case 'relation': {
+        const relation: OSMRelation = { type: 'relation', id: parseId(attrs, 'relation'), members: [] };
+        elements.push(relation);
+        current = selfClosing ? null : relation;
+        break;
+      }
+
+      case 'tag':
+        if (current && attrs.k !== undefined) {
+          current.tags = current.tags ?? {};
+          current.tags[attrs.k] = attrs.v ?? '';
+        }
+        break;
+
+      case 'nd':
+        if (current?.type === 'way') current.nodes.push(Number(attrs.ref));
+        break;
+
+      case 'member':
+        if (current?.type === 'relation') {
+          current.members.push({
+            type: attrs.type as 'node' | 'way' | 'relation',
+            ref: Number(attrs.ref),
+            role: attrs.role ?? '',
+          });
+        }
+        break;
+    }
+  }
+
+  return { version, generator, elements };
+}
+
+function parseAttributes(text: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  ATTR_PATTERN.lastIndex = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = ATTR_PATTERN.exec(text))) {
+    attrs[match[1]] = decodeEntities(match[2] ?? match[3]);
+  }
+
+  return attrs;
+}
+
+function parseId(attrs: Record<string, string>, type: string): number {
+  const id = Number(attrs.id);
+  if (!Number.isFinite(id)) throw new Error(`OSM XML: ${type} without valid id`);
+  return id;
+}
+
+function parseCoordinate(value: string | undefined, name: string, id: string | undefined): number {
+  const coordinate = Number(value);
+  if (value === undefined || !Number.isFinite(coordinate)) {
+    throw new Error(`OSM XML: node ${id} has invalid ${name}`);
+  }
+  return coordinate;
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g, (_, entity: string) => {
+    switch (entity) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+    }
+    return String.fromCodePoint(entity[1] === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10));
+  });
+}
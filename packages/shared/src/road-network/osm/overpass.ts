@@ -41,7 +41,11 @@ export interface OverpassResponse {
  * Overpass API client for Prague road network data
  */
 export class OverpassClient {
-  private readonly baseUrl = 'https://overpass-api.de/api/interpreter';
+  private readonly baseUrl: string;
+  
+  constructor(baseUrl = 'https://overpass-api.de/api/interpreter') {
+    this.baseUrl = baseUrl;
+  }
   
   /**
    * Fetch road network data for Prague bounding box
@@ -113,6 +117,7 @@ export class OverpassClient {
   
   // Priority roads
   way[priority_road](${south},${west},${north},${east});
+  relation[priority_road](${south},${west},${north},${east});
 );
 out geom;
     `.trim();
@@ -175,6 +180,7 @@ out geom;
     turnLanes?: string[];
     maxSpeed?: number;
     width?: number;
+    priorityRoad: boolean;
   } {
     const tags = way.tags || {};
     
@@ -192,6 +198,7 @@ out geom;
     const turnLanes = tags['turn:lanes']?.split('|');
     const maxSpeed = tags.maxspeed ? this.parseMaxSpeed(tags.maxspeed) : undefined;
     const width = tags.width ? parseFloat(tags.width) : undefined;
+    const priorityRoad = this.isPriorityRoad(tags);
     
     return {
       lanes,
@@ -200,10 +207,35 @@ out geom;
       isOneway,
       turnLanes,
       maxSpeed,
-      width
+      width,
+      priorityRoad
     };
   }
   
+  /**
+   * Ways marked as priority road through a tagged relation (whole main road mapped once)
+   */
+  extractPriorityRoadWays(elements: OSMElement[]): Set<number> {
+    const ways = new Set<number>();
+    
+    for (const element of elements) {
+      if (element.type === 'relation' && this.isPriorityRoad(element.tags || {})) {
+        element.members
+          .filter(member => member.type === 'way')
+          .forEach(member => ways.add(member.ref));
+      }
+    }
+    
+    return ways;
+  }
+  
+  /**
+   * priority_road=designated (sign P2 posted) or yes_unposted
+   */
+  private isPriorityRoad(tags: Record<string, string>): boolean {
+    return tags.priority_road === 'designated' || tags.priority_road === 'yes_unposted';
+  }
+  
   /**
    * Parse maxspeed tag to m/s
    */
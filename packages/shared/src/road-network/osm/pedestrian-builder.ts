@@ -0,0 +1,495 @@
+import type { OSMWay, OSMNode } from './overpass';
+import { LaneBuilder } from './lane-builder';
+import type { LocalProjection } from '../projection';
+import type { Lane, Crosswalk, CrossLink, PedEdge, PedNode, Vec2 } from '../types';
+import { SpatialGrid } from '../spatial-index';
+import {
+  bboxAround,
+  bboxOfPoints,
+  distance,
+  pointAlongPolyline,
+  polylineLength,
+  projectOntoPolyline,
+  slicePolyline,
+} from '../geometry';
+
+const SIDEWALK_WIDTH = 2.0;    // m, synthetic sidewalk
+const CURB_GAP = 0.5;          // m between carriageway edge and sidewalk
+const MERGE_DISTANCE = 1.0;    // m, sidewalk ends closer than this share a node
+const MAPPED_REACH = 4.0;      // m, mapped footway this close to a synthetic sidewalk replaces it
+const LINK_REACH = 6.0;        // m, crosswalk ends and loose footway ends to the nearest walkway
+const MAX_TRIM_SHARE = 0.45;   // of a road piece, at most trimmed off per junction end
+const EDGE_CELL_SIZE = 25;     // m, grid cell of the edge index for nearest-walkway lookups
+
+const FOOT_HIGHWAYS = ['footway', 'pedestrian', 'path', 'steps'];
+const NO_SIDEWALK_HIGHWAYS = ['motorway', 'motorway_link', 'trunk', 'trunk_link', 'service'];
+
+type Side = 'left' | 'right';
+
+/**
+ * Road way between junction nodes, sidewalks are generated per piece
+ */
+interface RoadPiece {
+  id: string;
+  way: OSMWay;
+  poly: Vec2[];
+  startNode: number;
+  endNode: number;
+  offsets: Record<Side, number>;      // m from centreline to the sidewalk middle
+  sidewalks: Partial<Record<Side, Vec2[]>>;
+}
+
+/**
+ * Piece leaving a node, for walking around the junction
+ */
+interface Arm {
+  piece: RoadPiece;
+  atStart: boolean;
+  heading: number;                    // rad, away from the node
+}
+
+/**
+ * Pedestrian graph generation
+ *
+ * Mapped footways become edges split wherever they share OSM nodes. Roads get
+ * a synthetic sidewalk on each side that OSM tags allow and no mapped footway
+ * already covers, offset from the carriageway edge given by its lanes. At
+ * junctions the sidewalks are cut back to the crossing roads and joined round
+ * each corner, loose footway ends are tied to the nearest walkway, and every
+ * crosswalk is linked at both of its ends through a CrossLink.
+ */
+export class PedestrianBuilder {
+
+  /**
+   * Build pedNodes, pedEdges and crossLinks for crosswalks already built
+   */
+  static buildNetwork(
+    ways: OSMWay[],
+    roadWays: OSMWay[],
+    nodes: Map<number, OSMNode>,
+    lanes: Lane[],
+    crosswalks: Crosswalk[],
+    projection: LocalProjection
+  ): { pedNodes: PedNode[]; pedEdges: PedEdge[]; crossLinks: CrossLink[] } {
+    const graph = new PedGraph();
+    const footways = ways.filter(way => this.isFootway(way));
+
+    this.addFootways(graph, footways, nodes, projection);
+    const mapped = [...graph.edges.values()];
+
+    const pieces = this.splitRoads(roadWays, nodes, lanes, projection);
+    this.addSidewalks(graph, pieces, mapped);
+    this.linkLooseEnds(graph, mapped);
+    const crossLinks = this.linkCrosswalks(graph, crosswalks, pieces);
+
+    return { pedNodes: [...graph.nodes.values()], pedEdges: [...graph.edges.values()], crossLinks };
+  }
+
+  /**
+   * Footway, path or pedestrian area, crossing ways are crosswalks instead
+   */
+  static isFootway(way: OSMWay): boolean {
+    const tags = way.tags ?? {};
+    return FOOT_HIGHWAYS.includes(tags.highway) && tags.footway !== 'crossing';
+  }
+
+  /**
+   * Mapped footways, split at nodes shared with other footways
+   */
+  private static addFootways(graph: PedGraph, footways: OSMWay[], nodes: Map<number, OSMNode>, projection: LocalProjection): void {
+    const usage = new Map<number, number>();
+    footways.forEach(way => way.nodes.forEach(id => usage.set(id, (usage.get(id) ?? 0) + 1)));
+
+    for (const way of footways) {
+      const points = way.nodes
+        .map(id => ({ id, node: nodes.get(id) }))
+        .filter((p): p is { id: number; node: OSMNode } => !!p.node);
+      if (points.length < 2) continue;
+
+      const kind = way.tags?.footway === 'sidewalk' ? 'sidewalk' : 'footpath';
+      const width = way.tags?.width ? parseFloat(way.tags.width) : undefined;
+      let start = 0;
+      let part = 0;
+
+      for (let i = 1; i < points.length; i++) {
+        if (i < points.length - 1 && (usage.get(points[i].id) ?? 0) < 2) continue;
+
+        const run = points.slice(start, i + 1);
+        const from = graph.addNode(`ped_osm_${run[0].id}`, projection.fromLonLat(run[0].node.lon, run[0].node.lat));
+        const to = graph.addNode(`ped_osm_${run[run.length - 1].id}`, projection.fromLonLat(run[run.length - 1].node.lon, run[run.length - 1].node.lat));
+        const poly = run.map(p => projection.fromLonLat(p.node.lon, p.node.lat));
+        graph.addEdge(`ped_way_${way.id}_${part++}`, poly, kind, from.id, to.id, width);
+        start = i;
+      }
+    }
+  }
+
+  /**
+   * Road ways cut at junction nodes, with sidewalk offsets from their lanes
+   */
+  private static splitRoads(roadWays: OSMWay[], nodes: Map<number, OSMNode>, lanes: Lane[], projection: LocalProjection): RoadPiece[] {
+    // Arms per node: a way ending there is one, a way passing through two
+    const arms = new Map<number, number>();
+    for (const way of roadWays) {
+      way.nodes.forEach((id, i) => {
+        const ends = i === 0 || i === way.nodes.length - 1;
+        arms.set(id, (arms.get(id) ?? 0) + (ends ? 1 : 2));
+      });
+    }
+
+    const edges = new Map<number, Record<Side, number>>();
+    for (const lane of lanes) {
+      if (lane.wayId === undefined) continue;
+      const edge = edges.get(lane.wayId) ?? { left: 0, right: 0 };
+      edge[lane.dir === 1 ? 'right' : 'left'] += lane.width;
+      edges.set(lane.wayId, edge);
+    }
+
+    const pieces: RoadPiece[] = [];
+    for (const way of roadWays) {
+      const sides = this.sidewalkSides(way);
+      const edge = edges.get(way.id) ?? { left: 0, right: 0 };
+      const points = way.nodes
+        .map(id => ({ id, node: nodes.get(id) }))
+        .filter((p): p is { id: number; node: OSMNode } => !!p.node);
+      let start = 0;
+      let part = 0;
+
+      for (let i = 1; i < points.length; i++) {
+        if (i < points.length - 1 && (arms.get(points[i].id) ?? 0) < 3) continue;
+
+        const run = points.slice(start, i + 1);
+        start = i;
+        const poly = run.map(p => projection.fromLonLat(p.node.lon, p.node.lat));
+        if (polylineLength(poly) === 0) continue;
+
+        pieces.push({
+          id: `way_${way.id}_${part++}`,
+          way,
+          poly,
+          startNode: run[0].id,
+          endNode: run[run.length - 1].id,
+          offsets: {
+            left: edge.left + CURB_GAP + SIDEWALK_WIDTH / 2,
+            right: edge.right + CURB_GAP + SIDEWALK_WIDTH / 2,
+          },
+          sidewalks: Object.fromEntries(sides.map(side => [side, [] as Vec2[]])),
+        });
+      }
+    }
+
+    return pieces;
+  }
+
+  /**
+   * Sides that get a synthetic sidewalk: OSM sidewalk tags, else by road class
+   */
+  private static sidewalkSides(way: OSMWay): Side[] {
+    const tags = way.tags ?? {};
+    const both = tags['sidewalk:both'];
+    const explicit = (side: Side) => tags[`sidewalk:${side}`] ?? both;
+
+    switch (tags.sidewalk) {
+      case 'both': case 'yes': return ['left', 'right'];
+      case 'left': return ['left'];
+      case 'right': return ['right'];
+      case 'no': case 'none': case 'separate': return [];
+    }
+
+    if (explicit('left') || explicit('right')) {
+      return (['left', 'right'] as Side[]).filter(side => explicit(side) === 'yes');
+    }
+
+    return NO_SIDEWALK_HIGHWAYS.includes(tags.highway) ? [] : ['left', 'right'];
+  }
+
+  /**
+   * Offset sidewalks, trimmed at junctions and joined round corners
+   */
+  private static addSidewalks(graph: PedGraph, pieces: RoadPiece[], mapped: PedEdge[]): void {
+    const armsByNode = new Map<number, Arm[]>();
+    for (const piece of pieces) {
+      const n = piece.poly.length;
+      const add = (node: number, atStart: boolean, from: Vec2, to: Vec2) => {
+        const list = armsByNode.get(node) ?? [];
+        list.push({ piece, atStart, heading: Math.atan2(to[1] - from[1], to[0] - from[0]) });
+        armsByNode.set(node, list);
+      };
+      add(piece.startNode, true, piece.poly[0], piece.poly[1]);
+      add(piece.endNode, false, piece.poly[n - 1], piece.poly[n - 2]);
+    }
+
+    // Cut back where other roads cross, so sidewalks end at the corners
+    for (const piece of pieces) {
+      const length = polylineLength(piece.poly);
+      const trim = (node: number) => {
+        const others = (armsByNode.get(node) ?? []).filter(arm => arm.piece !== piece);
+        if (others.length < 2) return 0;
+        const reach = Math.max(...others.map(arm => Math.max(arm.piece.offsets.left, arm.piece.offsets.right)));
+        return Math.min(reach, length * MAX_TRIM_SHARE);
+      };
+      const from = trim(piece.startNode);
+      const to = length - trim(piece.endNode);
+
+      for (const side of Object.keys(piece.sidewalks) as Side[]) {
+        const offset = side === 'right' ? piece.offsets.right : -piece.offsets.left;
+        const poly = slicePolyline(LaneBuilder.offsetPolyline(piece.poly, offset), from, to);
+
+        if (this.coveredByMapped(poly, mapped)) {
+          delete piece.sidewalks[side];
+        } else {
+          piece.sidewalks[side] = poly;
+        }
+      }
+    }
+
+    // Corner between each arm's left side and the next arm counter-clockwise's right side
+    const ends = new EndSet();
+    const corners: [string, string][] = [];
+    const sideOf = (arm: Arm, outward: Side): Side => arm.atStart ? outward : (outward === 'left' ? 'right' : 'left');
+    const endKey = (arm: Arm, outward: Side) => `${arm.piece.id}:${sideOf(arm, outward)}:${arm.atStart ? 'start' : 'end'}`;
+
+    for (const piece of pieces) {
+      for (const [side, poly] of Object.entries(piece.sidewalks) as [Side, Vec2[]][]) {
+        ends.add(`${piece.id}:${side}:start`, poly[0]);
+        ends.add(`${piece.id}:${side}:end`, poly[poly.length - 1]);
+      }
+    }
+
+    for (const arms of armsByNode.values()) {
+      if (arms.length < 2) continue;
+      const sorted = [...arms].sort((a, b) => a.heading - b.heading);
+
+      sorted.forEach((arm, i) => {
+        const next = sorted[(i + 1) % sorted.length];
+        const a = endKey(arm, 'left');
+        const b = endKey(next, 'right');
+        if (!ends.has(a) || !ends.has(b) || a === b) return;
+
+        if (distance(ends.position(a), ends.position(b)) < MERGE_DISTANCE) {
+          ends.merge(a, b);
+        } else {
+          corners.push([a, b]);
+        }
+      });
+    }
+
+    for (const piece of pieces) {
+      for (const [side, poly] of Object.entries(piece.sidewalks) as [Side, Vec2[]][]) {
+        const from = ends.node(graph, `${piece.id}:${side}:start`);
+        const to = ends.node(graph, `${piece.id}:${side}:end`);
+        graph.addEdge(`ped_${piece.id}_${side}`, [from.p, ...poly.slice(1, -1), to.p], 'sidewalk', from.id, to.id, SIDEWALK_WIDTH);
+      }
+    }
+
+    for (const [a, b] of corners) {
+      const from = ends.node(graph, a);
+      const to = ends.node(graph, b);
+      if (from.id !== to.id) graph.addEdge(`ped_corner_${from.id}_${to.id}`, [from.p, to.p], 'sidewalk', from.id, to.id, SIDEWALK_WIDTH);
+    }
+  }
+
+  /**
+   * Mapped footway runs along most of the sidewalk
+   */
+  private static coveredByMapped(poly: Vec2[], mapped: PedEdge[]): boolean {
+    const length = polylineLength(poly);
+    const samples = [0.25, 0.5, 0.75].map(t => pointAlongPolyline(poly, length * t));
+    const covered = samples.filter(p => mapped.some(edge => projectOntoPolyline(p, edge.poly).distance < MAPPED_REACH));
+    return covered.length >= 2;
+  }
+
+  /**
+   * Footway ends that lead nowhere are tied to the nearest other walkway
+   */
+  private static linkLooseEnds(graph: PedGraph, mapped: PedEdge[]): void {
+    const looseEnds = [...new Set(mapped.flatMap(edge => [edge.fromNode, edge.toNode]))]
+      .filter(id => graph.degree(id) === 1);
+
+    for (const id of looseEnds) {
+      const node = graph.nodes.get(id)!;
+      const target = graph.nearestEdge(node.p, LINK_REACH, edge => edge.fromNode !== id && edge.toNode !== id);
+      if (!target) continue;
+
+      const joint = graph.splitEdge(target.edge, target.along);
+      if (joint.id !== id) graph.addEdge(`ped_link_${id}`, [node.p, joint.p], 'footpath', id, joint.id);
+    }
+  }
+
+  /**
+   * CrossLink from the walkway at both crosswalk ends
+   *
+   * A crosswalk mapped as a single node has no ends yet; its ends are then
+   * taken straight across the road, where that road's sidewalks run.
+   */
+  private static linkCrosswalks(graph: PedGraph, crosswalks: Crosswalk[], pieces: RoadPiece[]): CrossLink[] {
+    const crossLinks: CrossLink[] = [];
+
+    for (const crosswalk of crosswalks) {
+      const feet = this.crosswalkEnds(crosswalk, pieces);
+
+      feet.forEach((foot, i) => {
+        const target = graph.nearestEdge(foot, LINK_REACH);
+        if (!target) return;
+
+        const node = graph.splitEdge(target.edge, target.along);
+        crossLinks.push({
+          id: `crosslink_${crosswalk.id}_${i}`,
+          from: { kind: 'pedNode', ref: node.id },
+          to: { kind: 'crosswalk', ref: crosswalk.id },
+          crossing: crosswalk.id,
+        });
+      });
+    }
+
+    return crossLinks;
+  }
+
+  private static crosswalkEnds(crosswalk: Crosswalk, pieces: RoadPiece[]): Vec2[] {
+    const [a, b] = crosswalk.segment;
+    if (distance(a, b) > MERGE_DISTANCE) return [a, b];
+
+    let best: { piece: RoadPiece; along: number; distance: number } | null = null;
+    for (const piece of pieces) {
+      const projection = projectOntoPolyline(a, piece.poly);
+      if (!best || projection.distance < best.distance) best = { piece, along: projection.along, distance: projection.distance };
+    }
+    if (!best || best.distance > MERGE_DISTANCE) return [];
+
+    const { piece, along } = best;
+    const ahead = pointAlongPolyline(piece.poly, along + 0.5);
+    const behind = pointAlongPolyline(piece.poly, along - 0.5);
+    const length = distance(ahead, behind) || 1;
+    const right: Vec2 = [(ahead[1] - behind[1]) / length, -(ahead[0] - behind[0]) / length];
+
+    return [
+      [a[0] - right[0] * piece.offsets.left, a[1] - right[1] * piece.offsets.left],
+      [a[0] + right[0] * piece.offsets.right, a[1] + right[1] * piece.offsets.right],
+    ];
+  }
+}
+
+/**
+ * Sidewalk ends keyed by piece / side / end, merged into shared nodes
+ */
+class EndSet {
+  private points = new Map<string, Vec2>();
+  private parent = new Map<string, string>();
+  private created = new Map<string, PedNode>();
+
+  add(key: string, p: Vec2): void {
+    this.points.set(key, p);
+    this.parent.set(key, key);
+  }
+
+  has(key: string): boolean {
+    return this.points.has(key);
+  }
+
+  position(key: string): Vec2 {
+    return this.points.get(this.root(key))!;
+  }
+
+  merge(a: string, b: string): void {
+    const ra = this.root(a);
+    const rb = this.root(b);
+    if (ra === rb) return;
+
+    const pa = this.points.get(ra)!;
+    const pb = this.points.get(rb)!;
+    this.parent.set(rb, ra);
+    this.points.set(ra, [(pa[0] + pb[0]) / 2, (pa[1] + pb[1]) / 2]);
+  }
+
+  /**
+   * Graph node of an end, one per merged group
+   */
+  node(graph: PedGraph, key: string): PedNode {
+    const root = this.root(key);
+    let node = this.created.get(root);
+    if (!node) {
+      node = graph.addNode(`ped_${root.replace(/:/g, '_')}`, this.points.get(root)!);
+      this.created.set(root, node);
+    }
+    return node;
+  }
+
+  private root(key: string): string {
+    let current = key;
+    while (this.parent.get(current) !== current) current = this.parent.get(current)!;
+    return current;
+  }
+}
+
+/**
+ * Pedestrian graph under construction
+ */
+class PedGraph {
+  nodes = new Map<string, PedNode>();
+  edges = new Map<string, PedEdge>();
+  private degrees = new Map<string, number>();
+  private index = new SpatialGrid<PedEdge>(EDGE_CELL_SIZE);   // no removal, replaced edges are skipped on lookup
+
+  addNode(id: string, p: Vec2): PedNode {
+    let node = this.nodes.get(id);
+    if (!node) {
+      node = { id, p };
+      this.nodes.set(id, node);
+    }
+    return node;
+  }
+
+  addEdge(id: string, poly: Vec2[], kind: PedEdge['kind'], fromNode: string, toNode: string, width?: number): void {
+    const replaced = this.edges.get(id);
+    if (replaced) this.removeEdge(replaced);
+
+    const edge: PedEdge = { id, poly, kind, ...(width !== undefined && { width }), fromNode, toNode };
+    this.edges.set(id, edge);
+    this.index.insert(edge, bboxOfPoints(poly));
+    this.addDegree(fromNode, 1);
+    this.addDegree(toNode, 1);
+  }
+
+  degree(nodeId: string): number {
+    return this.degrees.get(nodeId) ?? 0;
+  }
+
+  nearestEdge(p: Vec2, maxDistance: number, filter?: (edge: PedEdge) => boolean): { edge: PedEdge; along: number } | null {
+    let best: { edge: PedEdge; along: number; distance: number } | null = null;
+
+    for (const edge of this.index.query(bboxAround(p, maxDistance))) {
+      if (this.edges.get(edge.id) !== edge || (filter && !filter(edge))) continue;
+      const projection = projectOntoPolyline(p, edge.poly);
+      if (projection.distance <= maxDistance && (!best || projection.distance < best.distance)) {
+        best = { edge, along: projection.along, distance: projection.distance };
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * Node at arc length along edge, splitting the edge in two unless an end is that close
+   */
+  splitEdge(edge: PedEdge, along: number): PedNode {
+    const length = polylineLength(edge.poly);
+    if (along < MERGE_DISTANCE) return this.nodes.get(edge.fromNode)!;
+    if (along > length - MERGE_DISTANCE) return this.nodes.get(edge.toNode)!;
+
+    const node = this.addNode(`${edge.id}_at_${Math.round(along * 10)}`, pointAlongPolyline(edge.poly, along));
+    this.removeEdge(edge);
+    this.addEdge(`${edge.id}_a`, slicePolyline(edge.poly, 0, along), edge.kind, edge.fromNode, node.id, edge.width);
+    this.addEdge(`${edge.id}_b`, slicePolyline(edge.poly, along, length), edge.kind, node.id, edge.toNode, edge.width);
+    return node;
+  }
+
+  private removeEdge(edge: PedEdge): void {
+    this.edges.delete(edge.id);
+    this.addDegree(edge.fromNode, -1);
+    this.addDegree(edge.toNode, -1);
+  }
+
+  private addDegree(nodeId: string, delta: number): void {
+    this.degrees.set(nodeId, this.degree(nodeId) + delta);
+  }
+}
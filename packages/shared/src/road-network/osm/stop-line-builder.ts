@@ -0,0 +1,192 @@
+import type { Lane, Intersection, Crosswalk, Vec2 } from '../types';
+import {
+  distance,
+  pointAlongPolyline,
+  polygonCrossings,
+  polylineLength,
+  projectOntoPolyline,
+  segmentIntersection,
+} from '../geometry';
+
+export interface StopLineOptions {
+  setback?: number;           // m between stop line and junction edge or crosswalk
+  crosswalkReach?: number;    // m before the junction edge where a crosswalk moves the stop line
+}
+
+const DEFAULT_SETBACK = 1.0;
+const DEFAULT_CROSSWALK_REACH = 15;
+const CROSSWALK_HALF_WIDTH = 2.0;  // m, zebra marking either side of the crosswalk line
+
+/**
+ * Stop line placement on approaches of controlled intersections
+ *
+ * Signals stop every approach, STOP / give-way junctions with a main road
+ * only the side roads. The line sits `setback` metres before whichever comes
+ * first: the intersection polygon edge (or, without a polygon, the edge of the
+ * crossing road estimated from its lane widths) or a crosswalk in front of it.
+ */
+export class StopLineBuilder {
+  
+  /**
+   * Set Lane.stopLine and Lane.stopLineKind on stopping approaches of intersection
+   */
+  static placeStopLines(
+    intersection: Intersection,
+    lanes: Map<string, Lane>,
+    crosswalks: Crosswalk[],
+    options: StopLineOptions = {}
+  ): void {
+    const kind = this.lineKind(intersection);
+    if (!kind) return;
+    
+    const setback = options.setback ?? DEFAULT_SETBACK;
+    const reach = options.crosswalkReach ?? DEFAULT_CROSSWALK_REACH;
+    
+    for (const laneId of this.stoppingLanes(intersection, lanes)) {
+      const lane = lanes.get(laneId)!;
+      const edge = this.junctionEdge(lane, intersection, lanes);
+      const crosswalk = this.crosswalkBefore(lane, crosswalks, edge - reach, edge);
+      const along = Math.max(0, Math.min(edge, crosswalk ?? Infinity) - setback);
+      
+      lane.stopLine = this.lineAcross(lane, along);
+      lane.stopLineKind = lane.yieldSign === 'give_way' ? 'dashed' : kind;
+    }
+  }
+  
+  /**
+   * Solid line (V5) for signals and STOP, dashed (V6) for give way, none for uncontrolled
+   */
+  private static lineKind(intersection: Intersection): Lane['stopLineKind'] | undefined {
+    switch (intersection.control) {
+      case 'signals':
+      case 'stop':
+        return 'solid';
+      case 'give_way':
+      case 'priority':
+      case 'roundabout':
+        return 'dashed';
+      default:
+        return undefined;
+    }
+  }
+  
+  /**
+   * Incoming lanes that have to stop or yield
+   */
+  private static stoppingLanes(intersection: Intersection, lanes: Map<string, Lane>): string[] {
+    return intersection.incoming.filter(id => {
+      const lane = lanes.get(id);
+      if (!lane || lane.poly.length < 2) return false;
+      if (intersection.control === 'signals') return true;
+      if (intersection.control === 'roundabout') return !lane.roundabout;
+      if (intersection.mainRoad) return !intersection.mainRoad.includes(id);
+      return intersection.control !== 'priority';
+    });
+  }
+  
+  /**
+   * Arc length along lane where it enters the junction
+   */
+  private static junctionEdge(lane: Lane, intersection: Intersection, lanes: Map<string, Lane>): number {
+    const length = polylineLength(lane.poly);
+    
+    if (intersection.polygon && intersection.polygon.length >= 3) {
+      const entry = this.polygonEntry(lane.poly, intersection.polygon);
+      return entry ?? length;
+    }
+    
+    // No polygon: keep clear of the crossing road, half its width from the junction node
+    const center = intersection.center;
+    if (!center) return length;
+    
+    const clearance = this.crossingHalfWidth(lane, intersection, lanes);
+    const endGap = distance(lane.poly[lane.poly.length - 1], center);
+    return Math.max(0, length - Math.max(0, clearance - endGap));
+  }
+  
+  /**
+   * Last crossing of lane into polygon, null when the lane ends outside or on its edge
+   */
+  private static polygonEntry(poly: Vec2[], polygon: Vec2[]): number | null {
+    return polygonCrossings(poly, polygon).pop() ?? null;
+  }
+  
+  /**
+   * Largest arc length along poly where it crosses any of the segments
+   */
+  private static lastCrossing(poly: Vec2[], segments: [Vec2, Vec2][]): number | null {
+    let last: number | null = null;
+    let walked = 0;
+    
+    for (let i = 0; i < poly.length - 1; i++) {
+      const segLength = distance(poly[i], poly[i + 1]);
+      for (const [a, b] of segments) {
+        const hit = segmentIntersection(poly[i], poly[i + 1], a, b);
+        if (hit && (last === null || walked + hit.t * segLength > last)) {
+          last = walked + hit.t * segLength;
+        }
+      }
+      walked += segLength;
+    }
+    
+    return last;
+  }
+  
+  /**
+   * Half width of the widest other road at the junction
+   */
+  private static crossingHalfWidth(lane: Lane, intersection: Intersection, lanes: Map<string, Lane>): number {
+    const widths = new Map<string, number>();
+    
+    for (const id of [...intersection.incoming, ...intersection.outgoing]) {
+      const other = lanes.get(id);
+      if (!other) continue;
+      const key = other.wayId !== undefined ? `way_${other.wayId}` : other.id;
+      if (other.wayId !== undefined && other.wayId === lane.wayId) continue;
+      widths.set(key, (widths.get(key) ?? 0) + other.width);
+    }
+    
+    return Math.max(lane.width, ...widths.values()) / 2;
+  }
+  
+  /**
+   * Near edge of the crosswalk closest to the junction between two arc lengths
+   */
+  private static crosswalkBefore(lane: Lane, crosswalks: Crosswalk[], from: number, to: number): number | null {
+    let closest: number | null = null;
+    
+    for (const crosswalk of crosswalks) {
+      const [a, b] = crosswalk.segment;
+      let along: number | null = null;
+      
+      if (distance(a, b) > 1e-6) {
+        // Crosswalk line across the road
+        along = this.lastCrossing(lane.poly, [[a, b]]);
+      } else {
+        // Point crosswalk on the way centerline, lane runs half a lane width beside it
+        const projection = projectOntoPolyline(a, lane.poly);
+        if (projection.distance <= lane.width) along = projection.along;
+      }
+      
+      if (along !== null && along >= from && along <= to) {
+        const edge = along - CROSSWALK_HALF_WIDTH;
+        if (closest === null || edge > closest) closest = edge;
+      }
+    }
+    
+    return closest;
+  }
+  
+  /**
+   * Segment across the lane at arc length, left edge to right edge
+   */
+  private static lineAcross(lane: Lane, along: number): [Vec2, Vec2] {
+    const p = pointAlongPolyline(lane.poly, along);
+    const ahead = pointAlongPolyline(lane.poly, along + 0.5);
+    const behind = pointAlongPolyline(lane.poly, along - 0.5);
+    const heading = Math.atan2(ahead[1] - behind[1], ahead[0] - behind[0]);
+    const left: Vec2 = [-Math.sin(heading) * lane.width / 2, Math.cos(heading) * lane.width / 2];
+    
+    return [[p[0] + left[0], p[1] + left[1]], [p[0] - left[0], p[1] - left[1]]];
+  }
+}
@@ -0,0 +1,109 @@
+import type { RoadNetwork } from './types';
+
+export const NETWORK_PACK_FORMAT = 'autoskola-network-pack';
+export const NETWORK_PACK_VERSION = 1;
+
+/**
+ * Prebuilt road network with integrity checksum, loadable without Overpass
+ */
+export interface NetworkPack {
+  format: typeof NETWORK_PACK_FORMAT;
+  packVersion: number;       // container format, bumped on breaking pack changes
+  networkVersion: string;    // RoadNetwork.version of the payload
+  name: string;              // e.g. "prague-andel"
+  createdAt: string;         // ISO timestamp
+  query?: { south: number; west: number; north: number; east: number }; // requested bbox
+  checksum: {
+    algorithm: 'sha256';
+    value: string;           // hex digest of JSON.stringify(network)
+  };
+  network: RoadNetwork;
+}
+
+/**
+ * Error thrown when a pack is malformed, incompatible or corrupted
+ */
+export class NetworkPackError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NetworkPackError';
+  }
+}
+
+/**
+ * Wrap built network into a pack with checksum
+ */
+export async function createNetworkPack(
+  network: RoadNetwork,
+  meta: { name: string; query?: NetworkPack['query'] }
+): Promise<NetworkPack> {
+  return {
+    format: NETWORK_PACK_FORMAT,
+    packVersion: NETWORK_PACK_VERSION,
+    networkVersion: network.version,
+    name: meta.name,
+    createdAt: new Date().toISOString(),
+    query: meta.query,
+    checksum: {
+      algorithm: 'sha256',
+      value: await sha256Hex(JSON.stringify(network)),
+    },
+    network,
+  };
+}
+
+/**
+ * Validate pack header and checksum, returns contained network
+ */
+export async function verifyNetworkPack(pack: NetworkPack): Promise<RoadNetwork> {
+  if (!pack || pack.format !== NETWORK_PACK_FORMAT) {
+    throw new NetworkPackError('Not a road network pack');
+  }
+  if (pack.packVersion !== NETWORK_PACK_VERSION) {
+    throw new NetworkPackError(`Unsupported pack version ${pack.packVersion}, expected ${NETWORK_PACK_VERSION}`);
+  }
+  if (!pack.network?.projection) {
+    throw new NetworkPackError(`Network version ${pack.networkVersion} has no projection, rebuild the pack`);
+  }
+
+  const actual = await sha256Hex(JSON.stringify(pack.network));
+  if (actual !== pack.checksum?.value) {
+    throw new NetworkPackError(`Checksum mismatch for pack "${pack.name}"`);
+  }
+
+  return pack.network;
+}
+
+/**
+ * Parse serialized pack (file contents or HTTP body)
+ */
+export async function parseNetworkPack(json: string): Promise<RoadNetwork> {
+  let pack: NetworkPack;
+  try {
+    pack = JSON.parse(json);
+  } catch (error) {
+    throw new NetworkPackError(`Invalid pack JSON: ${error instanceof Error ? error.message : error}`);
+  }
+
+  return verifyNetworkPack(pack);
+}
+
+/**
+ * Fetch and verify pack from static URL
+ */
+export async function loadNetworkPack(url: string): Promise<RoadNetwork> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new NetworkPackError(`Failed to load pack ${url}: ${response.status} ${response.statusText}`);
+  }
+
+  return parseNetworkPack(await response.text());
+}
+
+/**
+ * SHA-256 via WebCrypto (browser and Node 18+)
+ */
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,91 @@
+import type { Vec2 } from './types';
+
+// Same sphere as the client's MapLayer (Web Mercator / EPSG:3857)
+const EARTH_RADIUS = 6378137; // m
+const DEG = Math.PI / 180;
+
+/**
+ * Serializable description of the network coordinate frame
+ */
+export interface NetworkProjection {
+  type: 'local_mercator';
+  origin: { lat: number; lon: number };
+}
+
+/**
+ * Local metric projection anchored at the network centre
+ *
+ * Spherical Web Mercator shifted to the origin and scaled by cos(lat0), so
+ * coordinates are [east, north] in metres around the origin. The scale error
+ * stays below 0.1 % within ~5 km of the origin, and because the projection is
+ * the MapLayer one up to a constant factor, converting to and from the
+ * client's world pixels is exact.
+ */
+export class LocalProjection {
+  readonly origin: { lat: number; lon: number };
+  private readonly scale: number;
+  private readonly mx0: number;
+  private readonly my0: number;
+
+  constructor(projection: NetworkProjection) {
+    this.origin = { ...projection.origin };
+    this.scale = Math.cos(this.origin.lat * DEG);
+
+    const { mx, my } = LocalProjection.lonLatToMercator(this.origin.lon, this.origin.lat);
+    this.mx0 = mx;
+    this.my0 = my;
+  }
+
+  /**
+   * Projection anchored at the centre of geographic bounds
+   */
+  static fromBounds(bounds: { minLat: number; maxLat: number; minLon: number; maxLon: number }): LocalProjection {
+    return new LocalProjection({
+      type: 'local_mercator',
+      origin: {
+        lat: (bounds.minLat + bounds.maxLat) / 2,
+        lon: (bounds.minLon + bounds.maxLon) / 2,
+      },
+    });
+  }
+
+  /**
+   * Geographic position to network metres
+   */
+  fromLonLat(lon: number, lat: number): Vec2 {
+    const { mx, my } = this.toMercatorOffset(lon, lat);
+    return [mx * this.scale, my * this.scale];
+  }
+
+  /**
+   * Network metres to geographic position
+   */
+  toLonLat(p: Vec2): { lon: number; lat: number } {
+    const mx = this.mx0 + p[0] / this.scale;
+    const my = this.my0 + p[1] / this.scale;
+
+    return {
+      lon: mx / EARTH_RADIUS / DEG,
+      lat: (2 * Math.atan(Math.exp(my / EARTH_RADIUS)) - Math.PI / 2) / DEG,
+    };
+  }
+
+  /**
+   * Descriptor stored in RoadNetwork metadata
+   */
+  toJSON(): NetworkProjection {
+    return { type: 'local_mercator', origin: { ...this.origin } };
+  }
+
+  private toMercatorOffset(lon: number, lat: number): { mx: number; my: number } {
+    const { mx, my } = LocalProjection.lonLatToMercator(lon, lat);
+    return { mx: mx - this.mx0, my: my - this.my0 };
+  }
+
+  private static lonLatToMercator(lon: number, lat: number): { mx: number; my: number } {
+    return {
+      mx: EARTH_RADIUS * lon * DEG,
+      my: EARTH_RADIUS * Math.log(Math.tan(Math.PI / 4 + (lat * DEG) / 2)),
+    };
+  }
+}
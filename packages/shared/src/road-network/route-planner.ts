@@ -0,0 +1,345 @@
+import type { RoadNetwork, Lane, LaneConnector, LaneType, Intersection, Vec2 } from './types';
+import {
+  classifyTurn,
+  distance,
+  polylineLength,
+  turnAngleBetween,
+} from './geometry';
+
+/**
+ * Route search options
+ */
+export interface RouteOptions {
+  allowedLaneTypes?: LaneType[];         // default: general traffic only (learner car)
+  leftTurnPenalty?: number;              // seconds added per left turn
+  unsignalisedCrossingPenalty?: number;  // seconds added per junction without signals
+  maxSnapDistance?: number;              // metres from position to lane
+}
+
+/**
+ * Single route element, lanes and connectors alternate where junctions exist
+ */
+export type RouteStep =
+  | { kind: 'lane'; id: string }
+  | { kind: 'connector'; id: string };
+
+/**
+ * Planned route through the lane graph
+ */
+export interface Route {
+  steps: RouteStep[];
+  lanes: string[];          // Lane.id in driving order
+  connectors: string[];     // LaneConnector.id in driving order
+  startOffset: number;      // metres along first lane where route starts
+  endOffset: number;        // metres along last lane where route ends
+  length: number;           // metres
+  travelTime: number;       // seconds at lane speed limits
+  cost: number;             // travelTime + penalties
+}
+
+const DEFAULT_OPTIONS: Required<RouteOptions> = {
+  allowedLaneTypes: ['general'],
+  leftTurnPenalty: 15,
+  unsignalisedCrossingPenalty: 4,
+  maxSnapDistance: 50,
+};
+
+const MIN_SPEED = 1;                // m/s, guards against zero maxSpeed lanes
+const MAX_CONTINUATION_ANGLE = Math.PI * 0.75; // same U-turn limit as IntersectionBuilder
+
+/**
+ * Edge of the lane graph, from the end of one lane to the start of another
+ */
+interface LaneEdge {
+  toLane: Lane;
+  connector?: LaneConnector;  // undefined for plain continuation without junction
+  cost: number;               // seconds, connector travel + penalties
+  time: number;               // seconds, connector travel only
+  length: number;             // metres
+}
+
+/**
+ * Search node - reached lane entry with cost so far
+ */
+interface SearchEntry {
+  lane: Lane;
+  g: number;
+  f: number;
+}
+
+/**
+ * A* route planner over lanes and lane connectors
+ */
+export class RoutePlanner {
+  private network: RoadNetwork;
+  private connectorsByFromLane = new Map<string, LaneConnector[]>();
+  private intersectionByConnector = new Map<string, Intersection>();
+  private lanesByFromNode = new Map<string, Lane[]>();
+  private junctionLanes = new Set<string>();  // lanes ending in an intersection
+  private laneLengths = new Map<string, number>();
+  private maxSpeed = MIN_SPEED;
+
+  constructor(network: RoadNetwork) {
+    this.network = network;
+
+    for (const connector of Object.values(network.laneConnectors)) {
+      const list = this.connectorsByFromLane.get(connector.fromLane) ?? [];
+      list.push(connector);
+      this.connectorsByFromLane.set(connector.fromLane, list);
+    }
+
+    for (const intersection of Object.values(network.intersections)) {
+      intersection.connectors.forEach(id => this.intersectionByConnector.set(id, intersection));
+      intersection.incoming.forEach(id => this.junctionLanes.add(id));
+    }
+
+    for (const lane of Object.values(network.lanes)) {
+      const list = this.lanesByFromNode.get(lane.fromNode) ?? [];
+      list.push(lane);
+      this.lanesByFromNode.set(lane.fromNode, list);
+
+      this.laneLengths.set(lane.id, polylineLength(lane.poly));
+      this.maxSpeed = Math.max(this.maxSpeed, lane.maxSpeed);
+    }
+  }
+
+  /**
+   * Find cheapest route between positions on two lanes
+   */
+  plan(
+    from: { lane: Lane; offset: number },
+    to: { lane: Lane; offset: number; point: Vec2 },
+    options: RouteOptions = {}
+  ): Route | null {
+    const opts = { ...DEFAULT_OPTIONS, ...options };
+
+    if (!opts.allowedLaneTypes.includes(from.lane.type) || !opts.allowedLaneTypes.includes(to.lane.type)) {
+      return null;
+    }
+
+    // Same lane, target ahead - no search needed
+    if (from.lane.id === to.lane.id && to.offset >= from.offset) {
+      const time = (to.offset - from.offset) / this.laneSpeed(from.lane);
+      return {
+        steps: [{ kind: 'lane', id: from.lane.id }],
+        lanes: [from.lane.id],
+        connectors: [],
+        startOffset: from.offset,
+        endOffset: to.offset,
+        length: to.offset - from.offset,
+        travelTime: time,
+        cost: time,
+      };
+    }
+
+    // g = cost at lane entry; the start lane is entered "before" the start point
+    const startG = -from.offset / this.laneSpeed(from.lane);
+    const open = new MinHeap<SearchEntry>((a, b) => a.f - b.f);
+    const best = new Map<string, number>([[from.lane.id, startG]]);
+    const cameFrom = new Map<string, { prev: string; edge: LaneEdge }>();
+    const closed = new Set<string>();
+
+    open.push({ lane: from.lane, g: startG, f: startG + this.heuristic(from.lane, to.point) });
+
+    let goalCost = Infinity;
+
+    while (open.size > 0) {
+      const current = open.pop()!;
+      if (current.f >= goalCost) break;
+      if (closed.has(current.lane.id)) continue;
+      closed.add(current.lane.id);
+
+      // Reaching the goal lane (not the start lane revisited from behind)
+      if (current.lane.id === to.lane.id && current.lane.id !== from.lane.id) {
+        goalCost = Math.min(goalCost, current.g + to.offset / this.laneSpeed(current.lane));
+        continue;
+      }
+
+      const laneTime = this.laneLengths.get(current.lane.id)! / this.laneSpeed(current.lane);
+
+      for (const edge of this.outgoingEdges(current.lane, opts)) {
+        const g = current.g + laneTime + edge.cost;
+
+        // Looping back to start lane from behind is the goal when target lies before start
+        const nextId = edge.toLane.id;
+        if (nextId === from.lane.id && nextId === to.lane.id) {
+          const total = g + to.offset / this.laneSpeed(edge.toLane);
+          if (total < goalCost) {
+            goalCost = total;
+            cameFrom.set('__goal__', { prev: current.lane.id, edge });
+          }
+          continue;
+        }
+
+        if (g < (best.get(nextId) ?? Infinity)) {
+          best.set(nextId, g);
+          cameFrom.set(nextId, { prev: current.lane.id, edge });
+          open.push({ lane: edge.toLane, g, f: g + this.heuristic(edge.toLane, to.point) });
+        }
+      }
+    }
+
+    if (goalCost === Infinity) return null;
+
+    return this.reconstruct(from, to, cameFrom);
+  }
+
+  /**
+   * Junction connectors, or plain continuation where lanes meet outside intersections
+   */
+  private outgoingEdges(lane: Lane, opts: Required<RouteOptions>): LaneEdge[] {
+    const edges: LaneEdge[] = [];
+
+    if (this.junctionLanes.has(lane.id)) {
+      for (const connector of this.connectorsByFromLane.get(lane.id) ?? []) {
+        if (!connector.allowed) continue;
+
+        const toLane = this.network.lanes[connector.toLane];
+        if (!toLane || !opts.allowedLaneTypes.includes(toLane.type)) continue;
+
+        const length = polylineLength(connector.path);
+        const time = length / Math.min(this.laneSpeed(lane), this.laneSpeed(toLane));
+        let cost = time;
+
+        if (classifyTurn(turnAngleBetween(lane.poly, toLane.poly)) === 'left') {
+          cost += opts.leftTurnPenalty;
+        }
+
+        const intersection = this.intersectionByConnector.get(connector.id);
+        if (intersection && intersection.control !== 'signals') {
+          cost += opts.unsignalisedCrossingPenalty;
+        }
+
+        edges.push({ toLane, connector, cost, time, length });
+      }
+      return edges;
+    }
+
+    for (const toLane of this.lanesByFromNode.get(lane.toNode) ?? []) {
+      if (!opts.allowedLaneTypes.includes(toLane.type)) continue;
+      if (Math.abs(turnAngleBetween(lane.poly, toLane.poly)) > MAX_CONTINUATION_ANGLE) continue;
+
+      edges.push({ toLane, cost: 0, time: 0, length: 0 });
+    }
+
+    return edges;
+  }
+
+  /**
+   * Walk predecessor links back from the goal and total up the route
+   */
+  private reconstruct(
+    from: { lane: Lane; offset: number },
+    to: { lane: Lane; offset: number },
+    cameFrom: Map<string, { prev: string; edge: LaneEdge }>
+  ): Route {
+    const chain: { lane: Lane; edge?: LaneEdge }[] = [];
+
+    let link = cameFrom.get('__goal__') ?? cameFrom.get(to.lane.id);
+    chain.unshift({ lane: to.lane, edge: link?.edge });
+
+    while (link) {
+      const lane = this.network.lanes[link.prev];
+      if (lane.id === from.lane.id) {
+        chain.unshift({ lane });
+        break;
+      }
+      link = cameFrom.get(lane.id);
+      chain.unshift({ lane, edge: link?.edge });
+    }
+
+    const steps: RouteStep[] = [];
+    let length = 0;
+    let travelTime = 0;
+    let cost = 0;
+
+    chain.forEach(({ lane, edge }, i) => {
+      if (edge) {
+        if (edge.connector) steps.push({ kind: 'connector', id: edge.connector.id });
+        length += edge.length;
+        travelTime += edge.time;
+        cost += edge.cost - edge.time;
+      }
+      steps.push({ kind: 'lane', id: lane.id });
+
+      const laneLength = this.laneLengths.get(lane.id)!;
+      const start = i === 0 ? from.offset : 0;
+      const end = i === chain.length - 1 ? to.offset : laneLength;
+      length += end - start;
+      travelTime += (end - start) / this.laneSpeed(lane);
+    });
+
+    return {
+      steps,
+      lanes: steps.filter(s => s.kind === 'lane').map(s => s.id),
+      connectors: steps.filter(s => s.kind === 'connector').map(s => s.id),
+      startOffset: from.offset,
+      endOffset: to.offset,
+      length,
+      travelTime,
+      cost: cost + travelTime,
+    };
+  }
+
+  /**
+   * Optimistic travel time from lane start to target
+   */
+  private heuristic(lane: Lane, target: Vec2): number {
+    return distance(lane.poly[0], target) / this.maxSpeed;
+  }
+
+  private laneSpeed(lane: Lane): number {
+    return Math.max(MIN_SPEED, lane.maxSpeed);
+  }
+}
+
+/**
+ * Binary heap priority queue
+ */
+export class MinHeap<T> {
+  private items: T[] = [];
+
+  constructor(private compare: (a: T, b: T) => number) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(item: T): void {
+    const items = this.items;
+    items.push(item);
+
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.compare(items[i], items[parent]) >= 0) break;
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    if (items.length === 0) return undefined;
+
+    const top = items[0];
+    const last = items.pop()!;
+
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && this.compare(items[left], items[smallest]) < 0) smallest = left;
+        if (right < items.length && this.compare(items[right], items[smallest]) < 0) smallest = right;
+        if (smallest === i) break;
+        [items[i], items[smallest]] = [items[smallest], items[i]];
+        i = smallest;
+      }
+    }
+
+    return top;
+  }
+}
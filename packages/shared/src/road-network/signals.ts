@@ -0,0 +1,265 @@
+import type { RoadNetwork, Lane, Intersection } from './types';
+import { endHeading, normalizeAngle } from './geometry';
+
+export type SignalState = 'red' | 'red_amber' | 'green' | 'amber';
+
+/**
+ * Fixed-time interval lengths in seconds
+ */
+export interface SignalTiming {
+  green: number;
+  amber: number;            // "žlutá", end of green
+  redAmber: number;         // "červená se žlutou", before green
+  allRed: number;           // clearance between phases
+}
+
+/**
+ * Signal heads controlling one approach of an intersection
+ */
+export interface SignalGroup {
+  id: string;
+  intersectionId: string;
+  lanes: string[];          // incoming Lane.id
+  connectors: string[];     // LaneConnector.id starting on those lanes
+}
+
+/**
+ * Groups showing green together
+ */
+export interface SignalPhase {
+  groups: string[];         // SignalGroup.id
+  start: number;            // s from cycle start, red-amber begins
+  greenStart: number;
+  greenEnd: number;
+  end: number;              // s, all-red clearance ends
+}
+
+/**
+ * Fixed-time plan of one signalised intersection
+ */
+export interface SignalPlan {
+  intersectionId: string;
+  phases: SignalPhase[];
+  cycle: number;            // s
+  offset: number;           // s, shifts the cycle against simulation time
+}
+
+export interface SignalGroupState {
+  state: SignalState;
+  remaining: number;        // s until the state changes
+}
+
+export interface SignalControllerOptions {
+  timing?: Partial<SignalTiming>;
+  offsets?: Record<string, number>;   // Intersection.id -> cycle offset in s
+}
+
+export const DEFAULT_SIGNAL_TIMING: SignalTiming = {
+  green: 20,
+  amber: 3,
+  redAmber: 1.5,
+  allRed: 2,
+};
+
+// Approaches within this angle of straight across share a phase (left turns permissive)
+const OPPOSITE_TOLERANCE = Math.PI / 4;
+
+/**
+ * Signal group id for each incoming lane, one group per approach (OSM way)
+ *
+ * Groups are numbered counter-clockwise from east so that the same
+ * intersection always gets the same ids.
+ */
+export function signalGroupIds(intersection: Intersection, incomingLanes: Lane[]): Map<string, string> {
+  const approaches = new Map<string, Lane[]>();
+  for (const lane of incomingLanes) {
+    const key = lane.wayId !== undefined ? `way_${lane.wayId}` : lane.id;
+    approaches.set(key, [...(approaches.get(key) ?? []), lane]);
+  }
+
+  const ordered = [...approaches.entries()]
+    .map(([key, lanes]) => ({ key, lanes, bearing: approachBearing(lanes[0]) }))
+    .sort((a, b) => a.bearing - b.bearing || (a.key < b.key ? -1 : 1));
+
+  const ids = new Map<string, string>();
+  ordered.forEach(({ lanes }, index) => {
+    lanes.forEach(lane => ids.set(lane.id, `${intersection.id}_sg_${index}`));
+  });
+
+  return ids;
+}
+
+/**
+ * Fixed-time signal controller for all signalised intersections of a network
+ *
+ * Signal groups come from Lane.signalGroupId (assigned by IntersectionBuilder),
+ * or are derived the same way for networks built before signal groups existed.
+ * Phases are filled greedily: a group joins the first phase whose groups it
+ * does not conflict with, opposite approaches always share one.
+ */
+export class SignalController {
+  private timing: SignalTiming;
+  private groups = new Map<string, SignalGroup>();
+  private plans = new Map<string, SignalPlan>();
+  private groupByConnector = new Map<string, string>();
+
+  constructor(private network: RoadNetwork, options: SignalControllerOptions = {}) {
+    this.timing = { ...DEFAULT_SIGNAL_TIMING, ...options.timing };
+
+    for (const intersection of Object.values(network.intersections)) {
+      if (intersection.control !== 'signals') continue;
+
+      const groups = this.buildGroups(intersection);
+      groups.forEach(group => {
+        this.groups.set(group.id, group);
+        group.connectors.forEach(id => this.groupByConnector.set(id, group.id));
+      });
+      this.plans.set(intersection.id, this.buildPlan(intersection, groups, options.offsets?.[intersection.id] ?? 0));
+    }
+  }
+
+  /**
+   * Signal groups of intersection, empty when not signalised
+   */
+  getGroups(intersectionId: string): SignalGroup[] {
+    return [...this.groups.values()].filter(group => group.intersectionId === intersectionId);
+  }
+
+  /**
+   * Phase plan of intersection
+   */
+  getPlan(intersectionId: string): SignalPlan | undefined {
+    return this.plans.get(intersectionId);
+  }
+
+  /**
+   * Signal group controlling connector, undefined for unsignalised movements
+   */
+  getConnectorGroup(connectorId: string): SignalGroup | undefined {
+    const groupId = this.groupByConnector.get(connectorId);
+    return groupId ? this.groups.get(groupId) : undefined;
+  }
+
+  /**
+   * State of signal group at simulation time (s)
+   */
+  getGroupState(groupId: string, time: number): SignalGroupState {
+    const group = this.groups.get(groupId);
+    const plan = group && this.plans.get(group.intersectionId);
+    if (!group || !plan) throw new Error(`Unknown signal group ${groupId}`);
+
+    const t = ((time - plan.offset) % plan.cycle + plan.cycle) % plan.cycle;
+    const index = plan.phases.findIndex(phase => t >= phase.start && t < phase.end);
+    const phase = plan.phases[index];
+
+    if (phase.groups.includes(groupId)) {
+      if (t < phase.greenStart) return { state: 'red_amber', remaining: phase.greenStart - t };
+      if (t < phase.greenEnd) return { state: 'green', remaining: phase.greenEnd - t };
+      const amberEnd = phase.greenEnd + this.timing.amber;
+      if (t < amberEnd) return { state: 'amber', remaining: amberEnd - t };
+    }
+
+    return { state: 'red', remaining: this.untilRedAmber(plan, groupId, t) };
+  }
+
+  /**
+   * State of the signal a connector's movement obeys, undefined when unsignalised
+   */
+  getConnectorState(connectorId: string, time: number): SignalGroupState | undefined {
+    const groupId = this.groupByConnector.get(connectorId);
+    return groupId ? this.getGroupState(groupId, time) : undefined;
+  }
+
+  /**
+   * Whether movement may enter the intersection - unsignalised movements always may
+   */
+  isGreen(connectorId: string, time: number): boolean {
+    const state = this.getConnectorState(connectorId, time);
+    return !state || state.state === 'green';
+  }
+
+  /**
+   * Groups per approach, with connectors taken from the intersection
+   */
+  private buildGroups(intersection: Intersection): SignalGroup[] {
+    const incoming = intersection.incoming.map(id => this.network.lanes[id]).filter(Boolean);
+    const derived = signalGroupIds(intersection, incoming);
+    const groups = new Map<string, SignalGroup>();
+
+    for (const lane of incoming) {
+      const id = lane.signalGroupId ?? derived.get(lane.id)!;
+      const group = groups.get(id) ?? { id, intersectionId: intersection.id, lanes: [], connectors: [] };
+      group.lanes.push(lane.id);
+      groups.set(id, group);
+    }
+
+    const groupByLane = new Map([...groups.values()].flatMap(group => group.lanes.map(lane => [lane, group] as const)));
+    for (const connectorId of intersection.connectors) {
+      const connector = this.network.laneConnectors[connectorId];
+      if (connector?.allowed) groupByLane.get(connector.fromLane)?.connectors.push(connectorId);
+    }
+
+    return [...groups.values()].sort((a, b) => (a.id < b.id ? -1 : 1));
+  }
+
+  /**
+   * Greedy phase assignment and fixed-time interval layout
+   */
+  private buildPlan(intersection: Intersection, groups: SignalGroup[], offset: number): SignalPlan {
+    const phaseGroups: SignalGroup[][] = [];
+
+    for (const group of groups) {
+      const phase = phaseGroups.find(members => members.every(other => this.compatible(intersection, group, other)));
+      if (phase) phase.push(group);
+      else phaseGroups.push([group]);
+    }
+
+    const { green, amber, redAmber, allRed } = this.timing;
+    let start = 0;
+    const phases = phaseGroups.map(members => {
+      const phase: SignalPhase = {
+        groups: members.map(group => group.id),
+        start,
+        greenStart: start + redAmber,
+        greenEnd: start + redAmber + green,
+        end: start + redAmber + green + amber + allRed,
+      };
+      start = phase.end;
+      return phase;
+    });
+
+    return { intersectionId: intersection.id, phases, cycle: start, offset };
+  }
+
+  /**
+   * Groups may be green together when they face each other or never conflict
+   */
+  private compatible(intersection: Intersection, a: SignalGroup, b: SignalGroup): boolean {
+    const laneA = this.network.lanes[a.lanes[0]];
+    const laneB = this.network.lanes[b.lanes[0]];
+    const across = Math.abs(Math.abs(normalizeAngle(approachBearing(laneA) - approachBearing(laneB))) - Math.PI);
+    if (across <= OPPOSITE_TOLERANCE) return true;
+
+    return !intersection.conflicts.some(conflict =>
+      conflict.type !== 'diverging' &&
+      ((a.connectors.includes(conflict.connectorA) && b.connectors.includes(conflict.connectorB)) ||
+       (a.connectors.includes(conflict.connectorB) && b.connectors.includes(conflict.connectorA)))
+    );
+  }
+
+  /**
+   * Seconds of red left before group's next red-amber
+   */
+  private untilRedAmber(plan: SignalPlan, groupId: string, t: number): number {
+    const phase = plan.phases.find(p => p.groups.includes(groupId))!;
+    return phase.start > t ? phase.start - t : phase.start + plan.cycle - t;
+  }
+}
+
+/**
+ * Direction the approach comes from, seen from the junction, in [0, 2π)
+ */
+function approachBearing(lane: Lane): number {
+  const bearing = normalizeAngle(endHeading(lane.poly) + Math.PI);
+  return bearing < 0 ? bearing + 2 * Math.PI : bearing;
+}
@@ -0,0 +1,160 @@
+import type { Vec2 } from './types';
+import type { BBox } from './geometry';
+
+/**
+ * Uniform grid spatial index
+ *
+ * Items are registered under every cell their bounding box touches, so a
+ * query only has to visit the cells it overlaps instead of every item.
+ * Built once and read many times per frame - there is no removal.
+ */
+export class SpatialGrid<T> {
+  private readonly cellSize: number;
+  private cells = new Map<string, T[]>();
+  private itemCount = 0;
+
+  // Occupied cell range, bounds the ring search in nearest()
+  private minCellX = Infinity;
+  private minCellY = Infinity;
+  private maxCellX = -Infinity;
+  private maxCellY = -Infinity;
+
+  constructor(cellSize: number) {
+    if (!(cellSize > 0) || !Number.isFinite(cellSize)) {
+      throw new Error(`Invalid spatial grid cell size: ${cellSize}`);
+    }
+    this.cellSize = cellSize;
+  }
+
+  /**
+   * Register item under all cells overlapping its bounding box
+   */
+  insert(item: T, bbox: BBox): void {
+    const x0 = this.cellCoord(bbox.minX);
+    const y0 = this.cellCoord(bbox.minY);
+    const x1 = this.cellCoord(bbox.maxX);
+    const y1 = this.cellCoord(bbox.maxY);
+
+    for (let cx = x0; cx <= x1; cx++) {
+      for (let cy = y0; cy <= y1; cy++) {
+        const key = this.cellKey(cx, cy);
+        let bucket = this.cells.get(key);
+        if (!bucket) {
+          bucket = [];
+          this.cells.set(key, bucket);
+        }
+        bucket.push(item);
+      }
+    }
+
+    this.minCellX = Math.min(this.minCellX, x0);
+    this.minCellY = Math.min(this.minCellY, y0);
+    this.maxCellX = Math.max(this.maxCellX, x1);
+    this.maxCellY = Math.max(this.maxCellY, y1);
+    this.itemCount++;
+  }
+
+  /**
+   * Items whose cells overlap the bounding box (candidates, not exact hits)
+   */
+  query(bbox: BBox): T[] {
+    const x0 = Math.max(this.cellCoord(bbox.minX), this.minCellX);
+    const y0 = Math.max(this.cellCoord(bbox.minY), this.minCellY);
+    const x1 = Math.min(this.cellCoord(bbox.maxX), this.maxCellX);
+    const y1 = Math.min(this.cellCoord(bbox.maxY), this.maxCellY);
+
+    const seen = new Set<T>();
+    for (let cx = x0; cx <= x1; cx++) {
+      for (let cy = y0; cy <= y1; cy++) {
+        const bucket = this.cells.get(this.cellKey(cx, cy));
+        if (!bucket) continue;
+        for (const item of bucket) seen.add(item);
+      }
+    }
+
+    return [...seen];
+  }
+
+  /**
+   * Nearest item by exact distance, searching rings of cells outwards
+   */
+  nearest(
+    point: Vec2,
+    maxDistance: number,
+    distanceFn: (item: T) => number
+  ): { item: T; distance: number } | null {
+    if (this.itemCount === 0) return null;
+
+    const pcx = this.cellCoord(point[0]);
+    const pcy = this.cellCoord(point[1]);
+
+    // Rings beyond this one cannot contain any item
+    const maxRing = Math.max(
+      Math.abs(pcx - this.minCellX),
+      Math.abs(pcx - this.maxCellX),
+      Math.abs(pcy - this.minCellY),
+      Math.abs(pcy - this.maxCellY)
+    );
+
+    let best: T | null = null;
+    let bestDistance = maxDistance;
+    const seen = new Set<T>();
+
+    for (let ring = 0; ring <= maxRing; ring++) {
+      // Everything in this ring is at least (ring - 1) cells away from the point
+      if ((ring - 1) * this.cellSize > bestDistance) break;
+
+      for (const [cx, cy] of this.ringCells(pcx, pcy, ring)) {
+        const bucket = this.cells.get(this.cellKey(cx, cy));
+        if (!bucket) continue;
+
+        for (const item of bucket) {
+          if (seen.has(item)) continue;
+          seen.add(item);
+
+          const d = distanceFn(item);
+          if (d < bestDistance) {
+            bestDistance = d;
+            best = item;
+          }
+        }
+      }
+    }
+
+    return best === null ? null : { item: best, distance: bestDistance };
+  }
+
+  /**
+   * Number of inserted items
+   */
+  get size(): number {
+    return this.itemCount;
+  }
+
+  /**
+   * Cells at Chebyshev distance `ring` from the centre cell
+   */
+  private *ringCells(cx: number, cy: number, ring: number): Generator<[number, number]> {
+    if (ring === 0) {
+      yield [cx, cy];
+      return;
+    }
+
+    for (let x = cx - ring; x <= cx + ring; x++) {
+      yield [x, cy - ring];
+      yield [x, cy + ring];
+    }
+    for (let y = cy - ring + 1; y <= cy + ring - 1; y++) {
+      yield [cx - ring, y];
+      yield [cx + ring, y];
+    }
+  }
+
+  private cellCoord(value: number): number {
+    return Math.floor(value / this.cellSize);
+  }
+
+  private cellKey(cx: number, cy: number): string {
+    return `${cx},${cy}`;
+  }
+}
@@ -0,0 +1,21 @@
+import type { Intersection, Lane } from './types';
+import { projectOntoPolyline } from './geometry';
+
+/** m/s, a road user slower than this counts as standing */
+export const MOVING_SPEED = 0.5;
+
+/**
+ * STOP sign on the lane, or all-way STOP / side road of a STOP junction
+ */
+export function mustStop(lane: Lane, intersection: Intersection | null): boolean {
+  if (lane.yieldSign === 'stop') return true;
+  return intersection?.control === 'stop' && !intersection.mainRoad?.includes(lane.id);
+}
+
+/**
+ * Arc length of the stop line along its lane
+ */
+export function stopLineAlong(lane: Lane): number {
+  const [a, b] = lane.stopLine!;
+  return projectOntoPolyline([(a[0] + b[0]) / 2, (a[1] + b[1]) / 2], lane.poly).along;
+}
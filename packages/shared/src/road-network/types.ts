@@ -1,11 +1,14 @@
 // Core types for semantic road network model
 // Based on LaneGraph + PedNet + CrossLink architecture
 
-export type Vec2 = [number, number];
+import type { NetworkProjection } from './projection';
+
+export type Vec2 = [number, number];  // [east, north] metres in the network projection
 
 export type LaneType = 'general' | 'bus' | 'bike' | 'tram';
 export type TurnType = 'left' | 'right' | 'through' | 'slight_left' | 'slight_right';
 export type ControlType = 'signals' | 'priority' | 'stop' | 'give_way' | 'roundabout' | 'uncontrolled';
+export type YieldSign = 'stop' | 'give_way';
 
 /**
  * Single driving lane with geometry and traffic rules
@@ -19,8 +22,14 @@ export interface Lane {
   type: LaneType;
   fromNode: string;
   toNode: string;
+  wayId?: number;           // source OSM way
+  name?: string;            // street name from OSM name tag
+  roundabout?: boolean;     // part of junction=roundabout way
+  priorityRoad?: boolean;   // way tagged priority_road, directly or through a relation
+  yieldSign?: YieldSign;    // STOP / give-way sign before the lane end
   turnHint?: TurnType;      // from turn:lanes OSM tag
-  stopLine?: [Vec2, Vec2];  // stop line segment
+  stopLine?: [Vec2, Vec2];  // stop line segment, left edge to right edge
+  stopLineKind?: 'solid' | 'dashed'; // V5 for signals / STOP, V6 for give way
   signalGroupId?: string;   // traffic signal group
 }
 
@@ -33,6 +42,10 @@ export interface LaneConnector {
   toLane: string;           // outgoing lane  
   path: Vec2[];             // bezier curve through intersection
   allowed: boolean;         // after turn restrictions
+  arcLength?: number[];     // metres from path start, per path vertex
+  curvature?: number[];     // 1/m per path vertex, left turn positive
+  minRadius?: number;       // m, tightest point of the path, absent when straight
+  tooTight?: boolean;       // minRadius below the car's minTurningRadius(), not drivable as drawn
 }
 
 /**
@@ -40,12 +53,29 @@ export interface LaneConnector {
  */
 export interface Intersection {
   id: string;
+  center?: Vec2;            // junction node position
   polygon?: Vec2[];         // intersection area boundary
   incoming: string[];       // Lane.id array
   outgoing: string[];       // Lane.id array
   connectors: string[];     // LaneConnector.id array
   control: ControlType;
+  mainRoad?: string[];      // Lane.id of incoming and outgoing lanes on the priority road
   rules: RightOfWayRule[];  // conflict resolution
+  conflicts: ConnectorConflict[]; // where connector paths meet
+}
+
+export type ConflictType = 'crossing' | 'merging' | 'diverging';
+
+/**
+ * Geometric conflict between two connectors of one intersection
+ */
+export interface ConnectorConflict {
+  connectorA: string;
+  connectorB: string;
+  type: ConflictType;
+  point: Vec2;              // crossing point, start of shared exit or end of shared entry
+  alongA: number;           // metres along connectorA path to point
+  alongB: number;           // metres along connectorB path to point
 }
 
 /**
@@ -62,7 +92,8 @@ export interface RightOfWayRule {
  */
 export interface Crosswalk {
   id: string;
-  segment: [Vec2, Vec2];    // crosswalk line
+  segment: [Vec2, Vec2];    // crosswalk line, curb to curb across the road
+  lanes?: string[];         // Lane.ids the crosswalk crosses
   hasSignals: boolean;
   priority: 'ped_over_cars' | 'cars_over_ped' | 'signal';
   nearIntersection?: string; // Intersection.id
@@ -113,7 +144,10 @@ export interface RoadNetwork {
   crosswalks: Record<string, Crosswalk>;
   crossLinks: Record<string, CrossLink>;
   
-  // Spatial bounds for rendering/culling
+  // Local metric frame of all Vec2 geometry
+  projection: NetworkProjection;
+  
+  // Geographic bounds for rendering/culling
   bounds: {
     minLat: number;
     maxLat: number;
@@ -0,0 +1,142 @@
+import type { RoadNetwork, Crosswalk, Vec2 } from './types';
+import { distance, polylineLength } from './geometry';
+import { MinHeap } from './route-planner';
+
+const CROSSING_PENALTY = 15;    // m added per road crossing, a similar way along the sidewalk wins
+
+/**
+ * Piece of a walk, along a pedestrian edge or over a crosswalk
+ */
+export interface WalkLeg {
+  poly: Vec2[];             // in walking direction
+  edgeId?: string;          // PedEdge.id walked along
+  crosswalkId?: string;     // Crosswalk.id crossed, poly runs curb to curb in between
+  toNode: string;           // PedNode.id the leg ends at
+}
+
+/**
+ * Planned walk between two pedestrian nodes
+ */
+export interface Walk {
+  fromNode: string;
+  toNode: string;
+  legs: WalkLeg[];
+  length: number;           // m
+}
+
+interface WalkEdge {
+  leg: WalkLeg;
+  length: number;
+  cost: number;             // length plus crossing penalty
+}
+
+interface SearchEntry {
+  node: string;
+  g: number;
+  f: number;
+}
+
+/**
+ * A* walk planner over pedestrian edges and crosswalks
+ *
+ * Pedestrian edges are walked both ways. A crosswalk joins the pedNodes its
+ * CrossLinks start from, walking the link to one curb, across and on from
+ * the other.
+ */
+export class WalkPlanner {
+  private adjacency = new Map<string, WalkEdge[]>();
+  private positions = new Map<string, Vec2>();
+
+  constructor(network: RoadNetwork) {
+    for (const node of Object.values(network.pedNodes)) {
+      this.positions.set(node.id, node.p);
+    }
+
+    for (const edge of Object.values(network.pedEdges)) {
+      const length = polylineLength(edge.poly);
+      this.addEdge(edge.fromNode, { poly: edge.poly, edgeId: edge.id, toNode: edge.toNode }, length, length);
+      this.addEdge(edge.toNode, { poly: [...edge.poly].reverse(), edgeId: edge.id, toNode: edge.fromNode }, length, length);
+    }
+
+    const ends = new Map<string, string[]>();
+    for (const link of Object.values(network.crossLinks)) {
+      if (!link.crossing || link.from.kind !== 'pedNode' || !this.positions.has(link.from.ref)) continue;
+      ends.set(link.crossing, [...(ends.get(link.crossing) ?? []), link.from.ref]);
+    }
+
+    for (const [crosswalkId, nodes] of ends) {
+      const crosswalk = network.crosswalks[crosswalkId];
+      if (!crosswalk) continue;
+
+      for (const from of nodes) {
+        for (const to of nodes) {
+          if (from === to) continue;
+          const poly = this.crossingPoly(crosswalk, this.positions.get(from)!, this.positions.get(to)!);
+          const length = polylineLength(poly);
+          this.addEdge(from, { poly, crosswalkId, toNode: to }, length, length + CROSSING_PENALTY);
+        }
+      }
+    }
+  }
+
+  /**
+   * Shortest walk between pedestrian nodes, null when they are not connected
+   */
+  plan(fromNode: string, toNode: string): Walk | null {
+    const target = this.positions.get(toNode);
+    if (!this.positions.has(fromNode) || !target) return null;
+
+    const open = new MinHeap<SearchEntry>((a, b) => a.f - b.f);
+    const best = new Map<string, number>([[fromNode, 0]]);
+    const cameFrom = new Map<string, { prev: string; edge: WalkEdge }>();
+    const closed = new Set<string>();
+
+    open.push({ node: fromNode, g: 0, f: distance(this.positions.get(fromNode)!, target) });
+
+    while (open.size > 0) {
+      const current = open.pop()!;
+      if (current.node === toNode) break;
+      if (closed.has(current.node)) continue;
+      closed.add(current.node);
+
+      for (const edge of this.adjacency.get(current.node) ?? []) {
+        const next = edge.leg.toNode;
+        const g = current.g + edge.cost;
+        if (g >= (best.get(next) ?? Infinity)) continue;
+
+        best.set(next, g);
+        cameFrom.set(next, { prev: current.node, edge });
+        open.push({ node: next, g, f: g + distance(this.positions.get(next)!, target) });
+      }
+    }
+
+    if (fromNode !== toNode && !cameFrom.has(toNode)) return null;
+
+    const legs: WalkLeg[] = [];
+    let length = 0;
+    for (let node = toNode; node !== fromNode;) {
+      const { prev, edge } = cameFrom.get(node)!;
+      legs.unshift(edge.leg);
+      length += edge.length;
+      node = prev;
+    }
+
+    return { fromNode, toNode, legs, length };
+  }
+
+  private addEdge(from: string, leg: WalkLeg, length: number, cost: number): void {
+    const list = this.adjacency.get(from) ?? [];
+    list.push({ leg, length, cost });
+    this.adjacency.set(from, list);
+  }
+
+  /**
+   * Link to the near curb, over the road and link from the far curb
+   */
+  private crossingPoly(crosswalk: Crosswalk, from: Vec2, to: Vec2): Vec2[] {
+    const [a, b] = crosswalk.segment;
+    const curbs = distance(from, a) <= distance(from, b) ? [a, b] : [b, a];
+
+    return [from, ...curbs, to].filter((p, i, poly) => i === 0 || distance(p, poly[i - 1]) > 1e-6);
+  }
+}
@@ -0,0 +1,20 @@
+// Driving exam rule checks
+export { RuleEngine, DEFAULT_RULE_TOLERANCES } from './rule-engine';
+export { TurnSignalChecker, type SignalMark, type SignalDemand } from './turn-signal-checker';
+export type {
+  VehicleState,
+  TrafficParticipant,
+  RuleTolerances,
+  RuleEngineOptions,
+  RuleViolation,
+  ViolationType,
+  SpeedingViolation,
+  StopSignViolation,
+  RedLightViolation,
+  FailedToYieldViolation,
+  WrongWayViolation,
+  RestrictedLaneViolation,
+  TurnSignalViolation,
+  BlinkerSide,
+  SignalledManeuver,
+} from './types';
@@ -0,0 +1,496 @@
+import { eventBus } from '../eventBus';
+import type { RoadNetworkManager } from '../road-network/RoadNetwork';
+import type { Intersection, Lane, LaneType, Vec2 } from '../road-network/types';
+import {
+  distance,
+  distanceToPolyline,
+  normalizeAngle,
+  polylineLength,
+  projectOntoPolyline,
+  segmentIntersection,
+} from '../road-network/geometry';
+import { MOVING_SPEED, mustStop, stopLineAlong } from '../road-network/stopping';
+import { TurnSignalChecker, type SignalMark } from './turn-signal-checker';
+import type {
+  RuleEngineOptions,
+  RuleTolerances,
+  RuleViolation,
+  TrafficParticipant,
+  VehicleState,
+  ViolationType,
+} from './types';
+
+export const DEFAULT_RULE_TOLERANCES: RuleTolerances = {
+  speed: 3 / 3.6,
+  speedingGrace: 1,
+  stopSpeed: 0.3,
+  stopZone: 10,
+  wrongWayGrace: 2,
+  restrictedLaneGrace: 3,
+  yieldTimeGap: 4,
+  signalTime: 3,
+  signalDistance: 30,
+};
+
+const LANE_SEARCH = 10;                    // m around the vehicle searched for its lane
+const LANE_MARGIN = 0.5;                   // m beyond the lane edge still counted as on the lane
+const WRONG_WAY_ANGLE = (2 * Math.PI) / 3; // 120° off the lane direction
+
+/**
+ * Condition that has to last before it is reported, reported once per episode
+ */
+interface Episode {
+  since: number;
+  reported: boolean;
+}
+
+/**
+ * Approach to a stop line the player must stop at
+ */
+interface StopApproach {
+  laneId: string;
+  minSpeed: number;         // m/s within the stop zone
+}
+
+/**
+ * Player's passage through an intersection
+ */
+interface Passage {
+  intersection: Intersection;
+  fromLaneId: string | null;
+  time: number;
+  position: Vec2;
+  signalMark: SignalMark;   // where the blinker for the turn is judged
+  // Connector from the entry lane -> priority traffic present when the player entered
+  yieldTo: Map<string, { priorityConnectorId: string; participantId: string }>;
+}
+
+/**
+ * Real-time driving exam rule checks
+ *
+ * Consumes the player vehicle state every tick and emits each violation on
+ * eventBus as 'ruleViolation'. Lane.poly always runs in the direction of
+ * traffic (Lane.dir only records the side of the OSM way), so driving against
+ * a lane means heading against its polyline. Intersection entry and exit come
+ * from Intersection.polygon; the taken movement is only known on exit, so
+ * failing to yield and turn signals are reported then, with the time and
+ * place they were judged at.
+ */
+export class RuleEngine {
+  private tolerances: RuleTolerances;
+  private restrictedLaneTypes: LaneType[];
+  private previous: VehicleState | null = null;
+  private laneId: string | null = null;          // lane under the vehicle last tick
+  private lastLaneId: string | null = null;      // last lane driven on, kept through intersections
+  private episodes = new Map<ViolationType, Episode>();
+  private approach: StopApproach | null = null;
+  private stopLineCrossed: string | null = null;  // lane whose stop line was crossed, until the passage ends
+  private stopLineMark: SignalMark | null = null;
+  private passage: Passage | null = null;
+  private turnSignals: TurnSignalChecker;
+
+  constructor(private network: RoadNetworkManager, private options: RuleEngineOptions = {}) {
+    this.tolerances = { ...DEFAULT_RULE_TOLERANCES, ...options.tolerances };
+    this.restrictedLaneTypes = options.restrictedLaneTypes ?? ['bus', 'tram'];
+    this.turnSignals = new TurnSignalChecker(this.tolerances.signalTime, this.tolerances.signalDistance);
+  }
+
+  /**
+   * Check one tick of player driving against other traffic, returns new violations
+   */
+  update(state: VehicleState, traffic: TrafficParticipant[] = []): RuleViolation[] {
+    const violations: RuleViolation[] = [];
+    const lane = this.findLane(state.position);
+    const wasPassing = this.passage !== null;
+    this.turnSignals.record(state);
+
+    this.checkSpeed(state, lane ?? this.getLane(this.lastLaneId), violations);
+    this.checkDirection(state, lane, violations);
+    this.releaseStopLine(state, lane);
+    this.checkStopLines(state, lane, violations);
+    this.checkIntersection(state, traffic, violations);
+    if (!wasPassing && !this.passage) this.checkLaneChange(state, lane, violations);
+
+    this.previous = state;
+    this.laneId = lane?.id ?? null;
+    if (lane) this.lastLaneId = lane.id;
+
+    violations.forEach(violation => eventBus.emit('ruleViolation', violation));
+    return violations;
+  }
+
+  /**
+   * Forget tracked state, e.g. after the vehicle was moved
+   */
+  reset(): void {
+    this.previous = null;
+    this.laneId = null;
+    this.lastLaneId = null;
+    this.episodes.clear();
+    this.approach = null;
+    this.stopLineCrossed = null;
+    this.stopLineMark = null;
+    this.passage = null;
+    this.turnSignals = new TurnSignalChecker(this.tolerances.signalTime, this.tolerances.signalDistance);
+  }
+
+  /**
+   * Driving faster than Lane.maxSpeed
+   */
+  private checkSpeed(state: VehicleState, lane: Lane | null, violations: RuleViolation[]): void {
+    const over = !!lane && Math.abs(state.speed) > lane.maxSpeed + this.tolerances.speed;
+
+    if (this.sustained('speeding', over, state.time, this.tolerances.speedingGrace)) {
+      violations.push({
+        type: 'speeding',
+        time: state.time,
+        position: state.position,
+        laneId: lane!.id,
+        speed: Math.abs(state.speed),
+        limit: lane!.maxSpeed,
+      });
+    }
+  }
+
+  /**
+   * Driving against the lane direction, or on a bus / tram lane
+   */
+  private checkDirection(state: VehicleState, lane: Lane | null, violations: RuleViolation[]): void {
+    const moving = Math.abs(state.speed) > MOVING_SPEED;
+    const travel = state.speed < 0 ? state.heading + Math.PI : state.heading;
+    const against = !!lane && moving && Math.abs(normalizeAngle(travel - this.laneHeading(lane, state.position))) > WRONG_WAY_ANGLE;
+
+    if (this.sustained('wrong_way', against, state.time, this.tolerances.wrongWayGrace)) {
+      violations.push({ type: 'wrong_way', time: state.time, position: state.position, laneId: lane!.id });
+    }
+
+    const restricted = !!lane && moving && this.restrictedLaneTypes.includes(lane.type);
+    if (this.sustained('restricted_lane', restricted, state.time, this.tolerances.restrictedLaneGrace)) {
+      violations.push({
+        type: 'restricted_lane',
+        time: state.time,
+        position: state.position,
+        laneId: lane!.id,
+        laneType: lane!.type,
+      });
+    }
+  }
+
+  /**
+   * Stopping at STOP and red lights at stop lines
+   */
+  private checkStopLines(state: VehicleState, lane: Lane | null, violations: RuleViolation[]): void {
+    // Slowest speed close before a STOP line
+    if (lane?.stopLine && this.mustStop(lane)) {
+      if (this.approach?.laneId !== lane.id) this.approach = { laneId: lane.id, minSpeed: Infinity };
+      const toLine = stopLineAlong(lane) - projectOntoPolyline(state.position, lane.poly).along;
+      if (toLine >= -LANE_MARGIN && toLine <= this.tolerances.stopZone) {
+        this.approach.minSpeed = Math.min(this.approach.minSpeed, Math.abs(state.speed));
+      }
+    }
+
+    if (!this.previous) return;
+    const from = this.previous.position;
+
+    for (const candidate of new Set([this.getLane(this.laneId), lane])) {
+      if (!candidate?.stopLine || candidate.id === this.stopLineCrossed) continue;
+      if (!segmentIntersection(from, state.position, candidate.stopLine[0], candidate.stopLine[1])) continue;
+
+      // Crossing backwards (reversing away from the junction) does not count
+      const heading = this.laneHeading(candidate, state.position);
+      const forward = (state.position[0] - from[0]) * Math.cos(heading) + (state.position[1] - from[1]) * Math.sin(heading);
+      if (forward <= 0) continue;
+
+      this.stopLineCrossed = candidate.id;
+      this.stopLineMark = this.turnSignals.mark();
+      const intersectionId = this.network.getIntersectionAhead(candidate.id)?.id;
+
+      if (this.mustStop(candidate)) {
+        const minSpeed = this.approach?.laneId === candidate.id ? this.approach.minSpeed : Math.abs(state.speed);
+        if (minSpeed > this.tolerances.stopSpeed) {
+          violations.push({
+            type: 'stop_sign',
+            time: state.time,
+            position: state.position,
+            laneId: candidate.id,
+            intersectionId,
+            minSpeed,
+          });
+        }
+      }
+
+      this.checkSignal(state, candidate, intersectionId, violations);
+    }
+  }
+
+  /**
+   * Forget the crossed stop line once the vehicle is on another lane or backed up behind it
+   */
+  private releaseStopLine(state: VehicleState, lane: Lane | null): void {
+    if (!this.stopLineCrossed || !lane) return;
+
+    const behind = lane.id === this.stopLineCrossed
+      && stopLineAlong(lane) - projectOntoPolyline(state.position, lane.poly).along > LANE_MARGIN;
+    if (lane.id !== this.stopLineCrossed || behind) this.stopLineCrossed = null;
+  }
+
+  /**
+   * Entering on red or red-amber
+   */
+  private checkSignal(state: VehicleState, lane: Lane, intersectionId: string | undefined, violations: RuleViolation[]): void {
+    if (!this.options.signals || !lane.signalGroupId) return;
+
+    const signal = this.options.signals.getGroupState(lane.signalGroupId, state.time);
+    if (signal.state === 'red' || signal.state === 'red_amber') {
+      violations.push({
+        type: 'red_light',
+        time: state.time,
+        position: state.position,
+        laneId: lane.id,
+        intersectionId,
+        state: signal.state,
+        signalGroupId: lane.signalGroupId,
+      });
+    }
+  }
+
+  /**
+   * Intersection entry and exit, giving way per RightOfWayRule
+   */
+  private checkIntersection(state: VehicleState, traffic: TrafficParticipant[], violations: RuleViolation[]): void {
+    const inside = this.network.findIntersectionAt(state.position);
+
+    if (this.passage && inside?.id !== this.passage.intersection.id) {
+      this.exitIntersection(state, violations);
+    }
+
+    if (inside && !this.passage) {
+      this.enterIntersection(state, inside, traffic, violations);
+    }
+  }
+
+  /**
+   * Start passage, remember which movements had to give way at this moment
+   */
+  private enterIntersection(
+    state: VehicleState,
+    intersection: Intersection,
+    traffic: TrafficParticipant[],
+    violations: RuleViolation[]
+  ): void {
+    const fromLane = this.lastLaneId && intersection.incoming.includes(this.lastLaneId)
+      ? this.getLane(this.lastLaneId)
+      : null;
+    const yieldTo: Passage['yieldTo'] = new Map();
+
+    if (fromLane) {
+      // Approaches without a stop line are judged on entry
+      if (this.stopLineCrossed !== fromLane.id) this.checkSignal(state, fromLane, intersection.id, violations);
+
+      for (const connector of this.network.getIntersectionConnectors(intersection.id)) {
+        if (connector.fromLane !== fromLane.id) continue;
+        const priority = this.priorityTraffic(intersection, connector.id, traffic);
+        if (priority) yieldTo.set(connector.id, priority);
+      }
+    }
+
+    this.passage = {
+      intersection,
+      fromLaneId: fromLane?.id ?? null,
+      time: state.time,
+      position: state.position,
+      // Turns are signalled before the stop line, or before entering where there is none
+      signalMark: fromLane && this.stopLineCrossed === fromLane.id ? this.stopLineMark! : this.turnSignals.mark(),
+      yieldTo,
+    };
+  }
+
+  /**
+   * End passage, report failing to yield on the movement actually taken
+   */
+  private exitIntersection(state: VehicleState, violations: RuleViolation[]): void {
+    const passage = this.passage!;
+    this.passage = null;
+    this.stopLineCrossed = null;
+
+    const connectorId = this.takenConnector(passage, state.position);
+    if (!connectorId) return;
+    this.checkTurnSignal(passage, connectorId, state, violations);
+
+    const priority = passage.yieldTo.get(connectorId);
+    if (!priority) return;
+
+    violations.push({
+      type: 'failed_to_yield',
+      time: passage.time,
+      position: passage.position,
+      laneId: passage.fromLaneId ?? undefined,
+      intersectionId: passage.intersection.id,
+      connectorId,
+      ...priority,
+    });
+  }
+
+  /**
+   * Blinker for the movement taken, judged at the stop line or entry
+   */
+  private checkTurnSignal(passage: Passage, connectorId: string, state: VehicleState, violations: RuleViolation[]): void {
+    const connector = this.network.getConnector(connectorId);
+    const fromLane = connector && this.getLane(connector.fromLane);
+    const toLane = connector && this.getLane(connector.toLane);
+    const demand = fromLane && toLane && TurnSignalChecker.turnDemand(fromLane, toLane);
+    if (!demand) return;
+
+    const fault = this.turnSignals.judge(demand, passage.signalMark, state.time);
+    if (fault) {
+      violations.push({
+        type: 'turn_signal',
+        time: passage.signalMark.time,
+        position: passage.position,
+        laneId: fromLane!.id,
+        intersectionId: passage.intersection.id,
+        connectorId,
+        maneuver: demand.maneuver,
+        fault,
+      });
+    }
+  }
+
+  /**
+   * Blinker when moving sideways onto a parallel lane outside intersections
+   */
+  private checkLaneChange(state: VehicleState, lane: Lane | null, violations: RuleViolation[]): void {
+    const previous = this.getLane(this.laneId);
+    if (!lane || !previous || lane.id === previous.id) return;
+
+    const demand = TurnSignalChecker.laneChangeDemand(previous, lane, state.position);
+    const fault = demand && this.turnSignals.judge(demand, this.turnSignals.mark());
+    if (fault) {
+      violations.push({
+        type: 'turn_signal',
+        time: state.time,
+        position: state.position,
+        laneId: lane.id,
+        maneuver: demand!.maneuver,
+        fault,
+      });
+    }
+  }
+
+  /**
+   * Connector from the entry lane whose path ends closest to where the vehicle left
+   */
+  private takenConnector(passage: Passage, exitPosition: Vec2): string | null {
+    let best: { id: string; d: number } | null = null;
+
+    for (const connector of this.network.getIntersectionConnectors(passage.intersection.id)) {
+      if (connector.fromLane !== passage.fromLaneId || connector.path.length === 0) continue;
+      const d = distance(exitPosition, connector.path[connector.path.length - 1]);
+      if (!best || d < best.d) best = { id: connector.id, d };
+    }
+
+    return best?.id ?? null;
+  }
+
+  /**
+   * First road user on a movement that has priority over connector
+   */
+  private priorityTraffic(
+    intersection: Intersection,
+    connectorId: string,
+    traffic: TrafficParticipant[]
+  ): { priorityConnectorId: string; participantId: string } | null {
+    for (const rule of intersection.rules) {
+      const other = rule.connectorA === connectorId && rule.hasPriority === 'B' ? rule.connectorB
+        : rule.connectorB === connectorId && rule.hasPriority === 'A' ? rule.connectorA
+        : null;
+      if (!other) continue;
+
+      const participant = traffic.find(p => this.hasRightOfWay(intersection, p, connectorId, other));
+      if (participant) return { priorityConnectorId: other, participantId: participant.id };
+    }
+
+    return null;
+  }
+
+  /**
+   * Participant on the priority movement, about to reach or still before the conflict
+   */
+  private hasRightOfWay(
+    intersection: Intersection,
+    participant: TrafficParticipant,
+    connectorId: string,
+    priorityConnectorId: string
+  ): boolean {
+    const priority = this.network.getConnector(priorityConnectorId);
+    if (!priority || (participant.connectorId && participant.connectorId !== priorityConnectorId)) return false;
+
+    // Still on its approach lane, arriving within the time gap
+    if (participant.laneId === priority.fromLane) {
+      const lane = this.getLane(priority.fromLane);
+      if (!lane || participant.speed <= MOVING_SPEED) return false;
+      const toGo = polylineLength(lane.poly) - projectOntoPolyline(participant.position, lane.poly).along;
+      return toGo / participant.speed < this.tolerances.yieldTimeGap;
+    }
+
+    // Inside the intersection, not past the conflict point yet
+    if (!participant.laneId && participant.connectorId === priorityConnectorId) {
+      const conflict = intersection.conflicts.find(c =>
+        (c.connectorA === connectorId && c.connectorB === priorityConnectorId) ||
+        (c.connectorB === connectorId && c.connectorA === priorityConnectorId)
+      );
+      const conflictAlong = !conflict ? Infinity
+        : conflict.connectorA === priorityConnectorId ? conflict.alongA : conflict.alongB;
+      return projectOntoPolyline(participant.position, priority.path).along < conflictAlong;
+    }
+
+    return false;
+  }
+
+  /**
+   * STOP sign or STOP junction the lane has to stop for
+   */
+  private mustStop(lane: Lane): boolean {
+    return mustStop(lane, this.network.getIntersectionAhead(lane.id));
+  }
+
+  /**
+   * Lane under position, null off the road and inside intersections
+   */
+  private findLane(position: Vec2): Lane | null {
+    const lane = this.network.findNearestLane(position, LANE_SEARCH);
+    if (!lane || distanceToPolyline(position, lane.poly) > lane.width / 2 + LANE_MARGIN) return null;
+    return lane;
+  }
+
+  /**
+   * Traffic direction of lane at the segment closest to position
+   */
+  private laneHeading(lane: Lane, position: Vec2): number {
+    const i = projectOntoPolyline(position, lane.poly).segmentIndex;
+    const a = lane.poly[i];
+    const b = lane.poly[Math.min(i + 1, lane.poly.length - 1)];
+    return Math.atan2(b[1] - a[1], b[0] - a[0]);
+  }
+
+  private getLane(laneId: string | null): Lane | null {
+    return laneId ? this.network.getLane(laneId) : null;
+  }
+
+  /**
+   * Whether condition has just lasted `grace` seconds - true once per episode
+   */
+  private sustained(type: ViolationType, active: boolean, time: number, grace: number): boolean {
+    if (!active) {
+      this.episodes.delete(type);
+      return false;
+    }
+
+    const episode = this.episodes.get(type) ?? { since: time, reported: false };
+    this.episodes.set(type, episode);
+    if (episode.reported || time - episode.since < grace) return false;
+
+    episode.reported = true;
+    return true;
+  }
+}
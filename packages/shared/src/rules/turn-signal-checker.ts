@@ -0,0 +1,149 @@
+import type { Lane, Vec2 } from '../road-network/types';
+import { classifyTurn, distance, normalizeAngle, projectOntoPolyline, turnAngleBetween } from '../road-network/geometry';
+import type { BlinkerSide, SignalledManeuver, TurnSignalViolation, VehicleState } from './types';
+
+const HISTORY = 120;                       // s of blinker changes kept
+const PARALLEL_TOLERANCE = Math.PI / 6;    // 30°, lanes of one carriageway
+
+/**
+ * Point of a drive, blinkers are judged against it
+ */
+export interface SignalMark {
+  time: number;             // s
+  odometer: number;         // m driven since the checker started
+}
+
+/**
+ * Blinker state from a moment on
+ */
+interface BlinkerChange extends SignalMark {
+  left: boolean;
+  right: boolean;
+}
+
+/**
+ * Manoeuvre to judge and the blinker it needs
+ */
+export interface SignalDemand {
+  maneuver: SignalledManeuver;
+  side: BlinkerSide;
+}
+
+/**
+ * Blinker history of the player and the signal each manoeuvre needs
+ *
+ * The blinker has to be on for `minTime` seconds or `minDistance` metres
+ * before the mark - the stop line or intersection entry for turns, the lane
+ * boundary for lane changes. Switching it on only after the mark is late.
+ */
+export class TurnSignalChecker {
+  private changes: BlinkerChange[] = [];
+  private odometer = 0;
+  private lastPosition: Vec2 | null = null;
+  private lastTime = 0;
+
+  constructor(private minTime: number, private minDistance: number) {}
+
+  /**
+   * Record blinkers and distance driven, call every tick
+   */
+  record(state: VehicleState): void {
+    if (this.lastPosition) this.odometer += distance(this.lastPosition, state.position);
+    this.lastPosition = state.position;
+    this.lastTime = state.time;
+
+    const current = this.changes[this.changes.length - 1];
+    if (!current || current.left !== state.leftBlinker || current.right !== state.rightBlinker) {
+      this.changes.push({ time: state.time, odometer: this.odometer, left: state.leftBlinker, right: state.rightBlinker });
+    }
+
+    // Keep the change still in effect at the start of the window
+    while (this.changes.length > 1 && this.changes[1].time < state.time - HISTORY) this.changes.shift();
+  }
+
+  /**
+   * Current point of the drive
+   */
+  mark(): SignalMark {
+    return { time: this.lastTime, odometer: this.odometer };
+  }
+
+  /**
+   * Blinker a movement through an intersection needs, null for through movements
+   *
+   * Leaving a roundabout needs the right blinker; entering one or going on
+   * around the ring is not signalled.
+   */
+  static turnDemand(fromLane: Lane, toLane: Lane): SignalDemand | null {
+    if (fromLane.roundabout || toLane.roundabout) {
+      return fromLane.roundabout && !toLane.roundabout ? { maneuver: 'roundabout_exit', side: 'right' } : null;
+    }
+
+    const turn = classifyTurn(turnAngleBetween(fromLane.poly, toLane.poly));
+    if (turn === 'left') return { maneuver: 'turn_left', side: 'left' };
+    if (turn === 'right') return { maneuver: 'turn_right', side: 'right' };
+    return null;
+  }
+
+  /**
+   * Blinker a move from one lane to another needs, null when it is not a lane change
+   *
+   * A lane change moves sideways onto a parallel lane that does not simply
+   * continue the previous one.
+   */
+  static laneChangeDemand(fromLane: Lane, toLane: Lane, position: Vec2): SignalDemand | null {
+    if (fromLane.toNode === toLane.fromNode || toLane.toNode === fromLane.fromNode) return null;
+
+    const from = projectOntoPolyline(position, fromLane.poly);
+    const to = projectOntoPolyline(position, toLane.poly);
+    const heading = segmentHeading(fromLane.poly, from.segmentIndex);
+    if (Math.abs(normalizeAngle(segmentHeading(toLane.poly, to.segmentIndex) - heading)) > PARALLEL_TOLERANCE) return null;
+
+    // Side of the new lane seen along the old one, lanes that touch are a continuation
+    const dx = to.point[0] - from.point[0];
+    const dy = to.point[1] - from.point[1];
+    if (Math.hypot(dx, dy) < fromLane.width / 2) return null;
+    const left = Math.cos(heading) * dy - Math.sin(heading) * dx > 0;
+    return left ? { maneuver: 'lane_change_left', side: 'left' } : { maneuver: 'lane_change_right', side: 'right' };
+  }
+
+  /**
+   * Judge blinker for a manoeuvre marked at `at`, null when signalled in time
+   *
+   * `until` is the latest time a blinker switched on still counts as late
+   * rather than missing.
+   */
+  judge(demand: SignalDemand, at: SignalMark, until = at.time): TurnSignalViolation['fault'] | null {
+    const index = this.changeIndexAt(at.time);
+    const current = index >= 0 ? this.changes[index] : null;
+
+    if (current?.[demand.side]) {
+      // Start of the uninterrupted run of this blinker
+      let since = index;
+      while (since > 0 && this.changes[since - 1][demand.side]) since--;
+      const onFor = this.changes[since];
+      return at.time - onFor.time >= this.minTime || at.odometer - onFor.odometer >= this.minDistance ? null : 'late';
+    }
+
+    if (this.changes.some(c => c.time > at.time && c.time <= until && c[demand.side])) return 'late';
+
+    const other: BlinkerSide = demand.side === 'left' ? 'right' : 'left';
+    return current?.[other] ? 'wrong_side' : 'missing';
+  }
+
+  /**
+   * Index of the change in effect at time, -1 before the first record
+   */
+  private changeIndexAt(time: number): number {
+    for (let i = this.changes.length - 1; i >= 0; i--) {
+      if (this.changes[i].time <= time) return i;
+    }
+    return -1;
+  }
+}
+
+function segmentHeading(poly: Vec2[], index: number): number {
+  const a = poly[index];
+  const b = poly[Math.min(index + 1, poly.length - 1)];
+  return Math.atan2(b[1] - a[1], b[0] - a[0]);
+}
@@ -0,0 +1,114 @@
+import type { LaneType, Vec2 } from '../road-network/types';
+import type { SignalController, SignalState } from '../road-network/signals';
+
+/**
+ * Player vehicle state fed to the rule engine every tick
+ */
+export interface VehicleState {
+  time: number;             // s, simulation time (same clock as SignalController)
+  position: Vec2;           // network metres
+  heading: number;          // rad, CCW from east
+  speed: number;            // m/s, negative when reversing
+  leftBlinker: boolean;
+  rightBlinker: boolean;
+}
+
+/**
+ * Other road user the player may have to give way to
+ */
+export interface TrafficParticipant {
+  id: string;
+  position: Vec2;           // network metres
+  speed: number;            // m/s
+  laneId?: string;          // lane it drives on, if known
+  connectorId?: string;     // connector it is passing through an intersection on
+}
+
+/**
+ * Thresholds of the rule checks
+ */
+export interface RuleTolerances {
+  speed: number;            // m/s above Lane.maxSpeed still tolerated
+  speedingGrace: number;    // s over the limit before it counts
+  stopSpeed: number;        // m/s counted as standing still at STOP
+  stopZone: number;         // m before the stop line where the stop has to happen
+  wrongWayGrace: number;    // s against the lane direction before it counts
+  restrictedLaneGrace: number; // s on a bus / tram lane before it counts (crossing it to turn is fine)
+  yieldTimeGap: number;     // s, priority traffic arriving sooner than this has to be let through
+  signalTime: number;       // s the blinker has to be on before turning or changing lanes...
+  signalDistance: number;   // m ...or the distance driven with it on
+}
+
+export interface RuleEngineOptions {
+  signals?: SignalController;           // red-light checks only run with a controller
+  tolerances?: Partial<RuleTolerances>;
+  restrictedLaneTypes?: LaneType[];     // lane types the player may not drive on
+}
+
+interface ViolationBase {
+  time: number;             // s, when the violation happened
+  position: Vec2;           // network metres
+  laneId?: string;
+  intersectionId?: string;
+}
+
+export interface SpeedingViolation extends ViolationBase {
+  type: 'speeding';
+  speed: number;            // m/s
+  limit: number;            // m/s, Lane.maxSpeed
+}
+
+export interface StopSignViolation extends ViolationBase {
+  type: 'stop_sign';
+  minSpeed: number;         // m/s, slowest speed before the stop line
+}
+
+export interface RedLightViolation extends ViolationBase {
+  type: 'red_light';
+  state: SignalState;
+  signalGroupId: string;
+}
+
+export interface FailedToYieldViolation extends ViolationBase {
+  type: 'failed_to_yield';
+  connectorId: string;      // movement the player took
+  priorityConnectorId: string; // movement that had priority
+  participantId: string;
+}
+
+export interface WrongWayViolation extends ViolationBase {
+  type: 'wrong_way';
+}
+
+export interface RestrictedLaneViolation extends ViolationBase {
+  type: 'restricted_lane';
+  laneType: LaneType;
+}
+
+export type BlinkerSide = 'left' | 'right';
+
+/**
+ * Manoeuvre that has to be signalled with the blinker
+ */
+export type SignalledManeuver = 'turn_left' | 'turn_right' | 'lane_change_left' | 'lane_change_right' | 'roundabout_exit';
+
+export interface TurnSignalViolation extends ViolationBase {
+  type: 'turn_signal';
+  maneuver: SignalledManeuver;
+  fault: 'missing' | 'late' | 'wrong_side';
+  connectorId?: string;     // movement taken through the intersection, absent for lane changes
+}
+
+/**
+ * Rule violation, emitted on eventBus as 'ruleViolation'
+ */
+export type RuleViolation =
+  | SpeedingViolation
+  | StopSignViolation
+  | RedLightViolation
+  | FailedToYieldViolation
+  | WrongWayViolation
+  | RestrictedLaneViolation
+  | TurnSignalViolation;
+
+export type ViolationType = RuleViolation['type'];
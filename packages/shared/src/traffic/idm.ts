@@ -0,0 +1,43 @@
+/**
+ * Intelligent Driver Model parameters, town traffic defaults
+ */
+export interface IdmParams {
+  timeHeadway: number;      // s, desired time gap to the leader
+  minGap: number;           // m, bumper gap when standing in a queue
+  maxAccel: number;         // m/s²
+  comfortDecel: number;     // m/s², positive
+  delta: number;            // free-road acceleration exponent
+}
+
+export const DEFAULT_IDM_PARAMS: IdmParams = {
+  timeHeadway: 1.5,
+  minGap: 2,
+  maxAccel: 1.5,
+  comfortDecel: 2,
+  delta: 4,
+};
+
+/**
+ * IDM acceleration (m/s²), `gap` is bumper to bumper, Infinity on a free road
+ *
+ * Braking is not limited to the comfortable deceleration, a leader that
+ * stops suddenly makes the follower brake as hard as it has to.
+ */
+export function idmAcceleration(
+  speed: number,
+  desiredSpeed: number,
+  gap: number,
+  leaderSpeed: number,
+  params: IdmParams = DEFAULT_IDM_PARAMS
+): number {
+  const { timeHeadway, minGap, maxAccel, comfortDecel, delta } = params;
+
+  const free = desiredSpeed > 0 ? 1 - Math.pow(Math.max(0, speed) / desiredSpeed, delta) : -1;
+  if (!Number.isFinite(gap)) return maxAccel * free;
+
+  const approach = speed - leaderSpeed;
+  const desiredGap = minGap + Math.max(0, speed * timeHeadway + speed * approach / (2 * Math.sqrt(maxAccel * comfortDecel)));
+  const interaction = desiredGap / Math.max(gap, 0.1);
+
+  return maxAccel * (free - interaction * interaction);
+}
@@ -0,0 +1,6 @@
+// AI traffic on the lane graph and pedestrians on the sidewalk network
+export { TrafficManager } from './traffic-manager';
+export type { TrafficOptions, TrafficVehicle, TrafficObstacle } from './traffic-manager';
+export { JunctionControl, type JunctionControlOptions, type JunctionApproach } from './junction-control';
+export { idmAcceleration, DEFAULT_IDM_PARAMS, type IdmParams } from './idm';
+export { PedestrianManager, type PedestrianOptions, type Pedestrian } from './pedestrian-manager';
@@ -0,0 +1,268 @@
+import type { RoadNetworkManager } from '../road-network/RoadNetwork';
+import type { SignalController } from '../road-network/signals';
+import type { Intersection, Lane, LaneConnector } from '../road-network/types';
+import { polylineLength, projectOntoPolyline } from '../road-network/geometry';
+import { MOVING_SPEED, mustStop } from '../road-network/stopping';
+import type { TrafficParticipant } from '../rules/types';
+
+const STOP_SPEED = 0.3;         // m/s, a STOP sign needs the car below this at the line
+const STOP_ZONE = 3;            // m before the stop point a stop counts / a car waits at
+const CLEARANCE = 6;            // m past a conflict point a car has to be to free it
+const PATH_LATERAL = 2;         // m from a path an unlabelled participant is taken to be on it
+
+export interface JunctionControlOptions {
+  signals?: SignalController;
+  criticalGap?: number;     // s, shortest arrival gap of priority traffic a driver accepts
+  deadlockTime?: number;    // s, all waiting on each other this long before one goes
+}
+
+/**
+ * Vehicle heading for a junction movement
+ */
+export interface JunctionApproach {
+  id: string;
+  connector: LaneConnector; // movement it is about to take
+  lane: Lane;               // approach lane the connector starts from
+  distanceToStop: number;   // m from the vehicle front to its stop point, negative past it
+  speed: number;            // m/s
+  comfortDecel: number;     // m/s², decides whether it can still stop
+}
+
+/**
+ * Other vehicle's claim on a movement
+ */
+interface Blocker {
+  id: string;
+  waiting: boolean;         // standing at the line itself - the kind that can deadlock
+}
+
+/**
+ * Right of way for AI drivers at intersections
+ *
+ * Each tick every approaching car is told whether it may enter. Signals and
+ * STOP signs come first, then the intersection's RightOfWayRules: priority
+ * traffic arriving within the critical gap, and anything still in front of
+ * a conflict point, keeps the car at its stop point. Participants without
+ * lane or connector (the player) are placed geometrically and, with their
+ * turn unknown, are assumed to take the priority movement.
+ *
+ * Cars standing first in line count as arriving as well, otherwise four cars
+ * at a right-hand-rule crossroads would all see a free junction and go at
+ * once. They then all wait for their right; when every waiting car is held
+ * up only by other waiting cars for deadlockTime, the one waiting longest is
+ * let through - as drivers would settle it by hand signal.
+ */
+export class JunctionControl {
+  private criticalGap: number;
+  private deadlockTime: number;
+  private waitingSince = new Map<string, number>();
+  private stopped = new Map<string, string>();     // vehicle -> connector whose STOP it made
+  private committed = new Map<string, string>();   // vehicle -> connector it can no longer stop for
+  private released = new Map<string, string>();    // vehicle -> connector let through a deadlock
+
+  constructor(private network: RoadNetworkManager, private options: JunctionControlOptions = {}) {
+    this.criticalGap = options.criticalGap ?? 4;
+    this.deadlockTime = options.deadlockTime ?? 3;
+  }
+
+  /**
+   * Decide entry for all approaching vehicles at time (s), returns ids allowed to go
+   */
+  update(time: number, approaches: JunctionApproach[], participants: TrafficParticipant[]): Set<string> {
+    this.forgetStale(approaches);
+
+    const waiting = new Map<string, JunctionApproach>();
+    for (const approach of approaches) {
+      const atLine = approach.speed < MOVING_SPEED && approach.distanceToStop < STOP_ZONE;
+      if (atLine) {
+        if (!this.waitingSince.has(approach.id)) this.waitingSince.set(approach.id, time);
+        waiting.set(approach.id, approach);
+      } else {
+        this.waitingSince.delete(approach.id);
+      }
+      if (approach.speed < STOP_SPEED && approach.distanceToStop < STOP_ZONE) {
+        this.stopped.set(approach.id, approach.connector.id);
+      }
+    }
+
+    const allowed = new Set<string>();
+    const blockedBy = new Map<string, Blocker[]>();
+
+    for (const approach of approaches) {
+      const { id, connector } = approach;
+      if (this.committed.get(id) === connector.id) {
+        allowed.add(id);
+        continue;
+      }
+
+      const intersection = this.network.getIntersectionAhead(approach.lane.id);
+      const go = intersection
+        ? this.controlAllows(time, approach, intersection) && this.isClear(time, approach, intersection, participants, waiting, blockedBy)
+        : true;
+
+      if (go) {
+        allowed.add(id);
+        // Past the point of stopping comfortably the decision stands
+        if (approach.distanceToStop <= approach.speed * approach.speed / (2 * approach.comfortDecel) + 1) {
+          this.committed.set(id, connector.id);
+        }
+      }
+    }
+
+    for (const id of this.resolveDeadlock(time, waiting, blockedBy)) allowed.add(id);
+    return allowed;
+  }
+
+  /**
+   * Drop state of vehicles that passed or left
+   */
+  private forgetStale(approaches: JunctionApproach[]): void {
+    const current = new Map(approaches.map(a => [a.id, a.connector.id]));
+    for (const map of [this.stopped, this.committed, this.released]) {
+      for (const [id, connectorId] of map) {
+        if (current.get(id) !== connectorId) map.delete(id);
+      }
+    }
+    for (const id of this.waitingSince.keys()) {
+      if (!current.has(id)) this.waitingSince.delete(id);
+    }
+  }
+
+  /**
+   * Signal state and STOP sign
+   */
+  private controlAllows(time: number, approach: JunctionApproach, intersection: Intersection): boolean {
+    const signal = intersection.control === 'signals'
+      ? this.options.signals?.getConnectorState(approach.connector.id, time)
+      : undefined;
+
+    if (signal) {
+      if (signal.state === 'green') return true;
+      if (signal.state !== 'amber') return false;
+      // Amber: stop when it can be done comfortably, otherwise clear the junction
+      return approach.distanceToStop < approach.speed * approach.speed / (2 * approach.comfortDecel);
+    }
+
+    if (mustStop(approach.lane, intersection)) {
+      return this.stopped.get(approach.id) === approach.connector.id;
+    }
+
+    return true;
+  }
+
+  /**
+   * No priority traffic within the critical gap and no conflict point occupied
+   */
+  private isClear(
+    time: number,
+    approach: JunctionApproach,
+    intersection: Intersection,
+    participants: TrafficParticipant[],
+    waiting: Map<string, JunctionApproach>,
+    blockedBy: Map<string, Blocker[]>
+  ): boolean {
+    const own = approach.connector.id;
+    const signals = intersection.control === 'signals' ? this.options.signals : undefined;
+    const blockers: Blocker[] = [];
+
+    for (const conflict of intersection.conflicts) {
+      if (conflict.type === 'diverging') continue;
+      if (conflict.connectorA !== own && conflict.connectorB !== own) continue;
+
+      const otherId = conflict.connectorA === own ? conflict.connectorB : conflict.connectorA;
+      const other = this.network.getConnector(otherId);
+      if (!other) continue;
+      const conflictAlong = conflict.connectorA === own ? conflict.alongB : conflict.alongA;
+
+      // Inside the intersection and not past the conflict point yet, whoever has priority
+      for (const p of participants) {
+        if (p.id === approach.id || !onConnector(p, other)) continue;
+        if (projectOntoPolyline(p.position, other.path).along < conflictAlong + CLEARANCE) {
+          blockers.push({ id: p.id, waiting: false });
+        }
+      }
+
+      if (!this.mustYield(intersection, own, otherId)) continue;
+      // Opposing streams are only live on the same green
+      const otherSignal = signals?.getConnectorState(otherId, time)?.state;
+      if (signals && otherSignal !== 'green' && otherSignal !== 'amber') continue;
+
+      const lane = this.network.getLane(other.fromLane);
+      if (!lane) continue;
+      const laneLength = polylineLength(lane.poly);
+
+      for (const p of participants) {
+        if (p.id === approach.id || !onLane(p, lane, other)) continue;
+        const toGo = laneLength - projectOntoPolyline(p.position, lane.poly).along;
+
+        if (p.speed > MOVING_SPEED) {
+          if ((toGo + conflictAlong) / p.speed < this.criticalGap) blockers.push({ id: p.id, waiting: false });
+        } else if (!signals && waiting.get(p.id)?.connector.id === otherId) {
+          blockers.push({ id: p.id, waiting: true });
+        }
+      }
+    }
+
+    if (this.released.get(approach.id) === own) {
+      return blockers.every(b => b.waiting);
+    }
+
+    blockedBy.set(approach.id, blockers);
+    return blockers.length === 0;
+  }
+
+  /**
+   * Waiting cars held up only by each other: let the longest waiting one go
+   */
+  private resolveDeadlock(time: number, waiting: Map<string, JunctionApproach>, blockedBy: Map<string, Blocker[]>): string[] {
+    const stuck = new Set(
+      [...waiting.keys()].filter(id => {
+        const blockers = blockedBy.get(id);
+        return blockers && blockers.length > 0 && blockers.every(b => b.waiting);
+      })
+    );
+
+    // Keep only cars whose blockers are stuck as well - what remains contains a cycle
+    let pruned = true;
+    while (pruned) {
+      pruned = false;
+      for (const id of stuck) {
+        if (blockedBy.get(id)!.some(b => !stuck.has(b.id))) {
+          stuck.delete(id);
+          pruned = true;
+        }
+      }
+    }
+    if (stuck.size === 0) return [];
+
+    const first = [...stuck].sort((a, b) => this.waitingSince.get(a)! - this.waitingSince.get(b)! || a.localeCompare(b))[0];
+    if (time - this.waitingSince.get(first)! < this.deadlockTime) return [];
+
+    this.released.set(first, waiting.get(first)!.connector.id);
+    return [first];
+  }
+
+  /**
+   * RightOfWayRule says own movement gives way to other ('yield' means both do)
+   */
+  private mustYield(intersection: Intersection, own: string, other: string): boolean {
+    return intersection.rules.some(rule =>
+      (rule.connectorA === own && rule.connectorB === other && (rule.hasPriority === 'B' || rule.hasPriority === 'yield')) ||
+      (rule.connectorB === own && rule.connectorA === other && (rule.hasPriority === 'A' || rule.hasPriority === 'yield'))
+    );
+  }
+}
+
+function onConnector(p: TrafficParticipant, connector: LaneConnector): boolean {
+  if (p.connectorId || p.laneId) return !p.laneId && p.connectorId === connector.id;
+  return projectOntoPolyline(p.position, connector.path).distance < PATH_LATERAL;
+}
+
+/**
+ * On the approach lane of a movement, intending it (unknown intent counts)
+ */
+function onLane(p: TrafficParticipant, lane: Lane, connector: LaneConnector): boolean {
+  if (p.laneId) return p.laneId === lane.id && (!p.connectorId || p.connectorId === connector.id);
+  if (p.connectorId) return false;
+  return projectOntoPolyline(p.position, lane.poly).distance < lane.width / 2;
+}
@@ -0,0 +1,350 @@
+import type { RoadNetworkManager } from '../road-network/RoadNetwork';
+import type { SignalController } from '../road-network/signals';
+import type { WalkLeg } from '../road-network/walk-planner';
+import type { Crosswalk, Lane, PedNode, Vec2 } from '../road-network/types';
+import {
+  distance,
+  distanceToSegment,
+  pointAlongPolyline,
+  polylineIntersection,
+  polylineLength,
+  projectOntoPolyline,
+} from '../road-network/geometry';
+import { MOVING_SPEED } from '../road-network/stopping';
+import type { TrafficParticipant } from '../rules/types';
+
+const MIN_WALK = 40;            // m, shortest walk a pedestrian sets out on
+const WALK_RANGE = 250;         // m, destinations are picked within this distance
+const SPAWN_ATTEMPTS = 5;       // random nodes / destinations tried per pedestrian
+const SPAWN_CLEARANCE = 2;      // m to the next pedestrian at a spawn node
+const APPROACH_REACH = 80;      // m before a crosswalk cars are watched for
+const OCCUPIED = 3;             // m, a car centre this close to the crosswalk line is on it
+const CAR_FRONT = 4;            // m from car centre to where it has to stop before the crosswalk
+const STOP_DECEL = 3;           // m/s², braking a pedestrian expects of a car for the crosswalk
+const SAFETY_GAP = 2;           // s kept to a car at a crosswalk where cars go first
+const HEADING_PROBE = 0.25;     // m, half the chord the heading is taken from
+
+export interface PedestrianOptions {
+  maxPedestrians?: number;    // pedestrians kept around the focus
+  spawnRadius?: number;       // m, new pedestrians appear within this distance of the focus
+  minSpawnDistance?: number;  // m, but no closer than this while running (populate ignores it)
+  despawnRadius?: number;     // m, pedestrians further away are removed
+  walkSpeed?: [number, number]; // m/s, range individual walking speeds are drawn from
+  random?: () => number;      // [0, 1), injectable for reproducible pedestrians
+  signals?: SignalController; // signalised crosswalks are crossed while the cars have red
+  clock?: () => number;       // s, signal clock, defaults to the manager's own simulated time
+}
+
+type SpawnOptions = Required<Omit<PedestrianOptions, 'signals' | 'clock'>>;
+
+/**
+ * Pedestrian as seen by rendering and the rule engine
+ */
+export interface Pedestrian extends TrafficParticipant {
+  heading: number;          // rad, CCW from east
+  crosswalkId?: string;     // crosswalk it waits at or walks over
+  waiting: boolean;         // standing at the curb until it may cross
+}
+
+interface PedestrianAgent {
+  pedestrian: Pedestrian;
+  legs: WalkLeg[];          // legs[0] is walked now
+  offset: number;           // m along legs[0]
+  walkSpeed: number;        // m/s
+}
+
+/**
+ * Pedestrians walking the sidewalk network
+ *
+ * Each pedestrian walks to a random destination over pedEdges and the
+ * crosswalks joined to them by crossLinks, preferring walks that cross a
+ * road so the player meets them at crosswalks. At the curb it waits until it
+ * may cross: on a signalised crosswalk while the crossed approaches have red,
+ * on a zebra once approaching cars can still stop for it, and where cars go
+ * first only for a gap it can cross in. Once on the crosswalk it keeps
+ * going. Pedestrians appear and disappear around a focus point (the player).
+ */
+export class PedestrianManager {
+  private agents: PedestrianAgent[] = [];
+  private nextId = 1;
+  private options: SpawnOptions;
+  private signals?: SignalController;
+  private clock: () => number;
+  private time = 0;
+  private laneCrossings = new Map<string, Map<string, number>>(); // crosswalk -> lane -> arc length it crosses at
+
+  constructor(private network: RoadNetworkManager, options: PedestrianOptions = {}) {
+    this.options = {
+      maxPedestrians: options.maxPedestrians ?? 20,
+      spawnRadius: options.spawnRadius ?? 150,
+      minSpawnDistance: options.minSpawnDistance ?? 60,
+      despawnRadius: options.despawnRadius ?? 250,
+      walkSpeed: options.walkSpeed ?? [1.1, 1.6],
+      random: options.random ?? Math.random,
+    };
+    this.signals = options.signals;
+    this.clock = options.clock ?? (() => this.time);
+  }
+
+  /** Pedestrians currently simulated */
+  get pedestrians(): Pedestrian[] {
+    return this.agents.map(agent => agent.pedestrian);
+  }
+
+  /**
+   * Fill the area around focus up to maxPedestrians, e.g. right after the network loads
+   */
+  populate(focus: Vec2): void {
+    for (let i = this.agents.length; i < this.options.maxPedestrians; i++) {
+      this.spawn(focus, 0);
+    }
+  }
+
+  /**
+   * Place a pedestrian at one node walking to another, null when they are not connected
+   */
+  spawnAt(fromPos: Vec2, toPos: Vec2): Pedestrian | null {
+    const walk = this.network.planWalk(fromPos, toPos);
+    if (!walk || walk.legs.length === 0) return null;
+
+    return this.addAgent(walk.legs);
+  }
+
+  /**
+   * Advance all pedestrians by dt; participants are the cars they watch at crosswalks
+   */
+  update(dt: number, focus?: Vec2, participants: TrafficParticipant[] = []): void {
+    if (dt <= 0) return;
+    this.time += dt;
+    const time = this.clock();
+
+    for (const agent of this.agents) {
+      const leg = agent.legs[0];
+      const atCurb = !!leg.crosswalkId && agent.offset === 0;
+
+      if (atCurb && !this.mayCross(this.network.getCrosswalk(leg.crosswalkId!), agent, participants, time)) {
+        agent.pedestrian.speed = 0;
+        agent.pedestrian.waiting = true;
+        continue;
+      }
+
+      agent.pedestrian.speed = agent.walkSpeed;
+      agent.pedestrian.waiting = false;
+      this.advance(agent, agent.walkSpeed * dt);
+    }
+
+    // Arrived pedestrians set out again, unless far from the focus
+    this.agents = this.agents.filter(agent => {
+      const far = focus && distance(agent.pedestrian.position, focus) > this.options.despawnRadius;
+      if (far) return false;
+      return !this.arrived(agent) || this.walkOn(agent);
+    });
+
+    if (focus && this.agents.length < this.options.maxPedestrians) {
+      this.spawn(focus, this.options.minSpawnDistance);
+    }
+  }
+
+  /**
+   * Remove all pedestrians
+   */
+  clear(): void {
+    this.agents = [];
+  }
+
+  /**
+   * Try a few random pedestrian nodes near focus, start from the first with a walk
+   */
+  private spawn(focus: Vec2, minDistance: number): void {
+    const { spawnRadius, random } = this.options;
+    const nodes = this.network.findPedNodesInRadius(focus, spawnRadius)
+      .filter(node => distance(node.p, focus) >= minDistance);
+    if (nodes.length === 0) return;
+
+    for (let attempt = 0; attempt < SPAWN_ATTEMPTS; attempt++) {
+      const node = nodes[Math.floor(random() * nodes.length)];
+      if (this.agents.some(agent => distance(agent.pedestrian.position, node.p) < SPAWN_CLEARANCE)) continue;
+
+      const legs = this.pickWalk(node);
+      if (legs) {
+        this.addAgent(legs);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Random walk from a node, one crossing a road if any of the tried ones does
+   */
+  private pickWalk(from: PedNode): WalkLeg[] | null {
+    const { random } = this.options;
+    const destinations = this.network.findPedNodesInRadius(from.p, WALK_RANGE)
+      .filter(node => distance(node.p, from.p) >= MIN_WALK);
+    let fallback: WalkLeg[] | null = null;
+
+    for (let attempt = 0; attempt < SPAWN_ATTEMPTS && destinations.length > 0; attempt++) {
+      const to = destinations[Math.floor(random() * destinations.length)];
+      const walk = this.network.planWalk(from.p, to.p);
+      if (!walk || walk.legs.length === 0) continue;
+
+      if (walk.legs.some(leg => leg.crosswalkId)) return walk.legs;
+      fallback ??= walk.legs;
+    }
+
+    return fallback;
+  }
+
+  private addAgent(legs: WalkLeg[]): Pedestrian {
+    const [min, max] = this.options.walkSpeed;
+    const agent: PedestrianAgent = {
+      pedestrian: {
+        id: `pedestrian_${this.nextId++}`,
+        position: legs[0].poly[0],
+        speed: 0,
+        heading: 0,
+        waiting: false,
+      },
+      legs,
+      offset: 0,
+      walkSpeed: min + (max - min) * this.options.random(),
+    };
+
+    this.place(agent);
+    this.agents.push(agent);
+    return agent.pedestrian;
+  }
+
+  private arrived(agent: PedestrianAgent): boolean {
+    return agent.legs.length === 1 && agent.offset >= polylineLength(agent.legs[0].poly);
+  }
+
+  /**
+   * New walk from where the last one ended, false when there is none
+   */
+  private walkOn(agent: PedestrianAgent): boolean {
+    const here = this.network.findPedNodesInRadius(agent.pedestrian.position, 1)[0];
+    const legs = here && this.pickWalk(here);
+    if (!legs) return false;
+
+    agent.legs = legs;
+    agent.offset = 0;
+    this.place(agent);
+    return true;
+  }
+
+  /**
+   * Walk along the legs, halting at the curb before a crosswalk
+   */
+  private advance(agent: PedestrianAgent, step: number): void {
+    agent.offset += step;
+
+    while (agent.legs.length > 1) {
+      const length = polylineLength(agent.legs[0].poly);
+      if (agent.offset < length) break;
+
+      agent.offset -= length;
+      agent.legs.shift();
+      if (agent.legs[0].crosswalkId) {
+        agent.offset = 0;
+        break;
+      }
+    }
+
+    this.place(agent);
+  }
+
+  /**
+   * Crossing decision at the curb by crosswalk priority
+   */
+  private mayCross(crosswalk: Crosswalk | null, agent: PedestrianAgent, participants: TrafficParticipant[], time: number): boolean {
+    if (!crosswalk) return true;
+
+    const crossTime = polylineLength(agent.legs[0].poly) / agent.walkSpeed;
+    const lanes = (crosswalk.lanes ?? [])
+      .map(id => this.network.getLane(id))
+      .filter((lane): lane is Lane => !!lane);
+    const signalled = this.signals && crosswalk.priority === 'signal'
+      ? lanes.filter(lane => lane.signalGroupId)
+      : [];
+
+    // Pedestrian green while the crossed approaches have red, turning cars from elsewhere still give way
+    if (signalled.some(lane => this.signals!.getGroupState(lane.signalGroupId!, time).state !== 'red')) return false;
+
+    const watched = lanes.filter(lane => !signalled.includes(lane));
+    for (const p of participants) {
+      if (distanceToSegment(p.position, crosswalk.segment[0], crosswalk.segment[1]) < OCCUPIED) return false;
+
+      for (const lane of watched) {
+        const toGo = this.approachDistance(p, lane, crosswalk);
+        if (toGo === null || p.speed < MOVING_SPEED) continue;
+
+        const arrival = toGo / p.speed;
+        if (crosswalk.priority === 'cars_over_ped') {
+          if (arrival < crossTime + SAFETY_GAP) return false;
+        } else {
+          // Cars give way here, but nobody steps out in front of one that cannot stop any more
+          const canStop = toGo - CAR_FRONT > p.speed * p.speed / (2 * STOP_DECEL);
+          if (!canStop && arrival < crossTime + SAFETY_GAP) return false;
+        }
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Metres a participant still drives on lane before reaching the crosswalk, null when not approaching on it
+   */
+  private approachDistance(p: TrafficParticipant, lane: Lane, crosswalk: Crosswalk): number | null {
+    const crossingAlong = this.crossingAlong(crosswalk, lane);
+    if (crossingAlong === null) return null;
+
+    if (p.laneId || p.connectorId) {
+      if (p.laneId === lane.id) {
+        const along = projectOntoPolyline(p.position, lane.poly).along;
+        return along < crossingAlong ? crossingAlong - along : null;
+      }
+      // Inside a junction, turning into the crossed lane
+      const connector = !p.laneId && p.connectorId ? this.network.getConnector(p.connectorId) : null;
+      if (connector?.toLane !== lane.id) return null;
+      return distance(p.position, lane.poly[0]) + crossingAlong;
+    }
+
+    // Unlabelled (the player): on the lane by position
+    const projection = projectOntoPolyline(p.position, lane.poly);
+    if (projection.distance > lane.width / 2 || projection.along >= crossingAlong) return null;
+    const toGo = crossingAlong - projection.along;
+    return toGo <= APPROACH_REACH ? toGo : null;
+  }
+
+  private crossingAlong(crosswalk: Crosswalk, lane: Lane): number | null {
+    let byLane = this.laneCrossings.get(crosswalk.id);
+    if (!byLane) {
+      byLane = new Map();
+      this.laneCrossings.set(crosswalk.id, byLane);
+    }
+    if (!byLane.has(lane.id)) {
+      byLane.set(lane.id, polylineIntersection(lane.poly, crosswalk.segment)?.alongA ?? NaN);
+    }
+
+    const along = byLane.get(lane.id)!;
+    return Number.isNaN(along) ? null : along;
+  }
+
+  /**
+   * Sync public pedestrian state with walk position
+   */
+  private place(agent: PedestrianAgent): void {
+    const { pedestrian, legs, offset } = agent;
+    const leg = legs[0];
+    const length = polylineLength(leg.poly);
+    const along = Math.min(offset, length);
+
+    const behind = pointAlongPolyline(leg.poly, Math.max(0, along - HEADING_PROBE));
+    const ahead = pointAlongPolyline(leg.poly, Math.min(length, along + HEADING_PROBE));
+
+    pedestrian.position = pointAlongPolyline(leg.poly, along);
+    if (length > 0) pedestrian.heading = Math.atan2(ahead[1] - behind[1], ahead[0] - behind[0]);
+    pedestrian.crosswalkId = leg.crosswalkId;
+  }
+}
@@ -0,0 +1,428 @@
+import type { RoadNetworkManager } from '../road-network/RoadNetwork';
+import type { SignalController } from '../road-network/signals';
+import type { Lane, LaneConnector, LaneType, Vec2 } from '../road-network/types';
+import { curveSpeedAdvice } from '../road-network/curves';
+import { bboxAround, distance, pointAlongPolyline, polylineLength, projectOntoPolyline } from '../road-network/geometry';
+import { stopLineAlong } from '../road-network/stopping';
+import type { TrafficParticipant } from '../rules/types';
+import { DEFAULT_IDM_PARAMS, idmAcceleration, type IdmParams } from './idm';
+import { JunctionControl, type JunctionApproach } from './junction-control';
+
+const LOOKAHEAD = 100;          // m of route planned and scanned for leaders ahead
+const SPAWN_CLEARANCE = 30;     // m to any car or obstacle around a new vehicle
+const SPAWN_ATTEMPTS = 5;       // random lanes tried per spawned vehicle
+const MAX_BRAKE = 8;            // m/s², full braking of an ordinary car
+const OBSTACLE_LATERAL = 1.75;  // m from the path centreline an obstacle still blocks it
+const HEADING_PROBE = 0.5;      // m, half the chord the heading is taken from
+
+export interface TrafficOptions {
+  maxVehicles?: number;       // cars kept around the focus
+  spawnRadius?: number;       // m, new cars appear within this distance of the focus
+  minSpawnDistance?: number;  // m, but no closer than this while running (populate ignores it)
+  despawnRadius?: number;     // m, cars further away are removed
+  laneTypes?: LaneType[];     // lanes AI cars drive on
+  vehicleLength?: number;     // m
+  idm?: Partial<IdmParams>;
+  random?: () => number;      // [0, 1), injectable for reproducible traffic
+  signals?: SignalController; // signalised junctions are only entered on green
+  clock?: () => number;       // s, signal clock, defaults to the manager's own simulated time
+  criticalGap?: number;       // s, see JunctionControl
+  deadlockTime?: number;      // s, see JunctionControl
+}
+
+type SpawnOptions = Required<Omit<TrafficOptions, 'idm' | 'signals' | 'clock' | 'criticalGap' | 'deadlockTime'>>;
+
+/**
+ * AI car as seen by rendering and the rule engine
+ */
+export interface TrafficVehicle extends TrafficParticipant {
+  heading: number;          // rad, CCW from east
+  length: number;           // m
+}
+
+/**
+ * Road user AI cars must not drive into and give way to, typically the player
+ */
+export interface TrafficObstacle extends TrafficParticipant {
+  length: number;           // m
+}
+
+/**
+ * Lane or junction path an AI car has planned to drive
+ */
+interface RouteSegment {
+  key: string;              // lane or connector id
+  lane?: Lane;
+  connector?: LaneConnector;
+  poly: Vec2[];
+  length: number;
+  maxSpeed: number;         // m/s, lane limit, or turn speed through a junction
+}
+
+interface TrafficAgent {
+  vehicle: TrafficVehicle;
+  route: RouteSegment[];    // route[0] is driven now
+  offset: number;           // m along route[0]
+  speedFactor: number;      // share of the speed limit this driver keeps
+  deadEnd: boolean;         // route cannot be extended any further
+}
+
+interface Occupant {
+  along: number;
+  speed: number;
+  length: number;
+  agent?: TrafficAgent;
+}
+
+/**
+ * AI traffic on the lane graph
+ *
+ * Cars follow lane polylines and junction connectors, pick a random allowed
+ * turn at every intersection and keep their distance with the Intelligent
+ * Driver Model. They slow down ahead of lower limits and tight turns, and
+ * appear and disappear around a focus point (the player) so the population
+ * stays constant while driving through the city. Before a junction they ask
+ * JunctionControl and, until allowed in, stop at the stop line (lane end
+ * where there is none).
+ */
+export class TrafficManager {
+  private agents: TrafficAgent[] = [];
+  private nextId = 1;
+  private options: SpawnOptions;
+  private idm: IdmParams;
+  private junctions: JunctionControl;
+  private clock: () => number;
+  private time = 0;
+
+  constructor(private network: RoadNetworkManager, options: TrafficOptions = {}) {
+    this.options = {
+      maxVehicles: options.maxVehicles ?? 30,
+      spawnRadius: options.spawnRadius ?? 300,
+      minSpawnDistance: options.minSpawnDistance ?? 120,
+      despawnRadius: options.despawnRadius ?? 450,
+      laneTypes: options.laneTypes ?? ['general'],
+      vehicleLength: options.vehicleLength ?? 4.5,
+      random: options.random ?? Math.random,
+    };
+    this.idm = { ...DEFAULT_IDM_PARAMS, ...options.idm };
+    this.junctions = new JunctionControl(network, options);
+    this.clock = options.clock ?? (() => this.time);
+  }
+
+  /** Cars currently simulated */
+  get vehicles(): TrafficVehicle[] {
+    return this.agents.map(agent => agent.vehicle);
+  }
+
+  /**
+   * Fill the area around focus up to maxVehicles, e.g. right after the network loads
+   */
+  populate(focus: Vec2, obstacles: TrafficObstacle[] = []): void {
+    for (let i = this.agents.length; i < this.options.maxVehicles; i++) {
+      this.spawn(focus, 0, obstacles);
+    }
+  }
+
+  /**
+   * Place a car at lane offset, returns null when the spot is taken
+   */
+  spawnAt(laneId: string, offset: number, speed = 0): TrafficVehicle | null {
+    const lane = this.network.getLane(laneId);
+    if (!lane) return null;
+
+    return this.addAgent(lane, offset, speed, this.options.vehicleLength + this.idm.minGap);
+  }
+
+  /**
+   * Advance all cars by dt, keeping the population around focus
+   */
+  update(dt: number, focus?: Vec2, obstacles: TrafficObstacle[] = []): void {
+    if (dt <= 0) return;
+    this.time += dt;
+
+    const occupancy = this.buildOccupancy(obstacles);
+    const approaches = new Map<TrafficAgent, JunctionApproach>();
+    for (const agent of this.agents) {
+      const approach = this.junctionApproach(agent);
+      if (approach) approaches.set(agent, approach);
+    }
+    const allowed = this.junctions.update(this.clock(), [...approaches.values()], [...this.vehicles, ...obstacles]);
+
+    const accelerations = this.agents.map(agent => {
+      const approach = approaches.get(agent);
+      const stopAt = approach && !allowed.has(approach.id) ? approach.distanceToStop : Infinity;
+      return this.acceleration(agent, occupancy, stopAt);
+    });
+
+    this.agents.forEach((agent, i) => {
+      const vehicle = agent.vehicle;
+      vehicle.speed = Math.max(0, vehicle.speed + accelerations[i] * dt);
+      this.advance(agent, vehicle.speed * dt);
+    });
+
+    // Cars leave at dead ends (edge of the loaded network) and far from the focus
+    this.agents = this.agents.filter(agent =>
+      !(agent.deadEnd && agent.route.length === 1 && agent.offset >= agent.route[0].length) &&
+      !(focus && distance(agent.vehicle.position, focus) > this.options.despawnRadius)
+    );
+
+    if (focus && this.agents.length < this.options.maxVehicles) {
+      this.spawn(focus, this.options.minSpawnDistance, obstacles);
+    }
+  }
+
+  /**
+   * Remove all cars
+   */
+  clear(): void {
+    this.agents = [];
+  }
+
+  /**
+   * Try a few random lanes near focus, spawn on the first free spot
+   */
+  private spawn(focus: Vec2, minDistance: number, obstacles: TrafficObstacle[]): void {
+    const { spawnRadius, laneTypes, random } = this.options;
+    const lanes = this.network.findLanesInBounds(bboxAround(focus, spawnRadius))
+      .filter(lane => laneTypes.includes(lane.type) && lane.poly.length >= 2);
+    if (lanes.length === 0) return;
+
+    for (let attempt = 0; attempt < SPAWN_ATTEMPTS; attempt++) {
+      const lane = lanes[Math.floor(random() * lanes.length)];
+      const offset = random() * polylineLength(lane.poly);
+      const position = pointAlongPolyline(lane.poly, offset);
+
+      const away = distance(position, focus);
+      if (away < minDistance || away > spawnRadius) continue;
+      if (obstacles.some(o => distance(o.position, position) < SPAWN_CLEARANCE)) continue;
+
+      // Half the limit, so a car appearing behind a queue still stops in time
+      if (this.addAgent(lane, offset, lane.maxSpeed / 2, SPAWN_CLEARANCE)) return;
+    }
+  }
+
+  private addAgent(lane: Lane, offset: number, speed: number, clearance: number): TrafficVehicle | null {
+    const position = pointAlongPolyline(lane.poly, offset);
+    if (this.agents.some(agent => distance(agent.vehicle.position, position) < clearance)) return null;
+
+    const agent: TrafficAgent = {
+      vehicle: {
+        id: `traffic_${this.nextId++}`,
+        position,
+        speed,
+        heading: 0,
+        length: this.options.vehicleLength,
+        laneId: lane.id,
+      },
+      route: [laneSegment(lane)],
+      offset,
+      speedFactor: 0.85 + 0.15 * this.options.random(),
+      deadEnd: false,
+    };
+
+    this.extendRoute(agent);
+    this.place(agent);
+    this.agents.push(agent);
+    return agent.vehicle;
+  }
+
+  /**
+   * Cars and obstacles per lane / connector with their arc length on it
+   */
+  private buildOccupancy(obstacles: TrafficObstacle[]): Map<string, Occupant[]> {
+    const occupancy = new Map<string, Occupant[]>();
+    const add = (key: string, occupant: Occupant) => {
+      const list = occupancy.get(key) ?? [];
+      list.push(occupant);
+      occupancy.set(key, list);
+    };
+
+    const planned = new Map<string, RouteSegment>();
+    for (const agent of this.agents) {
+      const { vehicle, route, offset } = agent;
+      add(route[0].key, { along: offset, speed: vehicle.speed, length: vehicle.length, agent });
+      route.forEach(segment => planned.set(segment.key, segment));
+    }
+
+    // Obstacles only matter on paths somebody is about to drive
+    for (const obstacle of obstacles) {
+      for (const segment of planned.values()) {
+        const projection = projectOntoPolyline(obstacle.position, segment.poly);
+        if (projection.distance > OBSTACLE_LATERAL) continue;
+        add(segment.key, { along: projection.along, speed: Math.max(0, obstacle.speed), length: obstacle.length });
+      }
+    }
+
+    return occupancy;
+  }
+
+  /**
+   * Next junction movement on the route with the distance from the car front to its stop point
+   */
+  private junctionApproach(agent: TrafficAgent): JunctionApproach | null {
+    const { vehicle, route, offset } = agent;
+    let travelled = -offset;
+
+    for (let i = 1; i < route.length && travelled < LOOKAHEAD; i++) {
+      const lane = route[i - 1].lane;
+      const connector = route[i].connector;
+
+      if (lane && connector) {
+        const stopAlong = lane.stopLine ? stopLineAlong(lane) : route[i - 1].length;
+        return {
+          id: vehicle.id,
+          connector,
+          lane,
+          distanceToStop: travelled + stopAlong - vehicle.length / 2,
+          speed: vehicle.speed,
+          comfortDecel: this.idm.comfortDecel,
+        };
+      }
+
+      travelled += route[i - 1].length;
+    }
+
+    return null;
+  }
+
+  /**
+   * IDM acceleration towards the nearest car ahead on the planned route, or a stop point
+   */
+  private acceleration(agent: TrafficAgent, occupancy: Map<string, Occupant[]>, stopAt = Infinity): number {
+    const { vehicle, route, offset, speedFactor } = agent;
+    let desired = route[0].maxSpeed * speedFactor;
+    let gap = Infinity;
+    let leaderSpeed = 0;
+    let travelled = -offset;        // distance from the car to the start of segment i
+
+    for (let i = 0; i < route.length && travelled < LOOKAHEAD; i++) {
+      const segment = route[i];
+
+      // Be down at a lower limit by the time it starts
+      if (i > 0) {
+        const limit = segment.maxSpeed * speedFactor;
+        desired = Math.min(desired, Math.sqrt(limit * limit + 2 * this.idm.comfortDecel * travelled));
+      }
+
+      const leader = (occupancy.get(segment.key) ?? [])
+        .filter(o => o.agent !== agent && (i > 0 || o.along > offset))
+        .reduce<Occupant | null>((best, o) => (!best || o.along < best.along ? o : best), null);
+
+      if (leader) {
+        gap = travelled + leader.along - (leader.length + vehicle.length) / 2;
+        leaderSpeed = leader.speed;
+        break;
+      }
+
+      travelled += segment.length;
+    }
+
+    // Standing obstacle the front should halt at, IDM keeps minGap to it
+    if (stopAt + this.idm.minGap < gap) {
+      gap = stopAt + this.idm.minGap;
+      leaderSpeed = 0;
+    }
+
+    const accel = idmAcceleration(vehicle.speed, desired, gap, leaderSpeed, this.idm);
+    return Math.max(-MAX_BRAKE, accel);
+  }
+
+  /**
+   * Move car along its route, dropping segments it has left
+   */
+  private advance(agent: TrafficAgent, step: number): void {
+    agent.offset += step;
+
+    while (agent.route.length > 1 && agent.offset >= agent.route[0].length) {
+      agent.offset -= agent.route[0].length;
+      agent.route.shift();
+    }
+
+    this.extendRoute(agent);
+    this.place(agent);
+  }
+
+  /**
+   * Plan lanes and random allowed turns until the route reaches LOOKAHEAD
+   */
+  private extendRoute(agent: TrafficAgent): void {
+    let planned = agent.route.reduce((sum, segment) => sum + segment.length, 0) - agent.offset;
+
+    while (!agent.deadEnd && planned < LOOKAHEAD) {
+      const last = agent.route[agent.route.length - 1];
+      const next = this.nextSegments(last);
+
+      if (next.length === 0) {
+        agent.deadEnd = true;
+        break;
+      }
+
+      agent.route.push(...next);
+      planned += next.reduce((sum, segment) => sum + segment.length, 0);
+    }
+  }
+
+  /**
+   * Segments after a lane end: junction path and exit lane, or the continuing lane
+   */
+  private nextSegments(last: RouteSegment): RouteSegment[] {
+    if (last.connector) {
+      const lane = this.network.getLane(last.connector.toLane);
+      return lane ? [laneSegment(lane)] : [];
+    }
+    if (!last.lane) return [];
+
+    const successors = this.network.getLaneSuccessors(last.lane.id)
+      .filter(s => this.options.laneTypes.includes(s.lane.type) && s.lane.poly.length >= 2);
+    if (successors.length === 0) return [];
+
+    const { lane, connector } = successors[Math.floor(this.options.random() * successors.length)];
+    return connector
+      ? [connectorSegment(connector, last.lane, lane), laneSegment(lane)]
+      : [laneSegment(lane)];
+  }
+
+  /**
+   * Sync public vehicle state with route position
+   */
+  private place(agent: TrafficAgent): void {
+    const { vehicle, route, offset } = agent;
+    const current = route[0];
+    const along = Math.min(offset, current.length);
+
+    const behind = pointAlongPolyline(current.poly, Math.max(0, along - HEADING_PROBE));
+    const ahead = pointAlongPolyline(current.poly, Math.min(current.length, along + HEADING_PROBE));
+
+    vehicle.position = pointAlongPolyline(current.poly, along);
+    vehicle.heading = Math.atan2(ahead[1] - behind[1], ahead[0] - behind[0]);
+
+    // Rule engine convention: lane plus intended movement before a junction, connector alone inside it
+    if (current.connector) {
+      vehicle.laneId = undefined;
+      vehicle.connectorId = current.connector.id;
+    } else {
+      vehicle.laneId = current.key;
+      vehicle.connectorId = route[1]?.connector?.id;
+    }
+  }
+}
+
+function laneSegment(lane: Lane): RouteSegment {
+  return {
+    key: lane.id,
+    lane,
+    poly: lane.poly,
+    length: polylineLength(lane.poly),
+    maxSpeed: lane.maxSpeed,
+  };
+}
+
+function connectorSegment(connector: LaneConnector, from: Lane, to: Lane): RouteSegment {
+  return {
+    key: connector.id,
+    connector,
+    poly: connector.path,
+    length: polylineLength(connector.path),
+    maxSpeed: Math.min(from.maxSpeed, to.maxSpeed, curveSpeedAdvice(connector.curvature ?? [])),
+  };
+}
@@ -41,9 +41,12 @@ export class Vector2 {
   }
 }
 
+/**
+ * Synchronised entity, plain data so it maps onto a network schema
+ */
 export interface EntityState {
   id: string;
-  position: Vector2;
-  velocity: Vector2;
-  angle: number;
+  position: { x: number; y: number };   // m, world frame (world px / WORLD_SCALE)
+  velocity: { x: number; y: number };   // m/s
+  angle: number;                        // rad
 }
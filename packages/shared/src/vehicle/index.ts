@@ -0,0 +1,4 @@
+// Vehicle dynamics shared by client, server, replay and AI traffic
+export { VehicleModel } from './vehicle-model';
+export type { VehicleTelemetry, VehicleDynamics } from './vehicle-model';
+export { DEFAULT_VEHICLE_SPEC, type VehicleSpec } from './vehicle-spec';
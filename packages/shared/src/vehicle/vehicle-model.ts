@@ -0,0 +1,339 @@
+import { Vector2 } from '../types';
+import type { DriveInput } from '../replay/types';
+import { DEFAULT_VEHICLE_SPEC, type VehicleSpec } from './vehicle-spec';
+
+// Helpers
+const kmh = (ms: number) => ms * 3.6;
+const ms = (kmh: number) => kmh / 3.6;
+const clamp = (x: number, a: number, b: number) => Math.min(b, Math.max(a, x));
+const lerp = (a: number, b: number, t: number) => a + (b - a) * clamp(t, 0, 1);
+
+const EMERGENCY_HOLD = 0.2;           // s prudké brzdy, než povolí nouzový rejd
+const CRUISE_ADJUST = 2.8;            // m/s² změny cílovky tempomatu plynem / brzdou (≈10 km/h za s)
+
+/**
+ * Telemetry of one step, emitted by the client as 'vehicleUpdate'
+ */
+export interface VehicleTelemetry {
+  speed: number;                    // km/h
+  throttle: number;
+  brake: number;
+  steerRaw: number;
+  steerInput: number;
+  steerAngleDeg: number;
+  leftBlinker: boolean;
+  rightBlinker: boolean;
+  cruiseControl: boolean;
+  cruiseTargetKmh: number | null;
+  totalDistance: number;            // m
+}
+
+/**
+ * Everything update() depends on - restoring it and feeding the same inputs
+ * gives the same drive (network reconciliation)
+ */
+export interface VehicleDynamics {
+  x: number;                        // m, world frame (world px / WORLD_SCALE)
+  y: number;
+  vx: number;                       // m/s
+  vy: number;
+  angle: number;                    // rad
+  steering: number;                 // rad, úhel kol
+  steerInput: number;               // -1..1, rampovaný vstup
+  cruiseControlSpeed: number | null;
+  hardBrakeTime: number;            // s
+  totalDistance: number;            // m
+  leftBlinker: boolean;
+  rightBlinker: boolean;
+}
+
+const NO_INPUT: DriveInput = {
+  throttle: 0,
+  brake: 0,
+  steer: 0,
+  leftBlinker: false,
+  rightBlinker: false,
+  cruiseControlToggle: false,
+  hardBrake: false,
+};
+
+/**
+ * Bicycle model vozu v SI jednotkách, bez DOM a eventBus (klient, server, replay, AI)
+ *
+ * Poloha je v metrech ve světovém rámci klienta (x doprava, y dolů), úhel v rad.
+ */
+export class VehicleModel {
+  position: Vector2;      // m
+  velocity: Vector2;      // m/s
+  angle: number;          // rad
+  steering = 0;           // aktuální úhel kol [rad]
+
+  leftBlinker = false;
+  rightBlinker = false;
+  cruiseControlSpeed: number | null = null;   // m/s
+
+  // Měření ujeté vzdálenosti
+  totalDistance = 0;      // m
+  private lastPosition: Vector2;
+
+  // Rampovaný vstup řízení
+  steerInput = 0;         // -1..1
+
+  // Nouzové manévrování
+  private hardBrakeTime = 0;  // jak dlouho se drží prudká brzda
+
+  // Vstup posledního kroku (telemetrie)
+  private lastInput: DriveInput = NO_INPUT;
+
+  constructor(x: number, y: number, angle = 0, readonly spec: VehicleSpec = DEFAULT_VEHICLE_SPEC) {
+    this.position = new Vector2(x, y);
+    this.velocity = new Vector2(0, 0);
+    this.angle = angle;
+    this.lastPosition = new Vector2(x, y);
+  }
+
+  // Podélná rychlost v m/s, záporná při couvání
+  get speed(): number {
+    return this.velocity.dot(new Vector2(Math.cos(this.angle), Math.sin(this.angle)));
+  }
+
+  // Stojící auto v dané pozici, stejný stav jako po konstruktoru (začátek záznamu / replaye)
+  reset(x: number, y: number, angle: number) {
+    this.position = new Vector2(x, y);
+    this.velocity = new Vector2(0, 0);
+    this.angle = angle;
+    this.steering = 0;
+    this.leftBlinker = false;
+    this.rightBlinker = false;
+    this.cruiseControlSpeed = null;
+    this.totalDistance = 0;
+    this.lastPosition = new Vector2(x, y);
+    this.steerInput = 0;
+    this.hardBrakeTime = 0;
+    this.lastInput = NO_INPUT;
+  }
+
+  update(dt: number, input: DriveInput) {
+    const spec = this.spec;
+    this.lastInput = input;
+
+    // Blinkry
+    this.leftBlinker = input.leftBlinker;
+    this.rightBlinker = input.rightBlinker;
+
+    // Podélná rychlost v m/s
+    const v = this.speed;
+
+    // Sledování času držení hardBrake pro nouzové manévrování
+    if (input.hardBrake) {
+      this.hardBrakeTime += dt;
+    } else {
+      this.hardBrakeTime = 0;
+    }
+
+    // Rampování vstupu z kláves (digitální A/D -> plynulý -1..1)
+    {
+      const raw = clamp(input.steer, -1, 1);
+      if (raw !== 0) {
+        const dir = Math.sign(raw);
+        this.steerInput += dir * spec.inputRampUp * dt;
+      } else {
+        // návrat směrem k nule
+        if (this.steerInput > 0) this.steerInput = Math.max(0, this.steerInput - spec.inputRampReturn * dt);
+        else if (this.steerInput < 0) this.steerInput = Math.min(0, this.steerInput + spec.inputRampReturn * dt);
+      }
+      this.steerInput = clamp(this.steerInput, -1, 1);
+    }
+
+    // 1) Řízení (bicycle) – rychlostní limit kol + speed-adaptivní rate + nouzový režim
+    {
+      const vAbs = Math.abs(v);
+
+      // Nouzový režim: Space (min 200ms) + řízení = plný mechanický limit pro rychlé vyhnutí
+      const emergencyMode = this.hardBrakeTime >= EMERGENCY_HOLD && Math.abs(input.steer) > 0.1;
+
+      let deltaMax;
+      if (emergencyMode) {
+        // Nouzové manévrování: benevolentnější limit podle rychlosti (vyšší lateralEmergency)
+        const deltaLatEmergency = vAbs > 0.2
+          ? Math.atan((spec.lateralEmergency * spec.wheelbase) / (vAbs * vAbs))
+          : spec.steerMax;
+        deltaMax = Math.min(spec.steerMax, deltaLatEmergency);
+      } else {
+        // Běžné řízení: standardní limit úhlu kol podle a_lat
+        const deltaLat = vAbs > 0.2
+          ? Math.atan((spec.lateralLimit * spec.wheelbase) / (vAbs * vAbs))
+          : spec.steerMax;
+        deltaMax = Math.min(spec.steerMax, deltaLat);
+      }
+
+      // rampovaný vstup -> cílový úhel kol
+      const target = this.steerInput * deltaMax;
+
+      // rychlost změny rejdu závislá na rychlosti (0…50 km/h)
+      const v50 = ms(50);
+      const t = clamp(vAbs / v50, 0, 1);
+      const steerRate       = lerp(spec.steerRateLow,   spec.steerRateHigh,   t);
+      const steerReturnRate = lerp(spec.steerReturnLow, spec.steerReturnHigh, t);
+
+      // rate limiter: rychlejší návrat do středu
+      const sameSignOrZero = (Math.sign(target) === Math.sign(this.steering)) || target === 0;
+      const rate = sameSignOrZero ? steerReturnRate : steerRate;
+      const step = clamp(target - this.steering, -rate * dt, rate * dt);
+      this.steering += step;
+
+      // yawGain: nesahej na poloměr zatáčení, jen potlač kmitání u v≈0
+      // nad 0.3 m/s (≈1.1 km/h) je gain = 1 => plná geometrie, ostré rohy půjdou
+      const yawGain = vAbs < 0.3 ? (vAbs / 0.3) : 1.0;
+
+      // yaw rate (rad/s)
+      const yawRate = v * Math.tan(this.steering) / spec.wheelbase * yawGain;
+
+      if (vAbs > 0.02) {
+        this.angle += yawRate * dt;
+      }
+    }
+
+    // 2) Tempomat: toggle a úprava cílovky
+    if (input.cruiseControlToggle) {
+      if (this.cruiseControlSpeed === null) {
+        // Zapnout CC na aktuální rychlost, ale jen pokud >= 10 km/h
+        const current = Math.abs(v);
+        this.cruiseControlSpeed = current >= spec.cruiseMinSpeed ? current : null;
+      } else {
+        // Vypnout CC
+        this.cruiseControlSpeed = null;
+      }
+    }
+
+    // Jemná úprava cílové rychlosti CC přes plyn/brzdu (bez spodní meze)
+    if (this.cruiseControlSpeed !== null && (input.brake > 0 || input.throttle !== 0)) {
+      const speedChange = input.throttle * CRUISE_ADJUST;
+      const brakeChange = -input.brake * CRUISE_ADJUST;
+      this.cruiseControlSpeed = this.cruiseControlSpeed + (speedChange + brakeChange) * dt;
+      // Horní mez dá rozum, spodní řešíme vypnutím CC
+      if (this.cruiseControlSpeed > spec.maxSpeedForward) this.cruiseControlSpeed = spec.maxSpeedForward;
+      if (this.cruiseControlSpeed < spec.cruiseMinSpeed) this.cruiseControlSpeed = null;
+    }
+
+    // Prudká brzda CC vypne
+    if (input.hardBrake) {
+      this.cruiseControlSpeed = null;
+    }
+
+    // 3) Podélná akcelerace
+    let a = 0;
+
+    if (input.hardBrake) {
+      a = -spec.brakeHard * Math.sign(v || 1);   // prudká brzda ve směru pohybu
+    } else if (this.cruiseControlSpeed !== null) {
+      // Regulace na cílovou rychlost bez spodní meze
+      const target = clamp(this.cruiseControlSpeed, 0, spec.maxSpeedForward);
+      const err = target - Math.abs(v);
+      a = clamp(spec.cruiseKp * err, -spec.brakeHard, spec.maxAccel) * (v >= 0 ? 1 : -1);
+    } else if (input.brake > 0) {
+      // Jemná brzda – brzdíš ve směru aktuálního pohybu
+      const sign = Math.sign(v || 1);
+      a = -spec.brakeSoft * input.brake * sign;
+    } else if (input.throttle !== 0) {
+      // Plyn vpřed i vzad
+      a = spec.maxAccel * clamp(input.throttle, -1, 1);
+    } else if (v !== 0) {
+      // Volnoběh – malé zpomalení když nic neděláš
+      a = -spec.coastDrag * Math.sign(v);
+    }
+
+    // 5) Integrace rychlosti
+    let vNext = v + a * dt;
+
+    // Dynamický deadband podle dt (rozumné minimum 0.01 m/s)
+    const deadband = Math.max(0.01, 0.5 * spec.maxAccel * dt);
+
+    // Anti-flip kolem nuly používej jen když už se hýbeš
+    if (v !== 0 && (v * vNext < 0) && Math.abs(vNext) < deadband) {
+      vNext = 0;
+    }
+
+    // Pokud skutečná rychlost spadne pod 10 km/h, CC vypni
+    if (this.cruiseControlSpeed !== null && Math.abs(vNext) < spec.cruiseMinSpeed) {
+      this.cruiseControlSpeed = null;
+    }
+
+    // 6) Limity rychlosti vpřed/vzad
+    vNext = clamp(vNext, -spec.maxSpeedReverse, spec.maxSpeedForward);
+
+    // 7) "Zastav" jen když NEDRŽÍŠ plyn/brzdu ani CC
+    const noInput = (input.throttle === 0 && input.brake === 0 && !input.hardBrake && this.cruiseControlSpeed === null);
+    if (noInput && Math.abs(vNext) < deadband) {
+      vNext = 0;
+    }
+
+    // 8) Aktualizace vektoru rychlosti podle nové orientace
+    const newFwd = new Vector2(Math.cos(this.angle), Math.sin(this.angle));
+    this.velocity = newFwd.multiply(vNext);
+
+    // 9) Pozice
+    this.position.add(this.velocity.clone().multiply(dt));
+
+    // 10) Měření ujeté vzdálenosti
+    const dx = this.position.x - this.lastPosition.x;
+    const dy = this.position.y - this.lastPosition.y;
+    this.totalDistance += Math.sqrt(dx * dx + dy * dy);
+    this.lastPosition = this.position.clone();
+  }
+
+  // Telemetrie posledního kroku
+  telemetry(): VehicleTelemetry {
+    return {
+      speed: kmh(Math.abs(this.speed)),
+      throttle: this.lastInput.throttle,
+      brake: this.lastInput.brake,
+      steerRaw: this.lastInput.steer,
+      steerInput: this.steerInput,
+      steerAngleDeg: this.steering * 180/Math.PI,
+      leftBlinker: this.leftBlinker,
+      rightBlinker: this.rightBlinker,
+      cruiseControl: this.cruiseControlSpeed !== null,
+      cruiseTargetKmh: this.cruiseControlSpeed ? kmh(this.cruiseControlSpeed) : null,
+      totalDistance: this.totalDistance,
+    };
+  }
+
+  // Kompletní stav pro síť (rekonciliace se serverem)
+  getState(): VehicleDynamics {
+    return {
+      x: this.position.x,
+      y: this.position.y,
+      vx: this.velocity.x,
+      vy: this.velocity.y,
+      angle: this.angle,
+      steering: this.steering,
+      steerInput: this.steerInput,
+      cruiseControlSpeed: this.cruiseControlSpeed,
+      hardBrakeTime: this.hardBrakeTime,
+      totalDistance: this.totalDistance,
+      leftBlinker: this.leftBlinker,
+      rightBlinker: this.rightBlinker,
+    };
+  }
+
+  setState(state: VehicleDynamics) {
+    this.position = new Vector2(state.x, state.y);
+    this.velocity = new Vector2(state.vx, state.vy);
+    this.angle = state.angle;
+    this.steering = state.steering;
+    this.steerInput = state.steerInput;
+    this.cruiseControlSpeed = state.cruiseControlSpeed;
+    this.hardBrakeTime = state.hardBrakeTime;
+    this.totalDistance = state.totalDistance;
+    this.leftBlinker = state.leftBlinker;
+    this.rightBlinker = state.rightBlinker;
+    this.lastPosition = new Vector2(state.x, state.y);
+  }
+
+  // Brzdná dráha pro UI
+  getStoppingDistance(decel: number = this.spec.brakeSoft, reactionSec: number = 1): number {
+    const speedMs = Math.abs(this.speed);
+    return speedMs * reactionSec + (speedMs * speedMs) / (2 * decel);
+  }
+}
@@ -0,0 +1,50 @@
+const ms = (kmh: number) => kmh / 3.6;
+const deg2rad = (d: number) => d * Math.PI / 180;
+
+/**
+ * Physical parameters of a vehicle, SI units
+ */
+export interface VehicleSpec {
+  wheelbase: number;            // m
+  maxAccel: number;             // m/s², full throttle
+  brakeSoft: number;            // m/s², service brake
+  brakeHard: number;            // m/s², hard (emergency) brake
+  coastDrag: number;            // m/s², rolling without throttle or brake
+  maxSpeedForward: number;      // m/s
+  maxSpeedReverse: number;      // m/s
+  steerMax: number;             // rad, mechanical wheel lock
+  steerRateLow: number;         // rad/s, steering speed at standstill...
+  steerRateHigh: number;        // rad/s ...and from 50 km/h
+  steerReturnLow: number;       // rad/s, return to centre at standstill...
+  steerReturnHigh: number;      // rad/s ...and from 50 km/h
+  lateralLimit: number;         // m/s², lateral acceleration in normal driving
+  lateralEmergency: number;     // m/s², when swerving (hard brake + steering)
+  inputRampUp: number;          // 1/s, steering input ramp while a key is held
+  inputRampReturn: number;      // 1/s, steering input ramp back to zero
+  cruiseKp: number;             // 1/s, cruise control P gain
+  cruiseMinSpeed: number;       // m/s, cruise control disengages below
+}
+
+/**
+ * Passenger car, the player's vehicle
+ */
+export const DEFAULT_VEHICLE_SPEC: VehicleSpec = {
+  wheelbase: 2.7,
+  maxAccel: 2.5,
+  brakeSoft: 4.0,
+  brakeHard: 8.0,
+  coastDrag: 0.30,
+  maxSpeedForward: ms(135),
+  maxSpeedReverse: ms(15),
+  steerMax: deg2rad(35),
+  steerRateLow: 5.0,
+  steerRateHigh: 3.2,
+  steerReturnLow: 2.2,
+  steerReturnHigh: 1.6,
+  lateralLimit: 5.0,            // ≈ 0.51 g
+  lateralEmergency: 10.0,       // ≈ 1.02 g
+  inputRampUp: 4.0,
+  inputRampReturn: 2.0,
+  cruiseKp: 1.2,
+  cruiseMinSpeed: ms(10),
+};
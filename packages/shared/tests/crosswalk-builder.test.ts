@@ -0,0 +1,70 @@
+import { CrosswalkBuilder } from '../src/road-network/osm/crosswalk-builder';
+import { distance } from '../src/road-network/geometry';
+import type { OSMElement } from '../src/road-network/osm/overpass';
+import { buildNetwork } from './fixtures/build-network';
+
+/*
+ * West-east two-way road 101 and, north of it, a two-lane oneway 102 running
+ * east-west. Crossing 11 on 101, crossing 21 on 102, crossing 31 off any road.
+ */
+const roads: OSMElement[] = [
+  { type: 'node', id: 1, lat: 50.07, lon: 14.399 },
+  { type: 'node', id: 2, lat: 50.07, lon: 14.401 },
+  { type: 'node', id: 11, lat: 50.07, lon: 14.4, tags: { highway: 'crossing', crossing: 'uncontrolled' } },
+  { type: 'node', id: 3, lat: 50.071, lon: 14.401 },
+  { type: 'node', id: 4, lat: 50.071, lon: 14.399 },
+  { type: 'node', id: 21, lat: 50.071, lon: 14.4, tags: { highway: 'crossing', crossing: 'traffic_signals' } },
+  { type: 'node', id: 31, lat: 50.0705, lon: 14.4, tags: { highway: 'crossing', crossing: 'unmarked' } },
+  { type: 'way', id: 101, nodes: [1, 11, 2], tags: { highway: 'residential', lanes: '2' } },
+  { type: 'way', id: 102, nodes: [3, 21, 4], tags: { highway: 'secondary', lanes: '2', oneway: 'yes' } },
+];
+
+describe('CrosswalkBuilder', () => {
+  it('should span all lanes of a two-way road from curb to curb', () => {
+    const network = buildNetwork(roads);
+    const crosswalk = network.crosswalks.crosswalk_11;
+    const [a, b] = crosswalk.segment;
+    const lane = network.lanes.way_101_fwd_0.poly;
+    const midway = (lane[0][0] + lane[lane.length - 1][0]) / 2;
+
+    // Perpendicular to the road at the node midway, one lane width either side of the centreline
+    expect(a[0]).toBeCloseTo(midway, 3);
+    expect(b[0]).toBeCloseTo(a[0], 3);
+    expect(Math.max(a[1], b[1]) - Math.min(a[1], b[1])).toBeCloseTo(6.5, 3);
+    expect((a[1] + b[1]) / 2).toBeCloseTo(lane[0][1] + 3.25 / 2, 3);
+    expect(crosswalk.lanes?.sort()).toEqual(['way_101_bwd_0', 'way_101_fwd_0']);
+  });
+
+  it('should sit right of a oneway centreline like its lanes', () => {
+    const network = buildNetwork(roads);
+    const crosswalk = network.crosswalks.crosswalk_21;
+    const lanes = ['way_102_fwd_0', 'way_102_fwd_1'].map(id => network.lanes[id]);
+
+    // Westbound oneway: lanes lie north of the way, the crosswalk with them
+    expect(distance(crosswalk.segment[0], crosswalk.segment[1])).toBeCloseTo(6.5, 3);
+    for (const lane of lanes) {
+      const laneY = lane.poly[0][1];
+      expect(laneY).toBeGreaterThan(Math.min(crosswalk.segment[0][1], crosswalk.segment[1][1]));
+      expect(laneY).toBeLessThan(Math.max(crosswalk.segment[0][1], crosswalk.segment[1][1]));
+    }
+    expect(crosswalk.lanes?.sort()).toEqual(['way_102_fwd_0', 'way_102_fwd_1']);
+  });
+
+  it('should leave a crossing off any road a point', () => {
+    const network = buildNetwork(roads);
+    const [a, b] = network.crosswalks.crosswalk_31.segment;
+
+    expect(a).toEqual(b);
+    expect(network.crosswalks.crosswalk_31.lanes).toEqual([]);
+  });
+
+  it('should read signals and priority from the crossing tags', () => {
+    const network = buildNetwork(roads);
+
+    expect(network.crosswalks.crosswalk_11).toMatchObject({ hasSignals: false, priority: 'ped_over_cars' });
+    expect(network.crosswalks.crosswalk_21).toMatchObject({ hasSignals: true, priority: 'signal' });
+    expect(network.crosswalks.crosswalk_31).toMatchObject({ hasSignals: false, priority: 'cars_over_ped' });
+    expect(CrosswalkBuilder.crossingControl({ crossing: 'zebra' }).priority).toBe('ped_over_cars');
+    expect(CrosswalkBuilder.crossingControl({ crossing: 'unmarked', crossing_ref: 'zebra' }).priority).toBe('ped_over_cars');
+  });
+});
@@ -0,0 +1,91 @@
+import { bezierBetweenPoses, curveSpeedAdvice, minTurningRadius } from '../src/road-network/curves';
+import { startHeading, endHeading } from '../src/road-network/geometry';
+import { IntersectionBuilder } from '../src/road-network/osm/intersection-builder';
+import { LocalProjection } from '../src/road-network/projection';
+import { makeLane } from './fixtures/network';
+
+describe('bezierBetweenPoses', () => {
+  it('should approximate a circular quarter turn', () => {
+    // Right turn from northbound to eastbound around a 10 m radius corner
+    const curve = bezierBetweenPoses([0, 0], Math.PI / 2, [10, 10], 0);
+
+    expect(curve.path[0]).toEqual([0, 0]);
+    expect(curve.path[curve.path.length - 1]).toEqual([10, 10]);
+    expect(curve.arcLength[curve.arcLength.length - 1]).toBeCloseTo(5 * Math.PI, 0);
+    expect(curve.minRadius).toBeGreaterThan(9);
+    expect(curve.minRadius).toBeLessThan(10.5);
+    expect(curve.curvature.every(k => k < 0)).toBe(true);
+  });
+
+  it('should stay tangent to both headings', () => {
+    const curve = bezierBetweenPoses([0, 0], 0, [12, 12], Math.PI / 2);
+
+    // First/last chord deviates by half a sample step at most
+    expect(Math.abs(startHeading(curve.path))).toBeLessThan(0.1);
+    expect(Math.abs(endHeading(curve.path) - Math.PI / 2)).toBeLessThan(0.1);
+    expect(curve.path.length).toBe(curve.arcLength.length);
+    expect(curve.path.length).toBe(curve.curvature.length);
+  });
+
+  it('should lengthen the handles of an uneven corner up to the car turning radius', () => {
+    // Northbound lane ends 12 m before the corner, the eastbound one starts 5 m after it
+    const even = bezierBetweenPoses([0, 0], Math.PI / 2, [5, 12], 0);
+    const widened = bezierBetweenPoses([0, 0], Math.PI / 2, [5, 12], 0, minTurningRadius());
+
+    expect(even.minRadius).toBeLessThan(minTurningRadius());
+    expect(widened.minRadius).toBeGreaterThanOrEqual(minTurningRadius());
+    expect(widened.path[widened.path.length - 1]).toEqual([5, 12]);
+  });
+
+  it('should keep straight connectors straight', () => {
+    const curve = bezierBetweenPoses([0, 0], 0, [20, 0], 0);
+
+    expect(curve.minRadius).toBe(Infinity);
+    expect(curve.curvature.every(k => Math.abs(k) < 1e-9)).toBe(true);
+    expect(curve.arcLength[curve.arcLength.length - 1]).toBeCloseTo(20);
+  });
+});
+
+describe('turn limits', () => {
+  it('should derive the car turning radius and comfortable speed', () => {
+    expect(minTurningRadius(2.7, 35 * Math.PI / 180)).toBeCloseTo(3.86, 2);
+    expect(curveSpeedAdvice([0, -0.1, 0.05], 2)).toBeCloseTo(Math.sqrt(20));
+    expect(curveSpeedAdvice([0, 0])).toBe(Infinity);
+  });
+
+  it('should give built connectors drivable curvature profiles', () => {
+    const projection = new LocalProjection({ type: 'local_mercator', origin: { lat: 50, lon: 14 } });
+    const incoming = [makeLane('Sin', [[2, -50], [2, -8]])];
+    const outgoing = [makeLane('Eout', [[8, -2], [50, -2]]), makeLane('Nout', [[2, 8], [2, 50]])];
+    const { connectors } = IntersectionBuilder.buildIntersection(
+      { type: 'node', id: 1, lat: 50, lon: 14 }, incoming, outgoing, new Map(), projection
+    );
+
+    const right = connectors.find(c => c.toLane === 'Eout')!;
+    const straight = connectors.find(c => c.toLane === 'Nout')!;
+
+    expect(right.minRadius).toBeGreaterThan(minTurningRadius());
+    expect(right.curvature!.length).toBe(right.path.length);
+    expect(curveSpeedAdvice(right.curvature!)).toBeLessThan(5);
+    expect(straight.minRadius).toBeUndefined();
+    expect(straight.arcLength![straight.arcLength!.length - 1]).toBeCloseTo(16);
+    expect(right.tooTight).toBeUndefined();
+  });
+
+  it('should flag a corner tighter than the car can turn', () => {
+    const projection = new LocalProjection({ type: 'local_mercator', origin: { lat: 50, lon: 14 } });
+    // Lanes run up to 2.5 m from the centre, the right turn is a ~1 m radius corner
+    const incoming = [makeLane('Sin', [[2, -50], [2, -2.5]])];
+    const outgoing = [makeLane('Eout', [[2.5, -2], [50, -2]]), makeLane('Nout', [[2, 2.5], [2, 50]])];
+    const { connectors } = IntersectionBuilder.buildIntersection(
+      { type: 'node', id: 1, lat: 50, lon: 14 }, incoming, outgoing, new Map(), projection
+    );
+
+    const right = connectors.find(c => c.toLane === 'Eout')!;
+    const straight = connectors.find(c => c.toLane === 'Nout')!;
+
+    expect(right.minRadius).toBeLessThan(minTurningRadius());
+    expect(right.tooTight).toBe(true);
+    expect(straight.tooTight).toBeUndefined();
+  });
+});
@@ -0,0 +1,163 @@
+import { FixedTimestep } from '../src/replay/fixed-timestep';
+import { DriveRecorder, DriveRecordingError, parseDriveRecording, serializeDriveRecording } from '../src/replay/recording';
+import { ReplayPlayer, type ReplayTarget } from '../src/replay/replay-player';
+import type { DriveInput, DriveStart } from '../src/replay/types';
+import { makeInput } from './fixtures/drive';
+
+const STEP = 1 / 60;
+const START: DriveStart = { x: 100, y: 200, angle: 0.3 };
+
+/**
+ * Small bicycle model, nonlinear enough that any step or input difference shows
+ */
+class Car implements ReplayTarget {
+  x = 0;
+  y = 0;
+  angle = 0;
+  speed = 0;
+  cruise = false;
+  steps = 0;
+
+  reset(start: DriveStart): void {
+    Object.assign(this, { x: start.x, y: start.y, angle: start.angle, speed: 0, cruise: false, steps: 0 });
+  }
+
+  step(input: DriveInput, dt: number): void {
+    if (input.cruiseControlToggle) this.cruise = !this.cruise;
+    const accel = input.hardBrake ? -8 : this.cruise ? 0 : 2.5 * input.throttle - 4 * input.brake;
+    this.speed = Math.max(0, this.speed + accel * dt);
+    this.angle += this.speed * Math.tan(input.steer * 0.5) / 2.7 * dt;
+    this.x += Math.cos(this.angle) * this.speed * dt;
+    this.y += Math.sin(this.angle) * this.speed * dt;
+    this.steps++;
+  }
+
+  get state() {
+    return { x: this.x, y: this.y, angle: this.angle, speed: this.speed, cruise: this.cruise };
+  }
+}
+
+/** Scripted driver: input for a step */
+const driver = (tick: number): DriveInput => makeInput({
+  throttle: tick < 200 ? 1 : 0,
+  steer: tick >= 120 && tick < 260 ? (tick % 50 < 25 ? 1 : -0.5) : 0,
+  leftBlinker: tick >= 100 && tick < 260,
+  cruiseControlToggle: tick === 200 || tick === 300,
+  hardBrake: tick >= 360 && tick < 380,
+});
+
+/** Drive live with jittery frames, recording every step */
+function recordDrive(frames: number) {
+  const car = new Car();
+  car.reset(START);
+  const timestep = new FixedTimestep(STEP);
+  const recorder = new DriveRecorder(STEP);
+  recorder.begin(START, new Date('2025-05-01T08:00:00Z'));
+
+  for (let frame = 0; frame < frames; frame++) {
+    const steps = timestep.advance(0.011 + (frame * 7919 % 13) / 1000);
+    for (let i = 0; i < steps; i++) {
+      const current = driver(car.steps);
+      recorder.record(current);
+      car.step(current, STEP);
+    }
+  }
+
+  return { car, recording: recorder.finish() };
+}
+
+describe('FixedTimestep', () => {
+  it('should run whole steps and carry the remainder', () => {
+    const timestep = new FixedTimestep(0.01);
+    expect(timestep.advance(0.025)).toBe(2);
+    expect(timestep.alpha).toBeCloseTo(0.5);
+    expect(timestep.advance(0.006)).toBe(1);
+    expect(timestep.advance(-1)).toBe(0);
+  });
+
+  it('should drop time beyond the step limit after a stall', () => {
+    const timestep = new FixedTimestep(0.01, 5);
+    expect(timestep.advance(3)).toBe(5);
+    expect(timestep.advance(0.01)).toBe(1);
+  });
+});
+
+describe('Drive replay', () => {
+  it('should store only input changes', () => {
+    const { car, recording } = recordDrive(500);
+
+    expect(recording.ticks).toBe(car.steps);
+    expect(recording.changes[0].tick).toBe(0);
+    expect(recording.changes.length).toBeLessThan(recording.ticks / 2);
+    expect(recording.changes.filter(c => c.input.cruiseControlToggle).map(c => c.tick)).toEqual([200, 300]);
+  });
+
+  it('should keep recording after a snapshot', () => {
+    const recorder = new DriveRecorder(STEP);
+    recorder.begin(START);
+    recorder.record(makeInput({ throttle: 1 }));
+    const snapshot = recorder.snapshot();
+    recorder.record(makeInput());
+
+    expect(snapshot).toMatchObject({ ticks: 1, changes: [{ tick: 0 }] });
+    expect(recorder.finish()).toMatchObject({ ticks: 2, changes: [{ tick: 0 }, { tick: 1 }] });
+    expect(recorder.recording).toBe(false);
+    expect(() => recorder.finish()).toThrow(DriveRecordingError);
+  });
+
+  it('should reproduce the drive exactly at any frame rate and speed', () => {
+    const { car, recording } = recordDrive(500);
+
+    for (const [frame, speed] of [[1 / 60, 1], [1 / 144, 1], [0.033, 4], [0.02, 0.5]]) {
+      const replayed = new Car();
+      const player = new ReplayPlayer(recording, replayed);
+      player.setSpeed(speed);
+      player.play();
+      while (!player.finished) player.update(frame);
+
+      expect(replayed.state).toEqual(car.state);
+      expect(player.isPlaying).toBe(false);
+    }
+  });
+
+  it('should land on the same state when seeking back and forth', () => {
+    const { recording } = recordDrive(500);
+
+    const reference = new Car();
+    const straight = new ReplayPlayer(recording, reference);
+    straight.seek(5);
+    const expected = reference.state;
+
+    const replayed = new Car();
+    const player = new ReplayPlayer(recording, replayed);
+    player.seek(7);
+    player.seek(2);
+    player.seek(5);
+
+    expect(player.time).toBeCloseTo(5);
+    expect(replayed.state).toEqual(expected);
+  });
+
+  it('should not advance while paused', () => {
+    const { recording } = recordDrive(100);
+    const replayed = new Car();
+    const player = new ReplayPlayer(recording, replayed);
+
+    expect(player.update(1)).toBe(0);
+    player.play();
+    player.update(0.1);
+    player.pause();
+    player.update(0.1);
+
+    expect(replayed.steps).toBe(6);
+    expect(player.time).toBeCloseTo(0.1);
+  });
+
+  it('should round-trip through JSON and reject foreign files', () => {
+    const { recording } = recordDrive(200);
+
+    expect(parseDriveRecording(serializeDriveRecording(recording))).toEqual(recording);
+    expect(() => parseDriveRecording('{"format":"autoskola-exam-report"}')).toThrow(DriveRecordingError);
+    expect(() => parseDriveRecording(JSON.stringify({ ...recording, recordingVersion: 99 }))).toThrow(/version 99/);
+  });
+});
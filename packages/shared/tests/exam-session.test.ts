@@ -0,0 +1,79 @@
+import { ExamSession } from '../src/exam/exam-session';
+import { ExamReportError, parseExamReport, serializeExamReport } from '../src/exam/report';
+import type { TelemetrySample } from '../src/exam/types';
+import type { RuleViolation } from '../src/rules/types';
+
+const telemetry = (totalDistance: number): Omit<TelemetrySample, 't'> => ({
+  speed: 30,
+  throttle: 1,
+  brake: 0,
+  steerRaw: 0,
+  steerInput: 0,
+  steerAngleDeg: 0,
+  leftBlinker: false,
+  rightBlinker: false,
+  cruiseControl: false,
+  cruiseTargetKmh: null,
+  totalDistance,
+});
+
+const signal = (time: number): RuleViolation =>
+  ({ type: 'turn_signal', time, position: [0, 0], maneuver: 'turn_left', fault: 'missing' });
+
+describe('ExamSession', () => {
+  it('should record track, telemetry and violations relative to the start', () => {
+    const session = new ExamSession();
+    session.recordTrack(0, 0, 5);   // before start, ignored
+    session.start(10, new Date('2025-05-01T08:00:00Z'));
+    session.recordTrack(100, 200, 10);
+    session.recordTelemetry(11, telemetry(500));
+    session.recordTelemetry(70, telemetry(1250));
+    session.recordViolation(signal(40));
+
+    const report = session.finish(130);
+
+    expect(report).toMatchObject({ startedAt: '2025-05-01T08:00:00.000Z', duration: 120, distance: 750 });
+    expect(report.track).toEqual([{ x: 100, y: 200, t: 0 }]);
+    expect(report.telemetry.map(s => s.t)).toEqual([1, 60]);
+    expect(report.violations[0]).toMatchObject({ type: 'turn_signal', t: 30, points: 2, serious: false });
+    expect(session.running).toBe(false);
+  });
+
+  it('should pass with a few minor faults', () => {
+    const session = new ExamSession();
+    session.start(0);
+    session.recordViolation(signal(10));
+    session.recordViolation(signal(20));
+    session.recordViolation({ type: 'speeding', time: 30, position: [0, 0], speed: 16, limit: 13.89 });
+
+    const report = session.finish(60);
+
+    expect(report).toMatchObject({ passed: true, penaltyPoints: 7, score: 93 });
+    expect(report.categories).toEqual({ turn_signal: { count: 2, points: 4 }, speeding: { count: 1, points: 3 } });
+    expect(report.failReason).toBeUndefined();
+  });
+
+  it('should fail on a serious fault or too many points', () => {
+    const serious = new ExamSession();
+    serious.start(0);
+    serious.recordViolation({ type: 'red_light', time: 5, position: [0, 0], state: 'red', signalGroupId: 'sg' });
+    expect(serious.finish(10)).toMatchObject({ passed: false, failReason: 'serious_violation' });
+
+    const strict = new ExamSession({ maxPoints: 3 });
+    strict.start(0);
+    strict.recordViolation(signal(1));
+    strict.recordViolation(signal(2));
+    expect(strict.finish(10)).toMatchObject({ passed: false, failReason: 'penalty_points' });
+  });
+
+  it('should round-trip reports through JSON', () => {
+    const session = new ExamSession();
+    session.start(0);
+    session.recordViolation(signal(1));
+    const report = session.finish(10);
+
+    expect(parseExamReport(serializeExamReport(report))).toEqual(report);
+    expect(() => parseExamReport('{"format":"something-else"}')).toThrow(ExamReportError);
+    expect(() => parseExamReport('not json')).toThrow(ExamReportError);
+  });
+});
@@ -0,0 +1,16 @@
+import { NetworkBuilder } from '../../src/road-network/osm/network-builder';
+import type { OverpassResponse, OSMElement } from '../../src/road-network/osm/overpass';
+import type { RoadNetwork } from '../../src/road-network/types';
+
+/**
+ * Build a network from inline OSM elements, with the builder's progress log silenced
+ */
+export function buildNetwork(elements: OSMElement[]): RoadNetwork {
+  const osmData: OverpassResponse = { version: 0.6, generator: 'test', elements };
+  const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+  try {
+    return new NetworkBuilder().buildFromOSMData(osmData);
+  } finally {
+    log.mockRestore();
+  }
+}
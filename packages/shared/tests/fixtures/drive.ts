@@ -0,0 +1,14 @@
+import type { DriveInput } from '../../src/replay/types';
+
+export function makeInput(overrides: Partial<DriveInput> = {}): DriveInput {
+  return {
+    throttle: 0,
+    brake: 0,
+    steer: 0,
+    leftBlinker: false,
+    rightBlinker: false,
+    cruiseControlToggle: false,
+    hardBrake: false,
+    ...overrides,
+  };
+}
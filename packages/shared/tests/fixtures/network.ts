@@ -0,0 +1,108 @@
+import type { RoadNetwork, Lane, LaneConnector, Intersection, Vec2 } from '../../src/road-network/types';
+
+export function makeLane(id: string, poly: Vec2[], overrides: Partial<Lane> = {}): Lane {
+  return {
+    id,
+    poly,
+    width: 3.25,
+    maxSpeed: 13.89,
+    dir: 1,
+    type: 'general',
+    fromNode: `${id}_from`,
+    toNode: `${id}_to`,
+    ...overrides,
+  };
+}
+
+export function makeConnector(fromLane: Lane, toLane: Lane, overrides: Partial<LaneConnector> = {}): LaneConnector {
+  return {
+    id: `connector_${fromLane.id}_to_${toLane.id}`,
+    fromLane: fromLane.id,
+    toLane: toLane.id,
+    path: [fromLane.poly[fromLane.poly.length - 1], toLane.poly[0]],
+    allowed: true,
+    ...overrides,
+  };
+}
+
+export function makeIntersection(id: string, connectors: LaneConnector[], overrides: Partial<Intersection> = {}): Intersection {
+  return {
+    id,
+    incoming: [...new Set(connectors.map(c => c.fromLane))],
+    outgoing: [...new Set(connectors.map(c => c.toLane))],
+    connectors: connectors.map(c => c.id),
+    control: 'uncontrolled',
+    rules: [],
+    conflicts: [],
+    ...overrides,
+  };
+}
+
+export function makeNetwork(parts: {
+  lanes?: Lane[];
+  connectors?: LaneConnector[];
+  intersections?: Intersection[];
+} & Partial<Omit<RoadNetwork, 'lanes' | 'laneConnectors' | 'intersections'>> = {}): RoadNetwork {
+  const byId = <T extends { id: string }>(items: T[] = []) =>
+    Object.fromEntries(items.map(item => [item.id, item])) as Record<string, T>;
+
+  const { lanes, connectors, intersections, ...rest } = parts;
+
+  return {
+    lanes: byId(lanes),
+    laneConnectors: byId(connectors),
+    intersections: byId(intersections),
+    pedNodes: {},
+    pedEdges: {},
+    crosswalks: {},
+    crossLinks: {},
+    projection: { type: 'local_mercator', origin: { lat: 50.07, lon: 14.4 } },
+    bounds: { minLat: 50.065, maxLat: 50.075, minLon: 14.395, maxLon: 14.405 },
+    version: '2.1.0',
+    generatedAt: '2025-01-01T00:00:00.000Z',
+    source: 'custom',
+    ...rest,
+  };
+}
+
+/*
+ * Two ways around a block from S (south of A) to G (east of C):
+ *
+ *   D(0,110) --DC--> C(100,100) --G-->
+ *     ^                 ^
+ *    AD                BC
+ *     |                 |
+ *   A(0,0)  --AB-->  B(100,0)
+ *     ^
+ *     S
+ *
+ * Via B: right at A, left at B, right at C (200 m)
+ * Via D: through at A, right at D, through at C (~210 m)
+ */
+export function makeBlockNetwork(overrides: { ab?: Partial<Lane>; connectors?: Partial<Record<string, Partial<LaneConnector>>> } = {}): RoadNetwork {
+  const s = makeLane('S', [[0, -100], [0, 0]], { toNode: 'A' });
+  const ab = makeLane('AB', [[0, 0], [100, 0]], { fromNode: 'A', toNode: 'B', ...overrides.ab });
+  const ad = makeLane('AD', [[0, 0], [0, 110]], { fromNode: 'A', toNode: 'D' });
+  const bc = makeLane('BC', [[100, 0], [100, 100]], { fromNode: 'B', toNode: 'C' });
+  const dc = makeLane('DC', [[0, 110], [100, 100]], { fromNode: 'D', toNode: 'C' });
+  const g = makeLane('G', [[100, 100], [300, 100]], { fromNode: 'C' });
+
+  const conn = (from: Lane, to: Lane) =>
+    makeConnector(from, to, overrides.connectors?.[`${from.id}>${to.id}`]);
+
+  const atA = [conn(s, ab), conn(s, ad)];
+  const atB = [conn(ab, bc)];
+  const atD = [conn(ad, dc)];
+  const atC = [conn(bc, g), conn(dc, g)];
+
+  return makeNetwork({
+    lanes: [s, ab, ad, bc, dc, g],
+    connectors: [...atA, ...atB, ...atD, ...atC],
+    intersections: [
+      makeIntersection('A', atA),
+      makeIntersection('B', atB),
+      makeIntersection('D', atD),
+      makeIntersection('C', atC),
+    ],
+  });
+}
@@ -0,0 +1,284 @@
+import { IntersectionBuilder } from '../src/road-network/osm/intersection-builder';
+import { NetworkBuilder } from '../src/road-network/osm/network-builder';
+import { LocalProjection } from '../src/road-network/projection';
+import type { OSMNode, OverpassResponse } from '../src/road-network/osm/overpass';
+import type { Intersection, Lane, LaneConnector, Vec2, YieldSign } from '../src/road-network/types';
+import { RoadNetworkManager } from '../src/road-network/RoadNetwork';
+import { makeLane, makeNetwork } from './fixtures/network';
+
+const projection = new LocalProjection({ type: 'local_mercator', origin: { lat: 50, lon: 14 } });
+const junctionNode: OSMNode = { type: 'node', id: 1, lat: 50, lon: 14 };
+
+// Right-hand traffic arms around a junction at [0, 0], lanes end 8 m from the centre
+const ARMS = {
+  W: { in: makeLane('Win', [[-50, -2], [-8, -2]]), out: makeLane('Wout', [[-8, 2], [-50, 2]]) },
+  E: { in: makeLane('Ein', [[50, 2], [8, 2]]), out: makeLane('Eout', [[8, -2], [50, -2]]) },
+  S: { in: makeLane('Sin', [[2, -50], [2, -8]]), out: makeLane('Sout', [[-2, -8], [-2, -50]]) },
+  N: { in: makeLane('Nin', [[-2, 50], [-2, 8]]), out: makeLane('Nout', [[2, 8], [2, 50]]) },
+};
+
+function buildJunction(arms: (keyof typeof ARMS)[]): Intersection {
+  const incoming: Lane[] = arms.map(arm => ARMS[arm].in);
+  const outgoing: Lane[] = arms.map(arm => ARMS[arm].out);
+  return IntersectionBuilder.buildIntersection(junctionNode, incoming, outgoing, new Map(), projection).intersection;
+}
+
+type Arm = keyof typeof ARMS;
+
+/**
+ * Junction with one OSM way per arm, main road tagged and side roads signed
+ */
+function buildPriorityJunction(
+  arms: Arm[],
+  main: Arm[],
+  signs: Partial<Record<Arm, YieldSign>> = {}
+): { intersection: Intersection } {
+  const wayLane = (arm: Arm, lane: Lane, incoming: boolean): Lane => ({
+    ...lane,
+    wayId: arms.indexOf(arm) + 1,
+    priorityRoad: main.includes(arm) || undefined,
+    yieldSign: incoming ? signs[arm] : undefined,
+  });
+  const incoming = arms.map(arm => wayLane(arm, ARMS[arm].in, true));
+  const outgoing = arms.map(arm => wayLane(arm, ARMS[arm].out, false));
+  return IntersectionBuilder.buildIntersection(junctionNode, incoming, outgoing, new Map(), projection);
+}
+
+const movement = (from: string, to: string) => `connector_${from}in_to_${to}out`;
+
+/**
+ * Connector that goes first in the rule between two movements
+ */
+function winner(intersection: Intersection, a: string, b: string): string {
+  const rule = intersection.rules.find(r =>
+    (r.connectorA === a && r.connectorB === b) || (r.connectorA === b && r.connectorB === a)
+  );
+  if (!rule) throw new Error(`No rule between ${a} and ${b}`);
+  return rule.hasPriority === 'A' ? rule.connectorA : rule.connectorB;
+}
+
+describe('IntersectionBuilder right-hand rule', () => {
+  describe('T junction', () => {
+    const t = buildJunction(['W', 'E', 'S']);
+
+    it('should give the vehicle from the right priority', () => {
+      // Left turn out of the stem: westbound traffic comes from its right
+      expect(winner(t, movement('S', 'W'), movement('E', 'W'))).toBe(movement('E', 'W'));
+      // ...while eastbound traffic comes from its left and has to yield to the stem
+      expect(winner(t, movement('S', 'W'), movement('W', 'E'))).toBe(movement('S', 'W'));
+      expect(winner(t, movement('S', 'E'), movement('W', 'E'))).toBe(movement('S', 'E'));
+    });
+
+    it('should make left turns yield to oncoming traffic', () => {
+      expect(winner(t, movement('E', 'S'), movement('W', 'E'))).toBe(movement('W', 'E'));
+      expect(winner(t, movement('E', 'S'), movement('W', 'S'))).toBe(movement('W', 'S'));
+    });
+  });
+
+  describe('X junction', () => {
+    const x = buildJunction(['W', 'E', 'S', 'N']);
+
+    it('should let through traffic pass before an oncoming left turn', () => {
+      expect(winner(x, movement('S', 'W'), movement('N', 'S'))).toBe(movement('N', 'S'));
+      expect(winner(x, movement('N', 'E'), movement('S', 'N'))).toBe(movement('S', 'N'));
+    });
+
+    it('should let opposite left turns pass in front of each other', () => {
+      expect(() => winner(x, movement('S', 'W'), movement('N', 'E'))).toThrow('No rule');
+    });
+
+    it('should keep the right-hand rule for a right turn merging with through traffic', () => {
+      expect(winner(x, movement('E', 'N'), movement('S', 'N'))).toBe(movement('E', 'N'));
+    });
+
+    it('should leave the four-way through tie as a priority cycle', () => {
+      // Everyone yields to the right - resolved at runtime, but the rules themselves are stable
+      const through = ['S', 'E', 'N', 'W'].map((from, i, arms) => {
+        const to = arms[(i + 2) % 4];
+        return movement(from, to);
+      });
+      const winners = through.map((m, i) => winner(x, m, through[(i + 1) % 4]));
+      expect(winners).toEqual([through[1], through[2], through[3], through[0]]);
+    });
+
+    it('should produce identical rules on every build', () => {
+      expect(buildJunction(['W', 'E', 'S', 'N']).rules).toEqual(x.rules);
+    });
+  });
+});
+
+describe('IntersectionBuilder priority road', () => {
+  it('should make side-road movements yield to the main road', () => {
+    const { intersection } = buildPriorityJunction(['W', 'E', 'S'], ['W', 'E'], { S: 'give_way' });
+
+    expect(intersection.control).toBe('give_way');
+    // The right-hand rule would let the stem go first here
+    expect(winner(intersection, movement('S', 'W'), movement('W', 'E'))).toBe(movement('W', 'E'));
+    expect(winner(intersection, movement('S', 'E'), movement('W', 'E'))).toBe(movement('W', 'E'));
+    // Turning off the main road yields to oncoming main-road traffic
+    expect(winner(intersection, movement('E', 'S'), movement('W', 'E'))).toBe(movement('W', 'E'));
+  });
+
+  it('should follow a main road that bends through the junction', () => {
+    const { intersection } = buildPriorityJunction(['W', 'E', 'S', 'N'], ['S', 'W']);
+
+    expect(intersection.control).toBe('priority');
+    expect(intersection.mainRoad?.sort()).toEqual(['Sin', 'Sout', 'Win', 'Wout']);
+    expect(winner(intersection, movement('S', 'W'), movement('E', 'W'))).toBe(movement('S', 'W'));
+    expect(winner(intersection, movement('S', 'W'), movement('N', 'S'))).toBe(movement('S', 'W'));
+    // Straight on from W leaves the main road and yields to traffic following it
+    expect(winner(intersection, movement('S', 'W'), movement('W', 'E'))).toBe(movement('S', 'W'));
+  });
+
+  it('should find the main road from side-road signs', () => {
+    const { intersection } = buildPriorityJunction(['W', 'E', 'S'], [], { S: 'stop' });
+
+    expect(intersection.control).toBe('stop');
+    expect(intersection.mainRoad?.sort()).toEqual(['Ein', 'Eout', 'Win', 'Wout']);
+  });
+
+  it('should read priority relations and directional signs from OSM', () => {
+    const osmData: OverpassResponse = {
+      version: 0.6,
+      generator: 'test',
+      elements: [
+        { type: 'node', id: 1, lat: 50.07, lon: 14.399 },
+        { type: 'node', id: 2, lat: 50.07, lon: 14.4 },
+        { type: 'node', id: 3, lat: 50.07, lon: 14.401 },
+        { type: 'node', id: 4, lat: 50.0692, lon: 14.4 },
+        // ~11 m before the junction, facing traffic towards node 2
+        { type: 'node', id: 5, lat: 50.0699, lon: 14.4, tags: { highway: 'stop', direction: 'forward' } },
+        { type: 'way', id: 101, nodes: [1, 2], tags: { highway: 'secondary' } },
+        { type: 'way', id: 102, nodes: [2, 3], tags: { highway: 'secondary' } },
+        { type: 'way', id: 103, nodes: [4, 5, 2], tags: { highway: 'residential' } },
+        {
+          type: 'relation',
+          id: 201,
+          members: [{ type: 'way', ref: 101, role: '' }, { type: 'way', ref: 102, role: '' }],
+          tags: { type: 'route', priority_road: 'designated' },
+        },
+      ],
+    };
+
+    const network = new NetworkBuilder().buildFromOSMData(osmData);
+    const junction = network.intersections.intersection_2;
+
+    expect(network.lanes.way_101_fwd_0.priorityRoad).toBe(true);
+    expect(network.lanes.way_103_fwd_0.yieldSign).toBe('stop');
+    expect(network.lanes.way_103_bwd_0.yieldSign).toBeUndefined();
+    expect(network.lanes.way_103_fwd_0.stopLine).toBeDefined();
+    expect(junction.control).toBe('stop');
+    expect(junction.mainRoad).not.toContain('way_103_fwd_0');
+  });
+});
+
+describe('IntersectionBuilder polygon', () => {
+  // Two 3.25 m lanes per road, edges 3.625 m off the centreline, corners 1 m further out
+  const EDGE = 2 + 3.25 / 2;
+  const SETBACK = EDGE + 1;
+
+  /**
+   * X junction whose lanes run up to 2 m from the centre
+   */
+  function buildDeepJunction() {
+    const lanes = {
+      Win: makeLane('Win', [[-50, -2], [-2, -2]]),
+      Wout: makeLane('Wout', [[-2, 2], [-50, 2]]),
+      Ein: makeLane('Ein', [[50, 2], [2, 2]]),
+      Eout: makeLane('Eout', [[2, -2], [50, -2]]),
+      Sin: makeLane('Sin', [[2, -50], [2, -2]]),
+      Sout: makeLane('Sout', [[-2, -2], [-2, -50]]),
+      Nin: makeLane('Nin', [[-2, 50], [-2, 2]]),
+      Nout: makeLane('Nout', [[2, 2], [2, 50]]),
+    };
+    const built = IntersectionBuilder.buildIntersection(
+      junctionNode,
+      [lanes.Win, lanes.Ein, lanes.Sin, lanes.Nin],
+      [lanes.Wout, lanes.Eout, lanes.Sout, lanes.Nout],
+      new Map(),
+      projection
+    );
+    return { lanes, ...built };
+  }
+
+  it('should bound the junction by the edges of crossing roads', () => {
+    const polygon = buildJunction(['W', 'E', 'S', 'N']).polygon!;
+    const corners = polygon.map(([x, y]) => [Math.round(x * 1000) / 1000, Math.round(y * 1000) / 1000]);
+
+    expect(corners).toHaveLength(8);
+    expect(corners).toContainEqual([SETBACK, -EDGE]);
+    expect(corners).toContainEqual([SETBACK, EDGE]);
+    expect(corners).toContainEqual([-EDGE, -SETBACK]);
+    expect(corners).toContainEqual([-SETBACK, EDGE]);
+    // Lanes ending 8 m out stay untouched
+    expect(ARMS.W.in.poly[1]).toEqual([-8, -2]);
+  });
+
+  it('should trim lanes where they enter the polygon', () => {
+    const { lanes, connectors } = buildDeepJunction();
+
+    expect(lanes.Win.poly[lanes.Win.poly.length - 1][0]).toBeCloseTo(-SETBACK);
+    expect(lanes.Wout.poly[0][0]).toBeCloseTo(-SETBACK);
+    expect(lanes.Nin.poly[lanes.Nin.poly.length - 1][1]).toBeCloseTo(SETBACK);
+    expect(lanes.Win.poly[0]).toEqual([-50, -2]);
+    // Connectors start from the trimmed lane ends
+    const straight = connectors.find(c => c.id === movement('W', 'E'))!;
+    expect(straight.path[0][0]).toBeCloseTo(-SETBACK);
+  });
+
+  it('should find the intersection containing a position', () => {
+    const { lanes, intersection, connectors } = buildDeepJunction();
+    const manager = new RoadNetworkManager(makeNetwork({
+      lanes: Object.values(lanes),
+      connectors,
+      intersections: [intersection],
+    }));
+
+    expect(manager.findIntersectionAt([1, -3])?.id).toBe('intersection_1');
+    expect(manager.findIntersectionAt([SETBACK + 1, 0])).toBeNull();
+    expect(manager.findIntersectionAt([SETBACK - 0.5, SETBACK - 0.5])).toBeNull();
+  });
+});
+
+describe('IntersectionBuilder conflict detection', () => {
+  const connector = (id: string, fromLane: string, toLane: string, path: Vec2[]): LaneConnector =>
+    ({ id, fromLane, toLane, path, allowed: true });
+
+  it('should locate crossing points along both paths', () => {
+    const [conflict] = IntersectionBuilder.detectConflicts([
+      connector('ns', 'n', 's', [[0, 10], [0, -10]]),
+      connector('we', 'w', 'e', [[-10, 2], [10, 2]]),
+    ]);
+
+    expect(conflict).toMatchObject({ type: 'crossing', point: [0, 2], alongA: 8, alongB: 10 });
+  });
+
+  it('should classify merging and diverging movements', () => {
+    const conflicts = IntersectionBuilder.detectConflicts([
+      connector('w_s', 'w', 's', [[-10, 0], [-2, 0], [0, -2], [0, -10]]),
+      connector('e_s', 'e', 's', [[10, 0], [2, 0], [0, -2], [0, -10]]),
+      connector('w_n', 'w', 'n', [[-10, 0], [-2, 0], [0, 2], [0, 10]]),
+    ]);
+
+    expect(conflicts.find(c => c.connectorB === 'e_s')).toMatchObject({ type: 'merging', point: [0, -2] });
+    expect(conflicts.find(c => c.connectorB === 'e_s')!.alongA).toBeCloseTo(8 + Math.SQRT2 * 2);
+    expect(conflicts.find(c => c.connectorB === 'w_n')).toMatchObject({ type: 'diverging', point: [-2, 0], alongA: 8 });
+  });
+
+  it('should leave out movements that never meet', () => {
+    expect(IntersectionBuilder.detectConflicts([
+      connector('a', 'a_in', 'a_out', [[0, 0], [10, 0]]),
+      connector('b', 'b_in', 'b_out', [[0, 5], [10, 5]]),
+      // Touches the start of "a" only at its own end - a shared corner, not a crossing
+      connector('c', 'c_in', 'c_out', [[0, -10], [0, 0]]),
+    ])).toEqual([]);
+  });
+
+  it('should store conflicts and only create rules for crossing and merging pairs', () => {
+    const x = buildJunction(['W', 'E', 'S', 'N']);
+    const needsRule = x.conflicts.filter(c => c.type !== 'diverging');
+
+    expect(x.conflicts.some(c => c.type === 'diverging')).toBe(true);
+    expect(x.rules.map(r => [r.connectorA, r.connectorB])).toEqual(needsRule.map(c => [c.connectorA, c.connectorB]));
+  });
+});
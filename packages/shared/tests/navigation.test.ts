@@ -0,0 +1,79 @@
+import { RoadNetworkManager } from '../src/road-network/RoadNetwork';
+import { buildNavigationRoute, nextManeuver, nextSignal, routeProgress } from '../src/road-network/navigation';
+import { makeBlockNetwork, makeConnector, makeIntersection, makeLane, makeNetwork } from './fixtures/network';
+
+describe('buildNavigationRoute', () => {
+  it('should announce turns and straight-ons where there is a choice', () => {
+    const network = makeBlockNetwork();
+    network.lanes.DC.name = 'Plzeňská';
+    const route = new RoadNetworkManager(network).planRoute([0, -50], [150, 101])!;
+    const nav = buildNavigationRoute(route, network);
+
+    expect(nav.maneuvers.map(m => m.type)).toEqual(['depart', 'straight', 'turn_right', 'arrive']);
+    expect(nav.maneuvers[1]).toMatchObject({ at: 50, intersectionId: 'A', control: 'uncontrolled', ontoLaneId: 'AD' });
+    expect(nav.maneuvers[2]).toMatchObject({ at: 160, ontoName: 'Plzeňská' });
+    expect(nav.length).toBeCloseTo(route.length);
+    expect(nav.polyline[0]).toEqual([0, -50]);
+  });
+
+  it('should track progress and the next manoeuvre', () => {
+    const network = makeBlockNetwork();
+    const nav = buildNavigationRoute(new RoadNetworkManager(network).planRoute([0, -50], [150, 101])!, network);
+
+    const progress = routeProgress(nav, [1, 80]);
+    expect(progress.along).toBeCloseTo(130);
+    expect(progress.offRoute).toBeCloseTo(1);
+
+    const next = nextManeuver(nav, progress.along);
+    expect(next?.maneuver.type).toBe('turn_right');
+    expect(next?.distance).toBeCloseTo(30);
+  });
+
+  it('should list signalised junctions along the route', () => {
+    const network = makeBlockNetwork();
+    network.intersections.D.control = 'signals';
+    network.intersections.C.control = 'signals';
+    const nav = buildNavigationRoute(new RoadNetworkManager(network).planRoute([0, -50], [150, 101])!, network);
+
+    expect(nav.signals.map(s => s.intersectionId)).toEqual(['D', 'C']);
+    expect(nav.signals[0]).toMatchObject({ at: 160, connectorId: 'connector_AD_to_DC' });
+
+    const next = nextSignal(nav, 170);
+    expect(next?.signal.intersectionId).toBe('C');
+    expect(nextSignal(nav, nav.length)).toBeNull();
+  });
+
+  it('should count exits on a roundabout ring', () => {
+    // Ring segments r1..r3 going counter-clockwise, exits at every ring node
+    const entry = makeLane('in', [[0, -60], [0, -20]]);
+    const r1 = makeLane('r1', [[0, -20], [20, 0]], { roundabout: true });
+    const r2 = makeLane('r2', [[20, 0], [0, 20]], { roundabout: true });
+    const r3 = makeLane('r3', [[0, 20], [-20, 0]], { roundabout: true });
+    const exit1 = makeLane('exit1', [[20, 0], [60, 0]], { name: 'První' });
+    const exit2 = makeLane('exit2', [[0, 20], [0, 60]], { name: 'Druhá' });
+    const exit3 = makeLane('exit3', [[-20, 0], [-60, 0]]);
+
+    const atEntry = [makeConnector(entry, r1)];
+    const atE1 = [makeConnector(r1, r2), makeConnector(r1, exit1)];
+    const atE2 = [makeConnector(r2, r3), makeConnector(r2, exit2)];
+    const atE3 = [makeConnector(r3, exit3)];
+
+    const network = makeNetwork({
+      lanes: [entry, r1, r2, r3, exit1, exit2, exit3],
+      connectors: [...atEntry, ...atE1, ...atE2, ...atE3],
+      intersections: [
+        makeIntersection('e0', atEntry),
+        makeIntersection('e1', atE1),
+        makeIntersection('e2', atE2),
+        makeIntersection('e3', atE3),
+      ],
+    });
+
+    const route = new RoadNetworkManager(network).planRoute([0, -50], [0, 50], { unsignalisedCrossingPenalty: 0 })!;
+    const nav = buildNavigationRoute(route, network);
+    const roundabout = nav.maneuvers.find(m => m.type === 'roundabout');
+
+    expect(roundabout).toMatchObject({ exitNumber: 2, ontoName: 'Druhá', at: 30 });
+    expect(nav.maneuvers.map(m => m.type)).toEqual(['depart', 'roundabout', 'arrive']);
+  });
+});
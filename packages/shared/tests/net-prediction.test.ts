@@ -0,0 +1,118 @@
+import { AuthoritativeVehicle } from '../src/net/authoritative-vehicle';
+import { PredictedVehicle } from '../src/net/predicted-vehicle';
+import { readNetVehicleState, sanitizeInputMessage, writeNetVehicleState, type NetVehicleState } from '../src/net/protocol';
+import type { DriveInput } from '../src/replay/types';
+import { VehicleModel } from '../src/vehicle/vehicle-model';
+import { makeInput } from './fixtures/drive';
+
+const STEP = 1 / 60;
+const STEPS_PER_TICK = 2;       // 60 Hz simulation, 30 Hz server
+const TICK = STEPS_PER_TICK * STEP;
+
+const driver = (step: number): DriveInput => makeInput({
+  throttle: step < 240 ? 1 : 0,
+  steer: step >= 90 && step < 200 ? 1 : 0,
+  rightBlinker: step >= 60 && step < 200,
+  cruiseControlToggle: step === 240,
+});
+
+const netState = (): NetVehicleState => ({
+  id: 'player',
+  position: { x: 0, y: 0 },
+  velocity: { x: 0, y: 0 },
+  angle: 0,
+  steering: 0,
+  steerInput: 0,
+  cruiseControl: false,
+  cruiseControlSpeed: 0,
+  hardBrakeTime: 0,
+  totalDistance: 0,
+  leftBlinker: false,
+  rightBlinker: false,
+  lastInput: 0,
+});
+
+/** Server snapshot as the client decodes it */
+function snapshot(server: AuthoritativeVehicle): NetVehicleState {
+  const state = netState();
+  writeNetVehicleState(state, server.model.getState(), server.lastInput);
+  return JSON.parse(JSON.stringify(state));
+}
+
+describe('Network prediction', () => {
+  it('should keep prediction and server in lockstep over a laggy link', () => {
+    const server = new AuthoritativeVehicle(new VehicleModel(100, 100), STEP, STEPS_PER_TICK * 2);
+    const client = new PredictedVehicle(new VehicleModel(100, 100), STEP);
+    const local = new VehicleModel(100, 100);
+    const inFlight: { arrives: number; message: ReturnType<PredictedVehicle['apply']> }[] = [];
+
+    for (let step = 0; step < 400; step++) {
+      inFlight.push({ arrives: step + 5, message: client.apply(driver(step)) });
+      local.update(STEP, driver(step));
+
+      while (inFlight.length > 0 && inFlight[0].arrives <= step) server.enqueue(inFlight.shift()!.message);
+      if (step % STEPS_PER_TICK === 1) {
+        server.tick(TICK);
+        const state = snapshot(server);
+        client.reconcile(readNetVehicleState(state), state.lastInput);
+      }
+
+      expect(client.model.getState()).toEqual(local.getState());
+    }
+
+    expect(client.pendingInputs).toBeGreaterThan(0);
+  });
+
+  it('should snap to the server when it disagrees', () => {
+    const server = new AuthoritativeVehicle(new VehicleModel(500, 0), STEP, STEPS_PER_TICK);
+    const client = new PredictedVehicle(new VehicleModel(0, 0), STEP);
+
+    for (let step = 0; step < 6; step++) server.enqueue(client.apply(driver(step)));
+    server.tick(TICK);
+    const state = snapshot(server);
+    client.reconcile(readNetVehicleState(state), state.lastInput);
+
+    // Server simulated two inputs from x=500, the other four are replayed on top
+    const expected = new VehicleModel(500, 0);
+    for (let step = 0; step < 6; step++) expected.update(STEP, driver(step));
+    expect(client.model.getState()).toEqual(expected.getState());
+    expect(client.pendingInputs).toBe(4);
+  });
+
+  it('should not run more inputs than server time allows', () => {
+    const server = new AuthoritativeVehicle(new VehicleModel(0, 0), STEP, STEPS_PER_TICK);
+    for (let seq = 1; seq <= 10; seq++) server.enqueue({ seq, input: makeInput({ throttle: 1 }) });
+    server.enqueue({ seq: 3, input: makeInput() });
+
+    expect(server.tick(TICK)).toBe(2);
+    expect(server.lastInput).toBe(2);
+    expect(server.tick(TICK / 2)).toBe(1);
+    expect(server.tick(10)).toBe(2);
+    expect(server.lastInput).toBe(5);
+  });
+
+  it('should keep a flooding client at real time', () => {
+    const server = new AuthoritativeVehicle(new VehicleModel(0, 0), STEP, STEPS_PER_TICK * 2);
+    const realTime = new VehicleModel(0, 0);
+    let seq = 0;
+
+    // Ten times more inputs than steps for one second of server ticks
+    for (let tick = 0; tick < 30; tick++) {
+      for (let i = 0; i < STEPS_PER_TICK * 10; i++) server.enqueue({ seq: ++seq, input: makeInput({ throttle: 1 }) });
+      server.tick(TICK);
+    }
+    for (let step = 0; step < 60; step++) realTime.update(STEP, makeInput({ throttle: 1 }));
+
+    expect(server.model.totalDistance).toBeCloseTo(realTime.totalDistance, 6);
+  });
+
+  it('should sanitize input from the wire', () => {
+    expect(sanitizeInputMessage({ seq: 7, input: { throttle: 5, steer: -3, brake: -1, hardBrake: 'yes' } })).toEqual({
+      seq: 7,
+      input: makeInput({ throttle: 1, steer: -1 }),
+    });
+    expect(sanitizeInputMessage({ seq: 1.5, input: {} })).toBeNull();
+    expect(sanitizeInputMessage({ seq: 1 })).toBeNull();
+    expect(sanitizeInputMessage(null)).toBeNull();
+  });
+});
@@ -0,0 +1,52 @@
+import { NetworkBuilder } from '../src/road-network/osm/network-builder';
+import { RoadNetworkManager } from '../src/road-network/RoadNetwork';
+import {
+  createNetworkPack,
+  parseNetworkPack,
+  NetworkPackError,
+  NETWORK_PACK_VERSION,
+} from '../src/road-network/pack';
+import type { OverpassResponse } from '../src/road-network/osm/overpass';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+function buildFixtureNetwork() {
+  const osmData: OverpassResponse = JSON.parse(readFileSync(join(__dirname, 'fixtures/osm/t-junction.json'), 'utf8'));
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  return new NetworkBuilder().buildFromOSMData(osmData);
+}
+
+describe('network packs', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should build a network offline from fixture OSM JSON', () => {
+    const network = buildFixtureNetwork();
+
+    expect(Object.keys(network.lanes).length).toBe(6);
+    expect(Object.values(network.intersections).map(i => i.control)).toEqual(['signals']);
+    expect(Object.keys(network.crosswalks)).toEqual(['crosswalk_5']);
+  });
+
+  it('should round-trip through a pack', async () => {
+    const network = buildFixtureNetwork();
+    const pack = await createNetworkPack(network, { name: 'fixture' });
+
+    expect(pack.packVersion).toBe(NETWORK_PACK_VERSION);
+    expect(pack.checksum.value).toMatch(/^[0-9a-f]{64}$/);
+
+    const loaded = await parseNetworkPack(JSON.stringify(pack));
+    expect(loaded).toEqual(network);
+    expect(new RoadNetworkManager(loaded).getMetadata().stats.lanes).toBe(6);
+  });
+
+  it('should reject corrupted and incompatible packs', async () => {
+    const pack = await createNetworkPack(buildFixtureNetwork(), { name: 'fixture' });
+
+    const tampered = JSON.parse(JSON.stringify(pack));
+    Object.values<any>(tampered.network.lanes)[0].maxSpeed = 99;
+    await expect(parseNetworkPack(JSON.stringify(tampered))).rejects.toThrow('Checksum mismatch');
+
+    await expect(parseNetworkPack(JSON.stringify({ ...pack, packVersion: 99 }))).rejects.toThrow(NetworkPackError);
+    await expect(parseNetworkPack('{"lanes":')).rejects.toThrow('Invalid pack JSON');
+  });
+});
@@ -0,0 +1,82 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  OSMXMLFileSource,
+  OverpassJSONFileSource,
+  clipToBounds,
+  osmFileSource,
+  type OSMDataSource,
+} from '../src/road-network/osm/data-source';
+import { parseOSMXML } from '../src/road-network/osm/osm-xml';
+import { NetworkBuilder } from '../src/road-network/osm/network-builder';
+import type { RoadNetwork } from '../src/road-network/types';
+
+const fixture = (name: string) => join(__dirname, 'fixtures/osm', name);
+const readText = async (path: string) => readFileSync(path, 'utf8');
+const T_JUNCTION_BOUNDS = { south: 50.069, west: 14.398, north: 50.071, east: 14.402 };
+
+async function build(source: OSMDataSource, bounds?: typeof T_JUNCTION_BOUNDS): Promise<RoadNetwork> {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  const network = await new NetworkBuilder(source).build(bounds);
+  return { ...network, generatedAt: '' };
+}
+
+describe('parseOSMXML', () => {
+  const data = parseOSMXML(readFileSync(fixture('t-junction.osm'), 'utf8'));
+
+  it('should read nodes, ways, relations and tags', () => {
+    expect(data.version).toBe(0.6);
+    expect(data.elements.map(e => `${e.type}/${e.id}`)).toEqual([
+      'node/1', 'node/2', 'node/3', 'node/4', 'node/5', 'node/6', 'node/7',
+      'way/101', 'way/102', 'way/103', 'way/104',
+      'relation/201',
+    ]);
+    expect(data.elements[1]).toEqual({ type: 'node', id: 2, lat: 50.07, lon: 14.4, tags: { highway: 'traffic_signals' } });
+    expect(data.elements[7]).toMatchObject({ nodes: [1, 5, 2], tags: { name: 'Západní' } });
+    expect(data.elements[11]).toMatchObject({ members: [{ type: 'way', ref: 104, role: '' }] });
+  });
+
+  it('should decode XML entities in attributes', () => {
+    expect(data.elements[6].tags?.note).toBe('U "Lva" & spol.');
+  });
+
+  it('should reject nodes without coordinates', () => {
+    expect(() => parseOSMXML('<osm><node id="1" lat="50"/></osm>')).toThrow('node 1 has invalid lon');
+  });
+});
+
+describe('clipToBounds', () => {
+  it('should keep ways touching the bounds with all their nodes', () => {
+    const data = parseOSMXML(readFileSync(fixture('t-junction.osm'), 'utf8'));
+    // Only node 6 inside, way 104 pulls in node 7 and keeps relation 201
+    const clipped = clipToBounds(data, { south: 50.079, west: 14.398, north: 50.081, east: 14.4 });
+
+    expect(clipped.elements.map(e => `${e.type}/${e.id}`)).toEqual(['node/6', 'node/7', 'way/104', 'relation/201']);
+  });
+});
+
+describe('NetworkBuilder data sources', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('should build the same network from Overpass JSON and OSM XML', async () => {
+    const fromJSON = await build(new OverpassJSONFileSource(fixture('t-junction.json'), readText));
+    const fromXML = await build(new OSMXMLFileSource(fixture('t-junction.osm'), readText), T_JUNCTION_BOUNDS);
+
+    expect(Object.keys(fromJSON.lanes)).toHaveLength(6);
+    expect(fromXML).toEqual(fromJSON);
+  });
+
+  it('should be deterministic apart from the build timestamp', async () => {
+    const source = osmFileSource(fixture('t-junction.osm'), readText);
+    expect(await build(source)).toEqual(await build(source));
+  });
+
+  it('should read through an injected reader', async () => {
+    const reader = jest.fn(async () => '{"version":0.6,"generator":"test","elements":[]}');
+    const source = osmFileSource('virtual.json', reader);
+
+    expect(source).toBeInstanceOf(OverpassJSONFileSource);
+    expect((await source.load()).elements).toEqual([]);
+    expect(reader).toHaveBeenCalledWith('virtual.json');
+  });
+});
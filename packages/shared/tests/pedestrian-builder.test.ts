@@ -0,0 +1,158 @@
+import { distanceToPolyline } from '../src/road-network/geometry';
+import type { OSMElement } from '../src/road-network/osm/overpass';
+import type { RoadNetwork } from '../src/road-network/types';
+import { buildNetwork } from './fixtures/build-network';
+
+const SIDEWALK_OFFSET = 3.25 + 0.5 + 1;  // lane, curb gap, half sidewalk
+
+/**
+ * Connected groups of pedNodes, walking sidewalks and crossing at crosswalks
+ */
+function components(network: RoadNetwork): string[][] {
+  const adjacency = new Map<string, string[]>(Object.keys(network.pedNodes).map(id => [id, []]));
+  const join = (a: string, b: string) => {
+    adjacency.get(a)!.push(b);
+    adjacency.get(b)!.push(a);
+  };
+
+  Object.values(network.pedEdges).forEach(edge => join(edge.fromNode, edge.toNode));
+  for (const crosswalk of Object.keys(network.crosswalks)) {
+    const ends = Object.values(network.crossLinks).filter(link => link.crossing === crosswalk).map(link => link.from.ref);
+    ends.slice(1).forEach(end => join(ends[0], end));
+  }
+
+  const seen = new Set<string>();
+  const groups: string[][] = [];
+  for (const start of adjacency.keys()) {
+    if (seen.has(start)) continue;
+    const group: string[] = [];
+    const stack = [start];
+    seen.add(start);
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      group.push(id);
+      for (const next of adjacency.get(id)!) {
+        if (!seen.has(next)) {
+          seen.add(next);
+          stack.push(next);
+        }
+      }
+    }
+    groups.push(group);
+  }
+  return groups;
+}
+
+/*
+ * Crossroads of two through ways at node 3, a crosswalk on every arm:
+ *
+ *            5
+ *            |
+ *           14
+ *   1 -11-  3  -12- 2
+ *           13
+ *            |
+ *            4
+ */
+const crossroads: OSMElement[] = [
+  { type: 'node', id: 1, lat: 50.07, lon: 14.399 },
+  { type: 'node', id: 2, lat: 50.07, lon: 14.401 },
+  { type: 'node', id: 3, lat: 50.07, lon: 14.4 },
+  { type: 'node', id: 4, lat: 50.0692, lon: 14.4 },
+  { type: 'node', id: 5, lat: 50.0708, lon: 14.4 },
+  { type: 'node', id: 11, lat: 50.07, lon: 14.3995, tags: { highway: 'crossing', crossing: 'uncontrolled' } },
+  { type: 'node', id: 12, lat: 50.07, lon: 14.4005, tags: { highway: 'crossing', crossing: 'uncontrolled' } },
+  { type: 'node', id: 13, lat: 50.0696, lon: 14.4, tags: { highway: 'crossing', crossing: 'uncontrolled' } },
+  { type: 'node', id: 14, lat: 50.0704, lon: 14.4, tags: { highway: 'crossing', crossing: 'uncontrolled' } },
+  { type: 'way', id: 101, nodes: [1, 11, 3, 12, 2], tags: { highway: 'residential', lanes: '2' } },
+  { type: 'way', id: 102, nodes: [4, 13, 3, 14, 5], tags: { highway: 'residential', lanes: '2' } },
+];
+
+describe('PedestrianBuilder', () => {
+  it('should run synthetic sidewalks along both sides of every arm', () => {
+    const network = buildNetwork(crossroads);
+    const sidewalks = Object.values(network.pedEdges).filter(edge => edge.id.startsWith('ped_way_'));
+    const road = network.lanes.way_101_fwd_0.poly.map(([x]) => [x, 0] as [number, number]);
+
+    // 4 arms x 2 sides, some split where crosswalks link in
+    const sides = new Set(sidewalks.map(edge => edge.id.replace(/_(a|b)+$/, '')));
+    expect(sides.size).toBe(8);
+
+    const alongWest = sidewalks.filter(edge => edge.id.startsWith('ped_way_101_0_'));
+    for (const edge of alongWest) {
+      const mid = edge.poly[Math.floor(edge.poly.length / 2)];
+      expect(distanceToPolyline(mid, road)).toBeCloseTo(SIDEWALK_OFFSET, 1);
+    }
+  });
+
+  it('should join sidewalks round the corners without crossing the road', () => {
+    const network = buildNetwork(crossroads);
+    const edges = Object.values(network.pedEdges);
+    const touches = (nodeId: string, way: number) =>
+      edges.some(edge => edge.id.startsWith(`ped_way_${way}_`) && (edge.fromNode === nodeId || edge.toNode === nodeId));
+
+    const corners = Object.values(network.pedNodes).filter(node => touches(node.id, 101) && touches(node.id, 102));
+
+    // Sidewalks of perpendicular roads meet in one node per quadrant, clear of both carriageways
+    expect(corners).toHaveLength(4);
+    for (const corner of corners) {
+      expect(Math.abs(corner.p[0])).toBeCloseTo(SIDEWALK_OFFSET, 0);
+      expect(Math.abs(corner.p[1])).toBeCloseTo(SIDEWALK_OFFSET, 0);
+    }
+  });
+
+  it('should link every crosswalk at both ends into one connected network', () => {
+    const network = buildNetwork(crossroads);
+    const links = Object.values(network.crossLinks);
+
+    expect(links).toHaveLength(8);
+    for (const crosswalk of Object.keys(network.crosswalks)) {
+      const ends = links.filter(link => link.crossing === crosswalk);
+      expect(ends).toHaveLength(2);
+      ends.forEach(link => {
+        expect(link.to).toEqual({ kind: 'crosswalk', ref: crosswalk });
+        expect(network.pedNodes[link.from.ref]).toBeDefined();
+      });
+    }
+
+    expect(components(network)).toHaveLength(1);
+  });
+
+  it('should prefer mapped sidewalks and tie loose footway ends in', () => {
+    const network = buildNetwork([
+      { type: 'node', id: 1, lat: 50.07, lon: 14.399 },
+      { type: 'node', id: 2, lat: 50.07, lon: 14.401 },
+      // Mapped sidewalk 6 m north of the road
+      { type: 'node', id: 21, lat: 50.070054, lon: 14.3992 },
+      { type: 'node', id: 22, lat: 50.070054, lon: 14.4008 },
+      // Path ending 4 m short of the south sidewalk
+      { type: 'node', id: 31, lat: 50.069921, lon: 14.4 },
+      { type: 'node', id: 32, lat: 50.0695, lon: 14.4 },
+      { type: 'way', id: 101, nodes: [1, 2], tags: { highway: 'residential', lanes: '2' } },
+      { type: 'way', id: 201, nodes: [21, 22], tags: { highway: 'footway', footway: 'sidewalk' } },
+      { type: 'way', id: 202, nodes: [31, 32], tags: { highway: 'path' } },
+    ]);
+
+    const ids = Object.keys(network.pedEdges);
+    expect(ids).toContain('ped_way_201_0');
+    expect(ids.some(id => id.startsWith('ped_way_101_0_left'))).toBe(false);   // north side is mapped
+    expect(ids.some(id => id.startsWith('ped_way_101_0_right'))).toBe(true);
+
+    const link = network.pedEdges.ped_link_ped_osm_31;
+    expect(link.kind).toBe('footpath');
+    expect(network.pedEdges[`${link.toNode.replace(/_at_\d+$/, '')}_a`]).toBeDefined();
+  });
+
+  it('should leave out sidewalks the tags rule out', () => {
+    const network = buildNetwork([
+      { type: 'node', id: 1, lat: 50.07, lon: 14.399 },
+      { type: 'node', id: 2, lat: 50.07, lon: 14.401 },
+      { type: 'node', id: 3, lat: 50.071, lon: 14.399 },
+      { type: 'node', id: 4, lat: 50.071, lon: 14.401 },
+      { type: 'way', id: 101, nodes: [1, 2], tags: { highway: 'residential', sidewalk: 'right' } },
+      { type: 'way', id: 102, nodes: [3, 4], tags: { highway: 'trunk' } },
+    ]);
+
+    expect(Object.keys(network.pedEdges)).toEqual(['ped_way_101_0_right']);
+  });
+});
@@ -0,0 +1,156 @@
+import { RoadNetworkManager } from '../src/road-network/RoadNetwork';
+import { SignalController } from '../src/road-network/signals';
+import { distance } from '../src/road-network/geometry';
+import type { TrafficParticipant } from '../src/rules/types';
+import { PedestrianManager } from '../src/traffic/pedestrian-manager';
+import { buildNetwork } from './fixtures/build-network';
+import { seededRandom } from './fixtures/random';
+
+const STEP = 1 / 60;
+
+/*
+ * West-east road through the origin, 143 m long, crosswalk 11 in the middle
+ */
+function street(crossing: string) {
+  const network = buildNetwork([
+    { type: 'node', id: 1, lat: 50.07, lon: 14.399 },
+    { type: 'node', id: 2, lat: 50.07, lon: 14.401 },
+    { type: 'node', id: 11, lat: 50.07, lon: 14.4, tags: { highway: 'crossing', crossing } },
+    { type: 'way', id: 101, nodes: [1, 11, 2], tags: { highway: 'residential', lanes: '2' } },
+  ]);
+  return new RoadNetworkManager(network);
+}
+
+/*
+ * Signalised crossroads of four arms meeting at node 3, signalised crosswalk 13 on the south arm
+ */
+function signalisedCrossroads() {
+  return buildNetwork([
+    { type: 'node', id: 1, lat: 50.07, lon: 14.399 },
+    { type: 'node', id: 2, lat: 50.07, lon: 14.401 },
+    { type: 'node', id: 3, lat: 50.07, lon: 14.4, tags: { highway: 'traffic_signals' } },
+    { type: 'node', id: 4, lat: 50.0692, lon: 14.4 },
+    { type: 'node', id: 5, lat: 50.0708, lon: 14.4 },
+    { type: 'node', id: 13, lat: 50.0696, lon: 14.4, tags: { highway: 'crossing', crossing: 'traffic_signals' } },
+    { type: 'way', id: 101, nodes: [1, 3], tags: { highway: 'residential', lanes: '2' } },
+    { type: 'way', id: 102, nodes: [4, 13, 3], tags: { highway: 'residential', lanes: '2' } },
+    { type: 'way', id: 103, nodes: [3, 2], tags: { highway: 'residential', lanes: '2' } },
+    { type: 'way', id: 104, nodes: [3, 5], tags: { highway: 'residential', lanes: '2' } },
+  ]);
+}
+
+// Eastbound car on the south lane of the street
+function car(x: number, speed: number): TrafficParticipant {
+  return { id: 'player', position: [x, -1.625], speed };
+}
+
+describe('RoadNetworkManager.planWalk', () => {
+  it('should walk the sidewalk to the crosswalk, over it and back along the other side', () => {
+    const network = street('uncontrolled');
+    const walk = network.planWalk([-60, -5], [-60, 5])!;
+
+    expect(walk.legs.filter(leg => leg.crosswalkId)).toHaveLength(1);
+    expect(walk.legs.find(leg => leg.crosswalkId)!.crosswalkId).toBe('crosswalk_11');
+    for (let i = 1; i < walk.legs.length; i++) {
+      const end = walk.legs[i - 1].poly[walk.legs[i - 1].poly.length - 1];
+      expect(distance(end, walk.legs[i].poly[0])).toBeLessThan(1e-6);
+    }
+    // Both sidewalks to the crosswalk and 9.5 m over the road between them
+    expect(walk.length).toBeGreaterThan(140);
+    expect(walk.length).toBeLessThan(160);
+  });
+
+  it('should return null when no pedestrian node is near', () => {
+    expect(street('uncontrolled').planWalk([0, 500], [0, 5])).toBeNull();
+  });
+});
+
+describe('PedestrianManager', () => {
+  it('should wait at a zebra for a car too close to stop and cross behind it', () => {
+    const network = street('zebra');
+    const pedestrians = new PedestrianManager(network, { random: seededRandom(1) });
+    const pedestrian = pedestrians.spawnAt([0, -5], [0, 5])!;
+    const player = car(-30, 14);
+    let waited = false;
+    let across = -Infinity;
+
+    for (let t = 0; t < 12; t += STEP) {
+      player.position = [player.position[0] + player.speed * STEP, player.position[1]];
+      pedestrians.update(STEP, undefined, [player]);
+
+      if (pedestrian.waiting) waited = true;
+      across = Math.max(across, pedestrian.position[1]);
+      // Never on the carriageway with the car at the crosswalk
+      if (Math.abs(player.position[0]) < 3) expect(Math.abs(pedestrian.position[1])).toBeGreaterThan(3.25);
+    }
+
+    expect(waited).toBe(true);
+    expect(across).toBeGreaterThan(4);
+  });
+
+  it('should step onto a zebra when the approaching car can still stop', () => {
+    const network = street('zebra');
+    const pedestrians = new PedestrianManager(network, { random: seededRandom(2) });
+    const pedestrian = pedestrians.spawnAt([0, -5], [0, 5])!;
+
+    pedestrians.update(STEP, undefined, [car(-70, 14)]);
+
+    expect(pedestrian.waiting).toBe(false);
+    expect(pedestrian.crosswalkId).toBe('crosswalk_11');
+    expect(pedestrian.speed).toBeGreaterThan(1);
+  });
+
+  it('should wait for a gap where cars go first', () => {
+    const network = street('unmarked');
+    const pedestrians = new PedestrianManager(network, { random: seededRandom(3) });
+    const pedestrian = pedestrians.spawnAt([0, -5], [0, 5])!;
+
+    pedestrians.update(STEP, undefined, [car(-70, 14)]);
+    expect(pedestrian.waiting).toBe(true);
+
+    pedestrians.update(STEP, undefined, [car(-140, 14)]);
+    expect(pedestrian.waiting).toBe(false);
+  });
+
+  it('should cross a signalised crosswalk only while the crossed approach has red', () => {
+    const roads = signalisedCrossroads();
+    const network = new RoadNetworkManager(roads);
+    const signals = new SignalController(roads);
+    const group = roads.lanes.way_102_fwd_0.signalGroupId!;
+    const [a, b] = roads.crosswalks.crosswalk_13.segment;
+    const y = (a[1] + b[1]) / 2;
+
+    let time = 0;
+    while (signals.getGroupState(group, time).state !== 'green') time += 1;
+    let clock = time;
+
+    const pedestrians = new PedestrianManager(network, { random: seededRandom(4), signals, clock: () => clock });
+    const pedestrian = pedestrians.spawnAt([-5, y], [5, y])!;
+
+    pedestrians.update(STEP);
+    expect(pedestrian.waiting).toBe(true);
+
+    while (signals.getGroupState(group, clock).state !== 'red') clock += 1;
+    pedestrians.update(STEP);
+    expect(pedestrian.waiting).toBe(false);
+    expect(pedestrian.crosswalkId).toBe('crosswalk_13');
+  });
+
+  it('should populate sidewalks around the focus and keep pedestrians walking', () => {
+    const network = street('zebra');
+    const pedestrians = new PedestrianManager(network, { random: seededRandom(5), maxPedestrians: 4, minSpawnDistance: 0 });
+    pedestrians.populate([0, 0]);
+
+    expect(pedestrians.pedestrians.length).toBeGreaterThan(0);
+    const start = pedestrians.pedestrians.map(p => [...p.position]);
+
+    for (let t = 0; t < 5; t += STEP) pedestrians.update(STEP, [0, 0]);
+
+    const moved = pedestrians.pedestrians.filter((p, i) => start[i] && distance(p.position, start[i] as [number, number]) > 1);
+    expect(moved.length).toBeGreaterThan(0);
+    for (const p of pedestrians.pedestrians) {
+      // On a sidewalk, or on the crosswalk
+      expect(Math.abs(p.position[1]) > 3.25 || p.crosswalkId).toBeTruthy();
+    }
+  });
+});
@@ -0,0 +1,44 @@
+import { LocalProjection } from '../src/road-network/projection';
+
+// Independent haversine distance for checking metric accuracy
+function haversine(lon1: number, lat1: number, lon2: number, lat2: number): number {
+  const R = 6371008.8;
+  const toRad = (d: number) => d * Math.PI / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * R * Math.asin(Math.sqrt(a));
+}
+
+describe('LocalProjection', () => {
+  const projection = LocalProjection.fromBounds({ minLat: 50.065, maxLat: 50.075, minLon: 14.395, maxLon: 14.405 });
+
+  it('should anchor the origin at the bounds centre', () => {
+    const [x, y] = projection.fromLonLat(14.4, 50.07);
+    expect(x).toBeCloseTo(0, 6);
+    expect(y).toBeCloseTo(0, 6);
+  });
+
+  it('should round-trip geographic coordinates', () => {
+    const p = projection.fromLonLat(14.3987, 50.0731);
+    const back = projection.toLonLat(p);
+    expect(back.lon).toBeCloseTo(14.3987, 9);
+    expect(back.lat).toBeCloseTo(50.0731, 9);
+  });
+
+  it('should produce distances in metres with east/north axes', () => {
+    const a = projection.fromLonLat(14.395, 50.065);
+    const b = projection.fromLonLat(14.405, 50.075);
+    const projected = Math.hypot(b[0] - a[0], b[1] - a[1]);
+    const expected = haversine(14.395, 50.065, 14.405, 50.075);
+
+    expect(b[0]).toBeGreaterThan(a[0]);
+    expect(b[1]).toBeGreaterThan(a[1]);
+    expect(Math.abs(projected - expected) / expected).toBeLessThan(0.005);
+  });
+
+  it('should serialize its descriptor', () => {
+    const restored = new LocalProjection(projection.toJSON());
+    expect(restored.fromLonLat(14.401, 50.071)).toEqual(projection.fromLonLat(14.401, 50.071));
+  });
+});
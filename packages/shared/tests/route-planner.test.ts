@@ -0,0 +1,65 @@
+import { RoadNetworkManager } from '../src/road-network/RoadNetwork';
+import { makeBlockNetwork, makeLane, makeNetwork } from './fixtures/network';
+
+describe('RoadNetworkManager.planRoute', () => {
+  it('should avoid left turns when penalised', () => {
+    const manager = new RoadNetworkManager(makeBlockNetwork());
+    const route = manager.planRoute([0, -50], [150, 101]);
+
+    expect(route?.lanes).toEqual(['S', 'AD', 'DC', 'G']);
+    expect(route?.steps.map(s => s.kind)).toEqual(['lane', 'connector', 'lane', 'connector', 'lane', 'connector', 'lane']);
+    expect(route?.startOffset).toBeCloseTo(50);
+    expect(route?.endOffset).toBeCloseTo(50);
+  });
+
+  it('should take the shortest way without penalties', () => {
+    const manager = new RoadNetworkManager(makeBlockNetwork());
+    const route = manager.planRoute([0, -50], [150, 101], { leftTurnPenalty: 0 });
+
+    expect(route?.lanes).toEqual(['S', 'AB', 'BC', 'G']);
+    expect(route?.length).toBeCloseTo(50 + 100 + 100 + 50);
+    expect(route?.travelTime).toBeCloseTo(route!.length / 13.89);
+  });
+
+  it('should respect disallowed connectors', () => {
+    const manager = new RoadNetworkManager(makeBlockNetwork({ connectors: { 'S>AD': { allowed: false } } }));
+    expect(manager.planRoute([0, -50], [150, 101])?.lanes).toEqual(['S', 'AB', 'BC', 'G']);
+  });
+
+  it('should keep learner cars out of bus lanes unless allowed', () => {
+    const network = makeBlockNetwork({ ab: { type: 'bus' }, connectors: { 'S>AD': { allowed: false } } });
+    const manager = new RoadNetworkManager(network);
+
+    expect(manager.planRoute([0, -50], [150, 101])).toBeNull();
+    expect(manager.planRoute([0, -50], [150, 101], { allowedLaneTypes: ['general', 'bus'] })?.lanes)
+      .toEqual(['S', 'AB', 'BC', 'G']);
+  });
+
+  it('should prefer faster lanes by travel time', () => {
+    const manager = new RoadNetworkManager(makeBlockNetwork({ ab: { maxSpeed: 4 } }));
+    const route = manager.planRoute([0, -50], [150, 101], { leftTurnPenalty: 0 });
+    expect(route?.lanes).toEqual(['S', 'AD', 'DC', 'G']);
+  });
+
+  it('should follow plain continuations between lanes outside junctions', () => {
+    const a = makeLane('a', [[0, 0], [50, 0]], { toNode: 'n1' });
+    const b = makeLane('b', [[50, 0], [100, 10]], { fromNode: 'n1', toNode: 'n2' });
+    const back = makeLane('back', [[50, 0], [0, 1]], { fromNode: 'n1' });
+    const manager = new RoadNetworkManager(makeNetwork({ lanes: [a, b, back] }));
+
+    const route = manager.planRoute([10, 0], [90, 8]);
+    expect(route?.steps).toEqual([{ kind: 'lane', id: 'a' }, { kind: 'lane', id: 'b' }]);
+  });
+
+  it('should return a single-lane route when target is ahead on the same lane', () => {
+    const manager = new RoadNetworkManager(makeBlockNetwork());
+    const route = manager.planRoute([0, -90], [0, -20]);
+    expect(route?.lanes).toEqual(['S']);
+    expect(route?.length).toBeCloseTo(70);
+  });
+
+  it('should return null when target is unreachable', () => {
+    const manager = new RoadNetworkManager(makeBlockNetwork());
+    expect(manager.planRoute([150, 100], [0, -50])).toBeNull();
+  });
+});
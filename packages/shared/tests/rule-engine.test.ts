@@ -0,0 +1,259 @@
+import { eventBus } from '../src/eventBus';
+import { IntersectionBuilder } from '../src/road-network/osm/intersection-builder';
+import { StopLineBuilder } from '../src/road-network/osm/stop-line-builder';
+import { LocalProjection } from '../src/road-network/projection';
+import { RoadNetworkManager } from '../src/road-network/RoadNetwork';
+import { SignalController } from '../src/road-network/signals';
+import { RuleEngine } from '../src/rules/rule-engine';
+import { TurnSignalChecker } from '../src/rules/turn-signal-checker';
+import type { OSMNode } from '../src/road-network/osm/overpass';
+import type { Lane, RoadNetwork, Vec2 } from '../src/road-network/types';
+import type { BlinkerSide, RuleViolation, TrafficParticipant } from '../src/rules/types';
+import { makeLane, makeNetwork } from './fixtures/network';
+
+const projection = new LocalProjection({ type: 'local_mercator', origin: { lat: 50, lon: 14 } });
+
+/**
+ * X junction at [0, 0] with two-lane roads, one OSM way per arm
+ */
+function buildNetwork(tags: OSMNode['tags'] = {}, overrides: Partial<Record<string, Partial<Lane>>> = {}): RoadNetwork {
+  const lane = (id: string, poly: Vec2[], wayId: number) => makeLane(id, poly, { wayId, ...overrides[id] });
+  const lanes = [
+    lane('Win', [[-100, -2], [-2, -2]], 1), lane('Wout', [[-2, 2], [-100, 2]], 1),
+    lane('Ein', [[100, 2], [2, 2]], 2), lane('Eout', [[2, -2], [100, -2]], 2),
+    lane('Sin', [[2, -100], [2, -2]], 3), lane('Sout', [[-2, -2], [-2, -100]], 3),
+    lane('Nin', [[-2, 100], [-2, 2]], 4), lane('Nout', [[2, 2], [2, 100]], 4),
+  ];
+  const node: OSMNode = { type: 'node', id: 1, lat: 50, lon: 14, tags };
+
+  const { intersection, connectors } = IntersectionBuilder.buildIntersection(
+    node,
+    lanes.filter(l => l.id.endsWith('in')),
+    lanes.filter(l => l.id.endsWith('out')),
+    new Map(),
+    projection
+  );
+  StopLineBuilder.placeStopLines(intersection, new Map(lanes.map(l => [l.id, l])), []);
+
+  return makeNetwork({ lanes, connectors, intersections: [intersection] });
+}
+
+interface Drive {
+  speed: number;            // m/s
+  time?: number;            // s at start
+  stopAt?: number;          // m along the path to stand still for a second
+  traffic?: TrafficParticipant[];
+  blinker?: { side: BlinkerSide; from: number };  // on from m along the path
+}
+
+/**
+ * Drive path in 0.1 s ticks, collecting violations
+ */
+function drive(engine: RuleEngine, path: Vec2[], { speed, time = 0, stopAt, traffic = [], blinker }: Drive): RuleViolation[] {
+  const violations: RuleViolation[] = [];
+  const dt = 0.1;
+  let walked = 0;
+
+  for (let i = 0; i < path.length - 1; i++) {
+    const [a, b] = [path[i], path[i + 1]];
+    const length = Math.hypot(b[0] - a[0], b[1] - a[1]);
+    const heading = Math.atan2(b[1] - a[1], b[0] - a[0]);
+    const dir: Vec2 = [(b[0] - a[0]) / length, (b[1] - a[1]) / length];
+
+    for (let s = 0; s <= length; s += Math.abs(speed) * dt) {
+      const position: Vec2 = [a[0] + dir[0] * s, a[1] + dir[1] * s];
+      const on = !!blinker && walked + s >= blinker.from;
+      const tick = (v: number) => {
+        violations.push(...engine.update(
+          { time, position, heading, speed: v, leftBlinker: on && blinker!.side === 'left', rightBlinker: on && blinker!.side === 'right' },
+          traffic
+        ));
+        time += dt;
+      };
+
+      if (stopAt !== undefined && s <= stopAt && s + Math.abs(speed) * dt > stopAt) {
+        for (let t = 0; t < 10; t++) tick(0);
+      }
+      tick(speed);
+    }
+    walked += length;
+  }
+
+  return violations;
+}
+
+// Northbound through the junction, S -> N
+const SOUTH_TO_NORTH: Vec2[] = [[2, -60], [2, 60]];
+
+describe('RuleEngine', () => {
+  it('should report speeding once per episode above the tolerance', () => {
+    const manager = new RoadNetworkManager(buildNetwork());
+    const engine = new RuleEngine(manager);
+
+    expect(drive(engine, [[-90, -2], [-20, -2]], { speed: 14.5 })).toEqual([]);
+
+    const violations = drive(engine, [[-90, -2], [-20, -2]], { speed: 20, time: 10 });
+    expect(violations).toHaveLength(1);
+    expect(violations[0]).toMatchObject({ type: 'speeding', laneId: 'Win', speed: 20, limit: 13.89 });
+    expect(violations[0].time).toBeCloseTo(11, 0);
+  });
+
+  it('should emit violations on the event bus', () => {
+    const engine = new RuleEngine(new RoadNetworkManager(buildNetwork()));
+    const received: RuleViolation[] = [];
+    const off = eventBus.on('ruleViolation', (violation: RuleViolation) => received.push(violation));
+
+    drive(engine, [[-90, -2], [-20, -2]], { speed: 20 });
+    off();
+
+    expect(received.map(v => v.type)).toEqual(['speeding']);
+  });
+
+  it('should require a full stop before a STOP line', () => {
+    const network = buildNetwork({ highway: 'stop' });
+    const stopLine = network.lanes.Sin.stopLine!;
+
+    const rolled = drive(new RuleEngine(new RoadNetworkManager(network)), SOUTH_TO_NORTH, { speed: 3 });
+    expect(rolled.map(v => v.type)).toEqual(['stop_sign']);
+    expect(rolled[0]).toMatchObject({ laneId: 'Sin', intersectionId: 'intersection_1', minSpeed: 3 });
+    expect(rolled[0].position[1]).toBeCloseTo(stopLine[0][1], 0);
+
+    // Standing 2 m before the line
+    const stopped = drive(new RuleEngine(new RoadNetworkManager(network)), SOUTH_TO_NORTH, {
+      speed: 3,
+      stopAt: stopLine[0][1] + 60 - 2,
+    });
+    expect(stopped).toEqual([]);
+  });
+
+  it('should check a STOP line again after backing up behind it', () => {
+    const network = buildNetwork({ highway: 'stop' });
+    const lineY = network.lanes.Sin.stopLine![0][1];
+    const engine = new RuleEngine(new RoadNetworkManager(network));
+
+    const violations = [
+      ...drive(engine, [[2, -60], [2, lineY + 0.5]], { speed: 3 }),
+      ...drive(engine, [[2, lineY + 0.5], [2, lineY - 5]], { speed: -1, time: 30 }),
+      ...drive(engine, [[2, lineY - 5], [2, 60]], { speed: 3, time: 40 }),
+    ];
+
+    expect(violations.filter(v => v.type === 'stop_sign')).toHaveLength(2);
+  });
+
+  it('should report entering on red', () => {
+    const network = buildNetwork({ highway: 'traffic_signals' });
+    const signals = new SignalController(network);
+    const group = network.lanes.Sin.signalGroupId!;
+    // Start of the other phase: this approach stays red for a while
+    const redFrom = signals.getPlan('intersection_1')!.phases.find(p => !p.groups.includes(group))!.greenStart;
+    const greenFrom = signals.getPlan('intersection_1')!.phases.find(p => p.groups.includes(group))!.greenStart;
+    const arrival = 60 / 10;   // s to reach the junction at 10 m/s
+
+    const onRed = drive(new RuleEngine(new RoadNetworkManager(network), { signals }), SOUTH_TO_NORTH, {
+      speed: 10,
+      time: redFrom - arrival,
+    });
+    expect(onRed).toHaveLength(1);
+    expect(onRed[0]).toMatchObject({ type: 'red_light', state: 'red', signalGroupId: group, laneId: 'Sin' });
+
+    const onGreen = drive(new RuleEngine(new RoadNetworkManager(network), { signals }), SOUTH_TO_NORTH, {
+      speed: 10,
+      time: greenFrom + 1 - arrival,
+    });
+    expect(onGreen).toEqual([]);
+  });
+
+  it('should report failing to yield to traffic from the right', () => {
+    const network = buildNetwork();
+    const fromRight: TrafficParticipant = { id: 'car_1', position: [20, 2], speed: 10, laneId: 'Ein' };
+    const farAway: TrafficParticipant = { ...fromRight, position: [90, 2] };
+
+    const violations = drive(new RuleEngine(new RoadNetworkManager(network)), SOUTH_TO_NORTH, {
+      speed: 8,
+      traffic: [fromRight],
+    });
+    expect(violations).toHaveLength(1);
+    expect(violations[0]).toMatchObject({
+      type: 'failed_to_yield',
+      intersectionId: 'intersection_1',
+      laneId: 'Sin',
+      connectorId: 'connector_Sin_to_Nout',
+      participantId: 'car_1',
+    });
+
+    expect(drive(new RuleEngine(new RoadNetworkManager(network)), SOUTH_TO_NORTH, {
+      speed: 8,
+      traffic: [farAway],
+    })).toEqual([]);
+    // Turning right does not cross traffic from the right
+    expect(drive(new RuleEngine(new RoadNetworkManager(network)), [[2, -60], [2, -4], [4, -2], [60, -2]], {
+      speed: 8,
+      traffic: [{ ...fromRight, connectorId: 'connector_Ein_to_Wout' }],
+      blinker: { side: 'right', from: 0 },
+    })).toEqual([]);
+  });
+
+  it('should report driving against the lane and on bus lanes', () => {
+    const network = buildNetwork({}, { Eout: { type: 'bus' } });
+    const engine = new RuleEngine(new RoadNetworkManager(network));
+
+    const wrongWay = drive(engine, [[-90, 2], [-20, 2]], { speed: 10 });
+    expect(wrongWay.map(v => v.type)).toEqual(['wrong_way']);
+    expect(wrongWay[0].laneId).toBe('Wout');
+
+    const bus = drive(engine, [[20, -2], [90, -2]], { speed: 10, time: 20 });
+    expect(bus).toMatchObject([{ type: 'restricted_lane', laneId: 'Eout', laneType: 'bus' }]);
+  });
+});
+
+describe('RuleEngine turn signals', () => {
+  const RIGHT_TURN: Vec2[] = [[2, -60], [2, -4], [4, -2], [60, -2]];
+  const check = (path: Vec2[], blinker?: Drive['blinker'], network = buildNetwork()) =>
+    drive(new RuleEngine(new RoadNetworkManager(network)), path, { speed: 8, blinker });
+
+  it('should accept a blinker switched on in time', () => {
+    expect(check(RIGHT_TURN, { side: 'right', from: 0 })).toEqual([]);
+    // Going straight needs no blinker
+    expect(check(SOUTH_TO_NORTH)).toEqual([]);
+  });
+
+  it('should report missing, wrong-side and late blinkers on turns', () => {
+    const missing = check(RIGHT_TURN);
+    expect(missing).toHaveLength(1);
+    expect(missing[0]).toMatchObject({
+      type: 'turn_signal',
+      maneuver: 'turn_right',
+      fault: 'missing',
+      connectorId: 'connector_Sin_to_Eout',
+      intersectionId: 'intersection_1',
+    });
+
+    expect(check(RIGHT_TURN, { side: 'left', from: 0 })).toMatchObject([{ fault: 'wrong_side' }]);
+    // 8 m before entering the junction at 8 m/s
+    expect(check(RIGHT_TURN, { side: 'right', from: 60 - 4.625 - 8 })).toMatchObject([{ fault: 'late' }]);
+    // Only once inside
+    expect(check(RIGHT_TURN, { side: 'right', from: 58 })).toMatchObject([{ fault: 'late' }]);
+  });
+
+  it('should check lane changes', () => {
+    const network = makeNetwork({
+      lanes: [
+        makeLane('right', [[0, 0], [200, 0]], { wayId: 1 }),
+        makeLane('left', [[0, 3.25], [200, 3.25]], { wayId: 1 }),
+      ],
+    });
+    const path: Vec2[] = [[10, 0], [60, 0], [80, 3.25], [150, 3.25]];
+
+    expect(check(path, undefined, network)).toMatchObject([{ type: 'turn_signal', maneuver: 'lane_change_left', fault: 'missing', laneId: 'left' }]);
+    expect(check(path, { side: 'left', from: 20 }, network)).toEqual([]);
+  });
+
+  it('should demand the right blinker when leaving a roundabout only', () => {
+    const ring = makeLane('ring', [[20, 0], [0, 20]], { roundabout: true });
+    const exit = makeLane('exit', [[0, 20], [0, 60]]);
+    const entry = makeLane('entry', [[60, 0], [20, 0]]);
+
+    expect(TurnSignalChecker.turnDemand(ring, exit)).toEqual({ maneuver: 'roundabout_exit', side: 'right' });
+    expect(TurnSignalChecker.turnDemand(entry, ring)).toBeNull();
+  });
+});
@@ -0,0 +1,109 @@
+import { IntersectionBuilder } from '../src/road-network/osm/intersection-builder';
+import { LocalProjection } from '../src/road-network/projection';
+import { SignalController } from '../src/road-network/signals';
+import type { OSMNode } from '../src/road-network/osm/overpass';
+import type { Lane } from '../src/road-network/types';
+import { makeLane, makeNetwork } from './fixtures/network';
+
+const projection = new LocalProjection({ type: 'local_mercator', origin: { lat: 50, lon: 14 } });
+const signalNode: OSMNode = { type: 'node', id: 1, lat: 50, lon: 14, tags: { highway: 'traffic_signals' } };
+
+/**
+ * Signalised X junction at [0, 0], one OSM way per arm
+ */
+function buildSignalNetwork() {
+  const arm = (name: string, wayId: number, inPoly: Lane['poly'], outPoly: Lane['poly']) => ({
+    in: makeLane(`${name}in`, inPoly, { wayId }),
+    out: makeLane(`${name}out`, outPoly, { wayId }),
+  });
+  const arms = [
+    arm('W', 1, [[-50, -2], [-8, -2]], [[-8, 2], [-50, 2]]),
+    arm('E', 2, [[50, 2], [8, 2]], [[8, -2], [50, -2]]),
+    arm('S', 3, [[2, -50], [2, -8]], [[-2, -8], [-2, -50]]),
+    arm('N', 4, [[-2, 50], [-2, 8]], [[2, 8], [2, 50]]),
+  ];
+
+  const { intersection, connectors } = IntersectionBuilder.buildIntersection(
+    signalNode,
+    arms.map(a => a.in),
+    arms.map(a => a.out),
+    new Map(),
+    projection
+  );
+
+  return makeNetwork({
+    lanes: arms.flatMap(a => [a.in, a.out]),
+    connectors,
+    intersections: [intersection],
+  });
+}
+
+const movement = (from: string, to: string) => `connector_${from}in_to_${to}out`;
+
+describe('SignalController', () => {
+  const network = buildSignalNetwork();
+  const controller = new SignalController(network);
+  const groupOf = (lane: string) => network.lanes[lane].signalGroupId!;
+
+  it('should assign one signal group per approach', () => {
+    const groups = controller.getGroups('intersection_1');
+
+    expect(groups).toHaveLength(4);
+    expect(new Set(['Win', 'Ein', 'Sin', 'Nin'].map(groupOf)).size).toBe(4);
+    expect(groups.find(g => g.id === groupOf('Sin'))!.connectors).toContain(movement('S', 'N'));
+  });
+
+  it('should put opposite approaches into one phase', () => {
+    const plan = controller.getPlan('intersection_1')!;
+
+    expect(plan.phases.map(p => p.groups.sort())).toEqual([
+      [groupOf('Ein'), groupOf('Win')].sort(),
+      [groupOf('Nin'), groupOf('Sin')].sort(),
+    ]);
+    expect(plan.cycle).toBe(2 * (1.5 + 20 + 3 + 2));
+  });
+
+  it('should run red-amber, green, amber and all-red intervals', () => {
+    const west = groupOf('Win');
+    const south = groupOf('Sin');
+
+    expect(controller.getGroupState(west, 0).state).toBe('red_amber');
+    expect(controller.getGroupState(west, 10)).toEqual({ state: 'green', remaining: 11.5 });
+    expect(controller.getGroupState(west, 23).state).toBe('amber');
+    // All-red clearance before the cross street starts
+    expect(controller.getGroupState(west, 25.5).state).toBe('red');
+    expect(controller.getGroupState(south, 25.5)).toEqual({ state: 'red', remaining: 1 });
+    expect(controller.getGroupState(south, 30).state).toBe('green');
+    expect(controller.getGroupState(west, 30)).toEqual({ state: 'red', remaining: 23 });
+    // Next cycle
+    expect(controller.getGroupState(west, 53 + 10).state).toBe('green');
+  });
+
+  it('should answer per connector and shift cycles by offset', () => {
+    expect(controller.isGreen(movement('W', 'E'), 10)).toBe(true);
+    expect(controller.isGreen(movement('S', 'N'), 10)).toBe(false);
+    expect(controller.isGreen('connector_elsewhere', 10)).toBe(true);
+
+    const shifted = new SignalController(network, { offsets: { intersection_1: 26.5 } });
+    expect(shifted.isGreen(movement('S', 'N'), 10)).toBe(true);
+  });
+
+  it('should derive the same groups for networks without signal group ids', () => {
+    const stripped = makeNetwork({
+      ...network,
+      lanes: Object.values(network.lanes).map(({ signalGroupId, ...lane }) => lane),
+      connectors: Object.values(network.laneConnectors),
+      intersections: Object.values(network.intersections),
+    });
+
+    expect(new SignalController(stripped).getGroups('intersection_1')).toEqual(controller.getGroups('intersection_1'));
+  });
+
+  it('should make permissive left turns yield to oncoming traffic on the same green', () => {
+    const rule = network.intersections.intersection_1.rules.find(r =>
+      [r.connectorA, r.connectorB].sort().join() === [movement('S', 'W'), movement('N', 'S')].sort().join()
+    )!;
+
+    expect(rule.hasPriority === 'A' ? rule.connectorA : rule.connectorB).toBe(movement('N', 'S'));
+  });
+});
@@ -0,0 +1,95 @@
+import { SpatialGrid } from '../src/road-network/spatial-index';
+import { RoadNetworkManager } from '../src/road-network/RoadNetwork';
+import { distanceToPolyline } from '../src/road-network/geometry';
+import type { RoadNetwork, Lane, Vec2 } from '../src/road-network/types';
+import { makeIntersection, makeLane, makeNetwork } from './fixtures/network';
+
+// Grid of horizontal and vertical streets, 100 units apart
+function makeGridNetwork(size: number): RoadNetwork {
+  const lanes: Lane[] = [];
+  for (let i = 0; i <= size; i++) {
+    lanes.push(makeLane(`h${i}`, [[0, i * 100], [size * 50, i * 100], [size * 100, i * 100]]));
+    lanes.push(makeLane(`v${i}`, [[i * 100, 0], [i * 100, size * 100]]));
+  }
+
+  return makeNetwork({
+    lanes,
+    intersections: [
+      makeIntersection('i_center', [], { center: [size * 50, size * 50] }),
+      makeIntersection('i_corner', [], { incoming: ['h0'], control: 'signals' }),
+    ],
+    crosswalks: {
+      cw_1: { id: 'cw_1', segment: [[140, 95], [140, 105]], hasSignals: false, priority: 'ped_over_cars' },
+    },
+  });
+}
+
+describe('SpatialGrid', () => {
+  it('should return items overlapping a query box', () => {
+    const grid = new SpatialGrid<string>(10);
+    grid.insert('a', { minX: 0, minY: 0, maxX: 5, maxY: 5 });
+    grid.insert('b', { minX: 50, minY: 50, maxX: 55, maxY: 55 });
+    grid.insert('long', { minX: 0, minY: 20, maxX: 100, maxY: 20 });
+
+    expect(grid.query({ minX: 1, minY: 1, maxX: 2, maxY: 2 })).toEqual(['a']);
+    expect(grid.query({ minX: 45, minY: 15, maxX: 60, maxY: 60 }).sort()).toEqual(['b', 'long']);
+    expect(grid.size).toBe(3);
+  });
+
+  it('should find the nearest item across several rings', () => {
+    const grid = new SpatialGrid<Vec2>(10);
+    const points: Vec2[] = [[0, 0], [35, 0], [100, 100]];
+    for (const p of points) grid.insert(p, { minX: p[0], minY: p[1], maxX: p[0], maxY: p[1] });
+
+    const from: Vec2 = [28, 1];
+    const dist = (p: Vec2) => Math.hypot(p[0] - from[0], p[1] - from[1]);
+
+    expect(grid.nearest(from, Infinity, dist)?.item).toEqual([35, 0]);
+    expect(grid.nearest(from, 5, dist)).toBeNull();
+  });
+
+  it('should reject invalid cell sizes', () => {
+    expect(() => new SpatialGrid(0)).toThrow();
+  });
+});
+
+describe('RoadNetworkManager spatial queries', () => {
+  const network = makeGridNetwork(10);
+  const manager = new RoadNetworkManager(network);
+
+  it('should agree with a linear scan for nearest lane', () => {
+    const probes: Vec2[] = [[3, 7], [512, 488], [990, 20], [250, 333], [1000, 1000]];
+
+    for (const probe of probes) {
+      const expected = Object.values(network.lanes)
+        .map(lane => ({ lane, d: distanceToPolyline(probe, lane.poly) }))
+        .sort((a, b) => a.d - b.d)[0];
+
+      const found = manager.findNearestLane(probe, Infinity);
+      expect(distanceToPolyline(probe, found!.poly)).toBeCloseTo(expected.d);
+    }
+  });
+
+  it('should respect maxDistance', () => {
+    expect(manager.findNearestLane([50, 50], 10)).toBeNull();
+    expect(manager.findNearestLane([50, 95], 10)?.id).toBe('h1');
+  });
+
+  it('should return lanes in bounding box', () => {
+    const ids = manager.findLanesInBounds({ minX: 150, minY: 250, maxX: 180, maxY: 320 }).map(l => l.id).sort();
+    expect(ids).toEqual(['h3']);
+  });
+
+  it('should return intersections and crosswalks in radius', () => {
+    expect(manager.findIntersectionsInRadius([510, 500], 20).map(i => i.id)).toEqual(['i_center']);
+    // Falls back to incoming lane end when no center is stored
+    expect(manager.findIntersectionsInRadius([1000, 5], 10).map(i => i.id)).toEqual(['i_corner']);
+    expect(manager.findCrosswalksInRadius([150, 100], 15).map(c => c.id)).toEqual(['cw_1']);
+    expect(manager.findCrosswalksInRadius([150, 100], 5)).toEqual([]);
+  });
+
+  it('should rebuild the index when loaded from JSON', () => {
+    const restored = RoadNetworkManager.fromJSON(manager.toJSON());
+    expect(restored.findNearestLane([50, 95], 10)?.id).toBe('h1');
+  });
+});
@@ -0,0 +1,86 @@
+import { StopLineBuilder } from '../src/road-network/osm/stop-line-builder';
+import type { Crosswalk, Intersection, Lane } from '../src/road-network/types';
+import { makeIntersection, makeLane } from './fixtures/network';
+
+/**
+ * Two-lane roads meeting at [0, 0], incoming lanes end 2 m off the junction node
+ */
+function makeArms() {
+  return {
+    Win: makeLane('Win', [[-50, -2], [-2, -2]], { wayId: 1 }),
+    Wout: makeLane('Wout', [[-2, 2], [-50, 2]], { wayId: 1 }),
+    Ein: makeLane('Ein', [[50, 2], [2, 2]], { wayId: 2 }),
+    Eout: makeLane('Eout', [[2, -2], [50, -2]], { wayId: 2 }),
+    Sin: makeLane('Sin', [[2, -50], [2, -2]], { wayId: 3 }),
+    Sout: makeLane('Sout', [[-2, -2], [-2, -50]], { wayId: 3 }),
+  };
+}
+
+function place(overrides: Partial<Intersection>, crosswalks: Crosswalk[] = [], setback?: number) {
+  const arms = makeArms();
+  const lanes = new Map<string, Lane>(Object.values(arms).map(lane => [lane.id, lane]));
+  const intersection = makeIntersection('x', [], {
+    incoming: ['Win', 'Ein', 'Sin'],
+    outgoing: ['Wout', 'Eout', 'Sout'],
+    center: [0, 0],
+    ...overrides,
+  });
+
+  StopLineBuilder.placeStopLines(intersection, lanes, crosswalks, setback === undefined ? {} : { setback });
+  return arms;
+}
+
+describe('StopLineBuilder', () => {
+  it('should stop every signalised approach clear of the crossing road', () => {
+    const arms = place({ control: 'signals' });
+    // Crossing road is two 3.25 m lanes wide, line 1 m before its edge
+    const y = -2 - (3.25 - Math.hypot(2, 2)) - 1;
+
+    expect(arms.Sin.stopLineKind).toBe('solid');
+    expect(arms.Sin.stopLine![0][0]).toBeCloseTo(2 - 3.25 / 2);
+    expect(arms.Sin.stopLine![1][0]).toBeCloseTo(2 + 3.25 / 2);
+    expect(arms.Sin.stopLine![0][1]).toBeCloseTo(y);
+    expect(arms.Win.stopLine).toBeDefined();
+    expect(arms.Ein.stopLine).toBeDefined();
+  });
+
+  it('should only stop side roads of a main road', () => {
+    const arms = makeArms();
+    arms.Sin.yieldSign = 'give_way';
+    const lanes = new Map<string, Lane>(Object.values(arms).map(lane => [lane.id, lane]));
+
+    StopLineBuilder.placeStopLines(makeIntersection('x', [], {
+      incoming: ['Win', 'Ein', 'Sin'],
+      outgoing: ['Wout', 'Eout', 'Sout'],
+      center: [0, 0],
+      control: 'give_way',
+      mainRoad: ['Win', 'Wout', 'Ein', 'Eout'],
+    }), lanes, []);
+
+    expect(arms.Sin.stopLineKind).toBe('dashed');
+    expect(arms.Win.stopLine).toBeUndefined();
+    expect(arms.Ein.stopLine).toBeUndefined();
+  });
+
+  it('should keep the stop line before a crosswalk in front of the junction', () => {
+    const crosswalk: Crosswalk = { id: 'c', segment: [[0, -6], [0, -6]], hasSignals: true, priority: 'signal' };
+    const arms = place({ control: 'signals' }, [crosswalk]);
+
+    // Crosswalk on the centreline at y = -6, 2 m of zebra, 1 m setback
+    expect(arms.Sin.stopLine![0][1]).toBeCloseTo(-9);
+    expect(arms.Win.stopLine![0][0]).toBeCloseTo(-2 - (3.25 - Math.hypot(2, 2)) - 1);
+  });
+
+  it('should measure from the intersection polygon with a configurable setback', () => {
+    const polygon: Intersection['polygon'] = [[-5, -5], [5, -5], [5, 5], [-5, 5]];
+
+    expect(place({ control: 'stop', polygon }).Sin.stopLine![0][1]).toBeCloseTo(-6);
+    expect(place({ control: 'stop', polygon }, [], 3).Sin.stopLine![0][1]).toBeCloseTo(-8);
+  });
+
+  it('should leave uncontrolled junctions without stop lines', () => {
+    const arms = place({ control: 'uncontrolled' });
+
+    expect(Object.values(arms).some(lane => lane.stopLine)).toBe(false);
+  });
+});
@@ -0,0 +1,266 @@
+import { IntersectionBuilder } from '../src/road-network/osm/intersection-builder';
+import { RoadNetworkManager } from '../src/road-network/RoadNetwork';
+import { SignalController } from '../src/road-network/signals';
+import type { ControlType, Lane, RightOfWayRule } from '../src/road-network/types';
+import { TrafficManager, type TrafficObstacle } from '../src/traffic/traffic-manager';
+import { idmAcceleration, DEFAULT_IDM_PARAMS } from '../src/traffic/idm';
+import { makeConnector, makeIntersection, makeLane, makeNetwork } from './fixtures/network';
+import { seededRandom } from './fixtures/random';
+
+const STEP = 1 / 60;
+
+/*
+ * Approach A ends in a junction: straight on to B is allowed, right turn to C is not.
+ * B continues into D without a junction.
+ *
+ *   A (0,0)->(200,0) ==> B (215,0)->(400,0) --> D (400,0)->(600,0)
+ *                   \
+ *                    x  C (210,-10)->(210,-200)
+ */
+function junctionNetwork() {
+  const a = makeLane('A', [[0, 0], [200, 0]]);
+  const b = makeLane('B', [[215, 0], [400, 0]], { toNode: 'n400' });
+  const c = makeLane('C', [[210, -10], [210, -200]]);
+  const d = makeLane('D', [[400, 0], [600, 0]], { fromNode: 'n400' });
+  const straight = makeConnector(a, b);
+  const right = makeConnector(a, c, { allowed: false });
+
+  return new RoadNetworkManager(makeNetwork({
+    lanes: [a, b, c, d],
+    connectors: [straight, right],
+    intersections: [makeIntersection('J', [straight, right])],
+  }));
+}
+
+/*
+ * Four-arm crossroads, right-hand traffic, straight movements only:
+ *
+ *            NS | ^
+ *               | |  SN exit
+ *   <-- EW -----+-+-----
+ *   --- WE ---->+-+-----
+ *               | |
+ *               v | SN
+ *
+ * Right-hand rule: WE gives way to SN, SN to EW, EW to NS and NS to WE.
+ */
+function crossroads(control: ControlType = 'uncontrolled', approach: Partial<Lane> = {}) {
+  const lanes = {
+    WE: makeLane('WE', [[-200, -2], [-10, -2]], approach),
+    SN: makeLane('SN', [[2, -200], [2, -10]], approach),
+    EW: makeLane('EW', [[200, 2], [10, 2]], approach),
+    NS: makeLane('NS', [[-2, 200], [-2, 10]], approach),
+    WE_out: makeLane('WE_out', [[10, -2], [200, -2]]),
+    SN_out: makeLane('SN_out', [[2, 10], [2, 200]]),
+    EW_out: makeLane('EW_out', [[-10, 2], [-200, 2]]),
+    NS_out: makeLane('NS_out', [[-2, -10], [-2, -200]]),
+  };
+  const connectors = (['WE', 'SN', 'EW', 'NS'] as const).map(arm => makeConnector(lanes[arm], lanes[`${arm}_out`]));
+  const id = (arm: string) => `connector_${arm}_to_${arm}_out`;
+  const yieldsTo: Record<string, string> = { WE: 'SN', SN: 'EW', EW: 'NS', NS: 'WE' };
+  const conflicts = IntersectionBuilder.detectConflicts(connectors);
+  const rules: RightOfWayRule[] = conflicts.map(c => ({
+    connectorA: c.connectorA,
+    connectorB: c.connectorB,
+    hasPriority: control === 'signals' ? 'signal' : id(yieldsTo[c.connectorA.slice(10, 12)]) === c.connectorB ? 'B' : 'A',
+  }));
+
+  const network = makeNetwork({
+    lanes: Object.values(lanes),
+    connectors,
+    intersections: [makeIntersection('X', connectors, { control, rules, conflicts, center: [0, 0] })],
+  });
+  return { network, manager: new RoadNetworkManager(network), id };
+}
+
+function run(traffic: TrafficManager, seconds: number, each?: () => void, obstacles: TrafficObstacle[] = []) {
+  for (let t = 0; t < seconds; t += STEP) {
+    traffic.update(STEP, undefined, obstacles);
+    each?.();
+  }
+}
+
+describe('RoadNetworkManager.getLaneSuccessors', () => {
+  it('should return allowed connectors at a junction and plain continuation elsewhere', () => {
+    const network = junctionNetwork();
+
+    const atJunction = network.getLaneSuccessors('A');
+    expect(atJunction.map(s => s.lane.id)).toEqual(['B']);
+    expect(atJunction[0].connector?.id).toBe('connector_A_to_B');
+
+    expect(network.getLaneSuccessors('B')).toEqual([{ lane: network.getLane('D') }]);
+    expect(network.getLaneSuccessors('D')).toEqual([]);
+  });
+});
+
+describe('idmAcceleration', () => {
+  it('should accelerate on a free road and brake hard when closing in on a stopped car', () => {
+    expect(idmAcceleration(0, 14, Infinity, 0)).toBeCloseTo(DEFAULT_IDM_PARAMS.maxAccel);
+    expect(idmAcceleration(14, 14, Infinity, 0)).toBeCloseTo(0);
+    expect(idmAcceleration(14, 14, 20, 0)).toBeLessThan(-DEFAULT_IDM_PARAMS.comfortDecel);
+  });
+});
+
+describe('TrafficManager', () => {
+  it('should drive up to the lane speed limit without exceeding it', () => {
+    const traffic = new TrafficManager(junctionNetwork(), { random: seededRandom(1) });
+    const car = traffic.spawnAt('A', 0)!;
+    let topSpeed = 0;
+
+    run(traffic, 20, () => { topSpeed = Math.max(topSpeed, car.speed); });
+
+    expect(topSpeed).toBeGreaterThan(10);
+    expect(topSpeed).toBeLessThanOrEqual(13.89);
+  });
+
+  it('should take only allowed turns and drive connector then exit lane', () => {
+    const traffic = new TrafficManager(junctionNetwork(), { random: seededRandom(2) });
+    const car = traffic.spawnAt('A', 150, 10)!;
+    const visited = new Set<string>();
+
+    expect(car.connectorId).toBe('connector_A_to_B');
+    run(traffic, 10, () => visited.add(car.laneId ?? car.connectorId!));
+
+    expect([...visited]).toEqual(['A', 'connector_A_to_B', 'B']);
+    expect(car.laneId).toBe('B');
+    expect(car.heading).toBeCloseTo(0);
+  });
+
+  it('should queue behind a standing obstacle without touching it', () => {
+    const traffic = new TrafficManager(junctionNetwork(), { random: seededRandom(3) });
+    const first = traffic.spawnAt('A', 40, 12)!;
+    const second = traffic.spawnAt('A', 10, 12)!;
+    const obstacle: TrafficObstacle = { id: 'player', position: [150, 0], speed: 0, length: 4.5 };
+    let minGap = Infinity;
+
+    run(traffic, 30, () => {
+      minGap = Math.min(minGap, obstacle.position[0] - first.position[0] - 4.5, first.position[0] - second.position[0] - 4.5);
+    }, [obstacle]);
+
+    expect(first.speed).toBeCloseTo(0, 1);
+    expect(second.speed).toBeCloseTo(0, 1);
+    expect(minGap).toBeGreaterThan(1);
+    expect(obstacle.position[0] - first.position[0] - 4.5).toBeLessThan(DEFAULT_IDM_PARAMS.minGap + 1);
+  });
+
+  it('should remove cars at the end of the network and far from the focus', () => {
+    const traffic = new TrafficManager(junctionNetwork(), { random: seededRandom(4), despawnRadius: 100 });
+    traffic.spawnAt('D', 190, 10);
+    const far = traffic.spawnAt('A', 10)!;
+
+    run(traffic, 2);
+    expect(traffic.vehicles).toEqual([far]);
+
+    traffic.update(STEP, [500, 0]);
+    expect(traffic.vehicles).not.toContain(far);
+  });
+
+  it('should populate lanes around the focus with spaced out cars', () => {
+    const traffic = new TrafficManager(junctionNetwork(), { random: seededRandom(5), maxVehicles: 8 });
+    traffic.populate([200, 0]);
+
+    const cars = traffic.vehicles;
+    expect(cars.length).toBeGreaterThan(3);
+    for (const a of cars) {
+      for (const b of cars) {
+        if (a !== b) expect(Math.hypot(a.position[0] - b.position[0], a.position[1] - b.position[1])).toBeGreaterThanOrEqual(30);
+      }
+    }
+  });
+});
+
+describe('TrafficManager at junctions', () => {
+  const inside = (car: { position: [number, number] | number[] }) =>
+    Math.abs(car.position[0]) < 10 && Math.abs(car.position[1]) < 10;
+
+  it('should give way to the car from the right and go after it has passed', () => {
+    const { manager, id } = crossroads();
+    const traffic = new TrafficManager(manager, { random: seededRandom(6) });
+    const yielding = traffic.spawnAt('WE', 150, 10)!;
+    const priority = traffic.spawnAt('SN', 150, 10)!;
+    let priorityFirst = false;
+    let bothInside = false;
+
+    run(traffic, 30, () => {
+      if (inside(priority) && !inside(yielding) && yielding.position[0] < -10) priorityFirst = true;
+      if (inside(priority) && inside(yielding)) bothInside = true;
+    });
+
+    expect(priorityFirst).toBe(true);
+    expect(bothInside).toBe(false);
+    expect(yielding.laneId).toBe('WE_out');
+    expect(priority.laneId).toBe('SN_out');
+    expect(yielding.connectorId ?? id('WE')).toBe(id('WE'));
+  });
+
+  it('should wait for the player arriving on the priority road', () => {
+    const { manager } = crossroads();
+    const traffic = new TrafficManager(manager, { random: seededRandom(7) });
+    const car = traffic.spawnAt('WE', 170, 10)!;
+    const player: TrafficObstacle = { id: 'player', position: [2, -40], speed: 12, length: 5 };
+
+    // Car alone would reach the junction first, here it lets the player through
+    while (player.position[1] < 20) {
+      player.position = [2, player.position[1] + player.speed * STEP];
+      traffic.update(STEP, undefined, [player]);
+      expect(inside(car)).toBe(false);
+    }
+
+    run(traffic, 10);
+    expect(car.laneId).toBe('WE_out');
+  });
+
+  it('should come to a full stop at a STOP sign before entering', () => {
+    const { manager } = crossroads('uncontrolled', { yieldSign: 'stop' });
+    const traffic = new TrafficManager(manager, { random: seededRandom(8) });
+    const car = traffic.spawnAt('WE', 100, 12)!;
+    let stoppedBefore = false;
+
+    run(traffic, 30, () => {
+      if (car.speed < 0.3 && car.position[0] > -20 && car.position[0] < -10) stoppedBefore = true;
+      if (inside(car)) expect(stoppedBefore).toBe(true);
+    });
+
+    expect(car.laneId).toBe('WE_out');
+  });
+
+  it('should hold at red and drive off on green', () => {
+    const { network, manager, id } = crossroads('signals');
+    const signals = new SignalController(network);
+    let time = 0;
+    while (signals.getConnectorState(id('WE'), time)?.state !== 'red') time += 1;
+    const redTime = time;
+    while (signals.getConnectorState(id('WE'), time)?.state !== 'green') time += 1;
+    const greenTime = time;
+
+    let clock = redTime;
+    const traffic = new TrafficManager(manager, { random: seededRandom(9), signals, clock: () => clock });
+    const car = traffic.spawnAt('WE', 100, 12)!;
+
+    run(traffic, 30, () => expect(inside(car)).toBe(false));
+    expect(car.speed).toBeLessThan(0.5);
+    expect(car.position[0]).toBeGreaterThan(-20);
+
+    clock = greenTime;
+    run(traffic, 10);
+    expect(car.laneId).toBe('WE_out');
+  });
+
+  it('should resolve the four-way right-hand-rule deadlock one car at a time', () => {
+    const { manager } = crossroads();
+    const traffic = new TrafficManager(manager, { random: seededRandom(10), deadlockTime: 2 });
+    const cars = ['WE', 'SN', 'EW', 'NS'].map(lane => traffic.spawnAt(lane, 170, 8)!);
+    let closest = Infinity;
+
+    run(traffic, 60, () => {
+      for (const a of cars) {
+        for (const b of cars) {
+          if (a !== b) closest = Math.min(closest, Math.hypot(a.position[0] - b.position[0], a.position[1] - b.position[1]));
+        }
+      }
+    });
+
+    expect(cars.map(car => car.laneId)).toEqual(['WE_out', 'SN_out', 'EW_out', 'NS_out']);
+    expect(closest).toBeGreaterThan(4);
+  });
+});
@@ -0,0 +1,130 @@
+import type { DriveInput } from '../src/replay/types';
+import { DEFAULT_VEHICLE_SPEC } from '../src/vehicle/vehicle-spec';
+import { VehicleModel } from '../src/vehicle/vehicle-model';
+import { makeInput } from './fixtures/drive';
+
+const STEP = 1 / 60;
+const kmh = (v: number) => v / 3.6;
+
+function drive(car: VehicleModel, seconds: number, control: Partial<DriveInput> = {}): void {
+  for (let i = 0; i < Math.round(seconds / STEP); i++) car.update(STEP, makeInput(control));
+}
+
+/** Car on cruise control at speed (m/s), heading east */
+function cruising(speed: number): VehicleModel {
+  const car = new VehicleModel(0, 0);
+  while (car.speed < speed) car.update(STEP, makeInput({ throttle: 1 }));
+  car.update(STEP, makeInput({ cruiseControlToggle: true }));
+  return car;
+}
+
+const lateralAccel = (car: VehicleModel) => car.speed ** 2 * Math.abs(Math.tan(car.steering)) / car.spec.wheelbase;
+
+describe('VehicleModel', () => {
+  it('should accelerate and move in metres', () => {
+    const car = new VehicleModel(10, 20);
+    drive(car, 4, { throttle: 1 });
+
+    // v = a·t, s = a·t²/2
+    expect(car.speed).toBeCloseTo(DEFAULT_VEHICLE_SPEC.maxAccel * 4, 5);
+    expect(car.position.x - 10).toBeCloseTo(DEFAULT_VEHICLE_SPEC.maxAccel * 16 / 2, 0);
+    expect(car.position.y).toBe(20);
+    expect(car.totalDistance).toBeCloseTo(car.position.x - 10, 6);
+  });
+
+  it('should stop within the braking distance of the hard brake', () => {
+    const car = cruising(kmh(50));
+    const speed = car.speed;
+    const start = car.position.x;
+    let furthest = start;
+
+    for (let t = 0; t < 3; t += STEP) {
+      car.update(STEP, makeInput({ hardBrake: true }));
+      furthest = Math.max(furthest, car.position.x);
+    }
+
+    const ideal = speed ** 2 / (2 * DEFAULT_VEHICLE_SPEC.brakeHard);
+    expect(furthest - start).toBeGreaterThan(ideal * 0.95);
+    expect(furthest - start).toBeLessThan(ideal + speed * STEP);
+    expect(car.cruiseControlSpeed).toBeNull();
+  });
+
+  it('should brake harder with a stronger brake spec', () => {
+    const strong = new VehicleModel(0, 0, 0, { ...DEFAULT_VEHICLE_SPEC, brakeHard: 10 });
+    const normal = new VehicleModel(0, 0);
+    for (const car of [strong, normal]) {
+      drive(car, 5, { throttle: 1 });
+      drive(car, 3, { hardBrake: true });
+    }
+
+    expect(strong.position.x).toBeLessThan(normal.position.x);
+  });
+
+  it('should estimate stopping distance with reaction time', () => {
+    const car = cruising(kmh(72));
+    const v = car.speed;
+
+    expect(car.getStoppingDistance()).toBeCloseTo(v + v * v / (2 * DEFAULT_VEHICLE_SPEC.brakeSoft), 6);
+    expect(car.getStoppingDistance(8, 0)).toBeCloseTo(v * v / 16, 6);
+    expect(new VehicleModel(0, 0).getStoppingDistance()).toBe(0);
+  });
+
+  it('should hold the cruise speed and adjust it with throttle', () => {
+    const car = cruising(kmh(50));
+    const target = car.cruiseControlSpeed!;
+    expect(target).toBeGreaterThanOrEqual(kmh(50));
+
+    drive(car, 20);
+    expect(car.speed).toBeCloseTo(target, 2);
+
+    drive(car, 1, { throttle: 1 });
+    expect(car.cruiseControlSpeed).toBeCloseTo(target + 2.8, 5);
+
+    car.update(STEP, makeInput({ cruiseControlToggle: true }));
+    expect(car.cruiseControlSpeed).toBeNull();
+  });
+
+  it('should not engage cruise control below its minimum speed', () => {
+    const car = new VehicleModel(0, 0);
+    drive(car, 0.5, { throttle: 1 });
+    car.update(STEP, makeInput({ cruiseControlToggle: true }));
+
+    expect(car.speed).toBeLessThan(DEFAULT_VEHICLE_SPEC.cruiseMinSpeed);
+    expect(car.cruiseControlSpeed).toBeNull();
+  });
+
+  it('should keep steering within the lateral limit in normal driving', () => {
+    const car = cruising(kmh(72));
+    let peak = 0;
+    for (let i = 0; i < 120; i++) {
+      car.update(STEP, makeInput({ steer: 1 }));
+      peak = Math.max(peak, lateralAccel(car));
+    }
+
+    expect(peak).toBeGreaterThan(DEFAULT_VEHICLE_SPEC.lateralLimit * 0.9);
+    expect(peak).toBeLessThanOrEqual(DEFAULT_VEHICLE_SPEC.lateralLimit * 1.01);
+  });
+
+  it('should allow the emergency lateral limit only while swerving under hard brake', () => {
+    const car = cruising(kmh(72));
+    let peak = 0;
+    for (let i = 0; i < 60; i++) {
+      car.update(STEP, makeInput({ steer: 1, hardBrake: true }));
+      peak = Math.max(peak, lateralAccel(car));
+    }
+
+    expect(peak).toBeGreaterThan(DEFAULT_VEHICLE_SPEC.lateralLimit * 1.2);
+    expect(peak).toBeLessThanOrEqual(DEFAULT_VEHICLE_SPEC.lateralEmergency * 1.01);
+  });
+
+  it('should restore exactly from its dynamics state', () => {
+    const car = cruising(kmh(40));
+    drive(car, 1, { steer: -1, leftBlinker: true });
+    const copy = new VehicleModel(0, 0);
+    copy.setState(car.getState());
+
+    drive(car, 2, { steer: 1 });
+    drive(copy, 2, { steer: 1 });
+    expect(copy.getState()).toEqual(car.getState());
+  });
+});
@@ -30,7 +30,7 @@ async function testSemanticModel() {
     const manager = new RoadNetworkManager(network);
     
     // Test pozice v centru oblasti
-    const testPos = [14.425, 50.08]; // [lon, lat] 
+    const testPos = manager.lonLatToNetwork(14.425, 50.08); // [lon, lat] -> metry
     console.log('🔍 Testuji prostorové dotazy...');
     
     const nearestLane = manager.findNearestLane(testPos, 100);